@@ -0,0 +1,125 @@
+// ProtectedRoute.test.tsx
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ProtectedRoute from './src/components/auth/ProtectedRoute';
+import { useWallet } from './src/contexts/WalletContext';
+import { AccountRoles, UserRole } from './src/services/roleService';
+
+// The wallet state each test renders with
+jest.mock('./src/contexts/WalletContext', () => ({
+  useWallet: jest.fn()
+}));
+
+// Roles come from the wallet state, so the contract is never read
+jest.mock('./src/services/contractService', () => ({
+  isIssuer: jest.fn(),
+  isAdmin: jest.fn()
+}));
+
+// Renders the role the page asked for, so tests can tell why access was refused
+jest.mock('./src/pages/UnauthorizedPage', () => ({
+  __esModule: true,
+  default: ({ requiredRole }: { requiredRole?: string | string[] }) =>
+    `Unauthorized: ${[requiredRole ?? 'wallet'].flat().join(', ')}`
+}));
+
+type WalletState = ReturnType<typeof useWallet>;
+
+const accountRoles: Record<UserRole, AccountRoles> = {
+  holder: { issuer: false, admin: false },
+  issuer: { issuer: true, admin: false },
+  admin: { issuer: false, admin: true }
+};
+
+const mockWallet = (state: Partial<WalletState> = {}) => {
+  (useWallet as jest.Mock).mockReturnValue({
+    address: '0x1234567890abcdef1234567890abcdef12345678',
+    isConnecting: false,
+    isRestoring: false,
+    isAuthenticated: true,
+    isSigningIn: false,
+    signIn: jest.fn(),
+    roles: accountRoles.holder,
+    rolesError: null,
+    ...state
+  });
+};
+
+const renderRoute = (requiredRole?: UserRole | UserRole[]) =>
+  renderToStaticMarkup(
+    <ProtectedRoute requiredRole={requiredRole}>
+      <p>Protected page</p>
+    </ProtectedRoute>
+  );
+
+describe('ProtectedRoute', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should ask for a connected wallet', () => {
+    mockWallet({ address: null });
+
+    expect(renderRoute()).toBe('Unauthorized: wallet');
+  });
+
+  it('should wait while the wallet connects', () => {
+    mockWallet({ address: null, isRestoring: true });
+
+    expect(renderRoute('admin')).toContain('Connecting to wallet...');
+  });
+
+  describe.each<UserRole>(['holder', 'issuer', 'admin'])('for %s pages', requiredRole => {
+    it('should prompt connected accounts to sign in', () => {
+      mockWallet({ isAuthenticated: false, roles: accountRoles[requiredRole] });
+
+      const html = renderRoute(requiredRole);
+
+      expect(html).toContain('Sign In with Ethereum');
+      expect(html).not.toContain('Protected page');
+    });
+
+    it('should show the page to signed-in accounts with the role', () => {
+      mockWallet({ roles: accountRoles[requiredRole] });
+
+      expect(renderRoute(requiredRole)).toBe('<p>Protected page</p>');
+    });
+  });
+
+  it.each<[UserRole, UserRole | UserRole[], string]>([
+    ['holder', 'holder', '<p>Protected page</p>'],
+    ['holder', 'issuer', 'Unauthorized: issuer'],
+    ['holder', 'admin', 'Unauthorized: admin'],
+    ['holder', ['issuer', 'admin'], 'Unauthorized: issuer, admin'],
+    ['issuer', 'holder', '<p>Protected page</p>'],
+    ['issuer', 'issuer', '<p>Protected page</p>'],
+    ['issuer', 'admin', 'Unauthorized: admin'],
+    ['issuer', ['issuer', 'admin'], '<p>Protected page</p>'],
+    ['admin', 'holder', '<p>Protected page</p>'],
+    ['admin', 'issuer', 'Unauthorized: issuer'],
+    ['admin', 'admin', '<p>Protected page</p>'],
+    ['admin', ['issuer', 'admin'], '<p>Protected page</p>']
+  ])('should let a signed-in %s open %s pages only with the role', (account, requiredRole, expected) => {
+    mockWallet({ roles: accountRoles[account] });
+
+    expect(renderRoute(requiredRole)).toBe(expected);
+  });
+
+  it('should show holder pages before roles are resolved', () => {
+    mockWallet({ roles: null });
+
+    expect(renderRoute()).toBe('<p>Protected page</p>');
+  });
+
+  it('should wait for roles on issuer and admin pages', () => {
+    mockWallet({ roles: null });
+
+    expect(renderRoute('issuer')).toContain('Checking your role...');
+  });
+
+  it('should refuse issuer and admin pages when roles could not be read', () => {
+    mockWallet({ roles: null, rolesError: 'Failed to check your role' });
+
+    expect(renderRoute('admin')).toBe('Unauthorized: admin');
+  });
+});
@@ -1,6 +1,13 @@
 // contractService.test.ts
 import { ethers } from 'ethers';
-import { ContractError, ValidationError } from './src/utils/errors';
+import {
+  ContractError,
+  CredentialNotFoundError,
+  CredentialRevokedError,
+  CredentialStatusError,
+  NotIssuerError,
+  ValidationError
+} from './src/utils/errors';
 import { 
   initContract, 
   getContract, 
@@ -8,10 +15,61 @@ import {
   isWalletConnected, 
   onWalletChange,
   mintCredential,
+  estimateMintCredential,
+  estimateRevokeCredential,
   getCredential,
+  getCredentialOwner,
+  getTokenIdByIpfsHash,
+  verifyCredentialDocument,
   revokeCredential,
-  getTokensByOwner
+  grantIssuer,
+  isIssuer,
+  mintCredentialsBatch,
+  signCredential,
+  verifySignedCredential,
+  anchorMerkleRoot,
+  verifyMerkleCredential,
+  getRevocation,
+  getRevocationHistory,
+  getAllTransactions,
+  getTransactionStatus,
+  getLatestTransactionStatus,
+  suspendCredential,
+  reinstateCredential,
+  isGaslessAvailable,
+  isGaslessMode,
+  setGaslessMode,
+  amendCredential,
+  getCredentialVersions
 } from './src/services/contractService';
+import { EDU_CRED_TOKEN_ABI, EDU_CRED_TOKEN_ABI_HASH } from './src/contracts/EduCredToken';
+import { getDeployment } from './src/utils/deployments';
+import { disconnectWallet, getWalletSession } from './src/services/walletSession';
+import { buildMerkleTree } from './src/utils/merkle';
+import { SIGNED_CREDENTIAL_TYPES } from './src/utils/signedCredential';
+
+// Wallet requests go to whatever window.ethereum is, as if the user had picked it
+jest.mock('./src/services/walletProviders', () => ({
+  getEthereumProvider: jest.fn(() => global.window?.ethereum ?? null),
+  selectWalletProvider: jest.fn(),
+  clearSelectedWalletProvider: jest.fn()
+}));
+
+// No deployments are recorded unless a test adds one
+jest.mock('./src/utils/deployments', () => ({
+  getDeployment: jest.fn().mockReturnValue(null)
+}));
+
+const deployment = {
+  chainId: 80002,
+  network: 'amoy',
+  address: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  forwarderAddress: '0x9876543210fedcba9876543210fedcba98765432',
+  deploymentBlock: 100,
+  abiHash: EDU_CRED_TOKEN_ABI_HASH,
+  deployer: '0x1234567890abcdef1234567890abcdef12345678',
+  deployedAt: '2026-01-01T00:00:00.000Z'
+};
 
 // Mock the global window.ethereum object
 const mockEthereum = {
@@ -23,20 +81,106 @@ const mockEthereum = {
 
 // Mock the ethers provider and signer
 const mockProvider = {
-  getSigner: jest.fn()
+  getSigner: jest.fn(),
+  getNetwork: jest.fn()
 };
 
 const mockSigner = {
   getAddress: jest.fn()
 };
 
+// Encodes the events and custom errors the mocked contract emits and reverts with
+const tokenInterface = new ethers.utils.Interface(EDU_CRED_TOKEN_ABI);
+
+// An error like the one ethers throws when a call reverts with a custom error
+const revertedWith = (name: string, args: unknown[]) =>
+  Object.assign(new Error('call revert exception'), {
+    code: 'CALL_EXCEPTION',
+    data: tokenInterface.encodeErrorResult(name, args)
+  });
+
+// A log the mocked contract emits, as it appears in a receipt
+const tokenLog = (name: string, args: unknown[]) => ({
+  address: '0x1234567890abcdef1234567890abcdef12345678',
+  ...tokenInterface.encodeEventLog(tokenInterface.getEvent(name), args)
+});
+
+// A transaction like the one ethers returns once it is sent, mined with the given receipt
+let sentCount = 0;
+const sentTransaction = (receipt: object = { logs: [] }, wait = () => Promise.resolve(receipt)) => ({
+  hash: ethers.utils.id(`tx-${sentCount++}`),
+  from: '0x1234567890abcdef1234567890abcdef12345678',
+  nonce: sentCount,
+  chainId: 80002,
+  to: '0x1234567890abcdef1234567890abcdef12345678',
+  data: '0x',
+  value: ethers.constants.Zero,
+  gasLimit: ethers.BigNumber.from(100000),
+  wait
+});
+
+// Transactions are persisted to local storage
+const mockStorage = new Map<string, string>();
+global.localStorage = {
+  getItem: (key: string) => mockStorage.get(key) ?? null,
+  setItem: (key: string, value: string) => mockStorage.set(key, value)
+} as unknown as Storage;
+
+const RELAYER_URL = 'http://localhost:3001';
+const FORWARDER_ADDRESS = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+// Mock the forwarder the service reads nonces from
+const mockForwarder = {
+  nonces: jest.fn()
+};
+
 // Mock the contract
 const mockContract = {
-  mintCredential: jest.fn(),
+  address: '0x1234567890abcdef1234567890abcdef12345678',
+  interface: tokenInterface,
+  provider: {
+    getNetwork: jest.fn(),
+    getBlockNumber: jest.fn(),
+    getTransaction: jest.fn(),
+    getTransactionReceipt: jest.fn(),
+    getTransactionCount: jest.fn(),
+    getBlock: jest.fn(),
+    getGasPrice: jest.fn(),
+    getFeeData: jest.fn(),
+    send: jest.fn()
+  },
+  signer: {
+    getAddress: jest.fn(),
+    _signTypedData: jest.fn()
+  },
+  'mintCredential(address,string,string,string,string,uint256,string)': jest.fn(),
   getCredential: jest.fn(),
   revokeCredential: jest.fn(),
+  suspendCredential: jest.fn(),
+  reinstateCredential: jest.fn(),
+  amendCredential: jest.fn(),
+  getPreviousVersion: jest.fn(),
+  getCurrentVersion: jest.fn(),
+  getRevocation: jest.fn(),
+  queryFilter: jest.fn(),
+  filters: {
+    CredentialRevoked: jest.fn()
+  },
   balanceOf: jest.fn(),
-  tokenOfOwnerByIndex: jest.fn()
+  ownerOf: jest.fn(),
+  getTokenIdByIpfsHash: jest.fn(),
+  hasRole: jest.fn(),
+  locked: jest.fn(),
+  grantRole: jest.fn(),
+  mintBatch: jest.fn(),
+  anchorMerkleRoot: jest.fn(),
+  getMerkleRoot: jest.fn(),
+  isMerkleCredentialRevoked: jest.fn(),
+  estimateGas: {
+    'mintCredential(address,string,string,string,string,uint256,string)': jest.fn(),
+    mintBatch: jest.fn(),
+    revokeCredential: jest.fn()
+  }
 };
 
 // Mock the environment variable
@@ -54,16 +198,49 @@ describe('Contract Service', () => {
     
     // Mock the provider and signer
     mockProvider.getSigner.mockReturnValue(mockSigner);
+    mockProvider.getNetwork.mockResolvedValue({ chainId: 80002 });
     mockSigner.getAddress.mockResolvedValue('0x1234567890abcdef1234567890abcdef12345678');
     
     // Mock the contract methods
-    mockContract.mintCredential.mockResolvedValue({ wait: () => Promise.resolve({}) });
-    mockContract.getCredential.mockResolvedValue(['title', 'description', 'issuer', 1234567890, 'ipfsHash', false]);
-    mockContract.revokeCredential.mockResolvedValue({ wait: () => Promise.resolve({}) });
+    mockContract['mintCredential(address,string,string,string,string,uint256,string)'].mockResolvedValue(sentTransaction({
+      logs: [tokenLog('CredentialMinted', [3, '0x1234567890abcdef1234567890abcdef12345678', '0x1234567890abcdef1234567890abcdef12345678', 'Test Credential', 'QmTestHash'])]
+    }));
+    mockContract.getCredential.mockResolvedValue(['title', 'description', 'issuer', ethers.BigNumber.from(1234567890), 'ipfsHash', 0, ethers.BigNumber.from(0)]);
+    mockContract.revokeCredential.mockResolvedValue(sentTransaction());
+    mockContract.suspendCredential.mockResolvedValue(sentTransaction());
+    mockContract.reinstateCredential.mockResolvedValue(sentTransaction());
+    mockContract.amendCredential.mockResolvedValue(sentTransaction({
+      logs: [tokenLog('CredentialAmended', [1, 2])]
+    }));
+    mockContract.getPreviousVersion.mockResolvedValue([false, ethers.BigNumber.from(0)]);
+    mockContract.getCurrentVersion.mockImplementation((tokenId: number) => Promise.resolve(ethers.BigNumber.from(tokenId)));
+    mockContract.getRevocation.mockResolvedValue(['Issued in error', ethers.BigNumber.from(1234567890), '0x9876543210fedcba9876543210fedcba98765432']);
+    mockContract.filters.CredentialRevoked.mockReturnValue({ topics: [] });
+    mockContract.queryFilter.mockResolvedValue([
+      { args: { tokenId: ethers.BigNumber.from(1), reason: 'Issued in error' }, transactionHash: '0xold', blockNumber: 10 },
+      { args: { tokenId: ethers.BigNumber.from(2), reason: 'Issued in error' }, transactionHash: '0xnew', blockNumber: 20 }
+    ]);
     mockContract.balanceOf.mockResolvedValue(ethers.BigNumber.from(2));
-    mockContract.tokenOfOwnerByIndex
-      .mockResolvedValueOnce(ethers.BigNumber.from(1))
-      .mockResolvedValue(ethers.BigNumber.from(2));
+    mockContract.hasRole.mockResolvedValue(true);
+    mockContract.provider.getNetwork.mockResolvedValue({ chainId: 80002 });
+    mockContract.provider.getBlockNumber.mockResolvedValue(30);
+    // Deep enough for Amoy's confirmation depth, so transactions are final as soon as they are watched
+    mockContract.provider.getTransactionReceipt.mockResolvedValue({ status: 1, confirmations: 12, blockNumber: 100, blockHash: '0xblock', gasUsed: ethers.BigNumber.from(21000) });
+    mockContract.signer._signTypedData.mockResolvedValue(`0x${'11'.repeat(65)}`);
+    mockContract.locked.mockResolvedValue(true);
+    mockContract.grantRole.mockResolvedValue(sentTransaction());
+    mockContract.estimateGas.mintBatch.mockResolvedValue(ethers.BigNumber.from(500000));
+    mockContract.mintBatch.mockResolvedValue(sentTransaction({
+      transactionHash: '0xbatch',
+      logs: [5, 6].map(tokenId => tokenLog('CredentialMinted', [
+        tokenId, '0x1234567890abcdef1234567890abcdef12345678', '0x1234567890abcdef1234567890abcdef12345678', 'Test Credential', 'QmTestHash'
+      ]))
+    }));
+    mockContract.anchorMerkleRoot.mockResolvedValue(sentTransaction());
+    mockContract.getMerkleRoot.mockResolvedValue(['Test Issuer', '0x1234567890abcdef1234567890abcdef12345678', ethers.BigNumber.from(1234567890), ethers.BigNumber.from(3), false]);
+    mockContract.isMerkleCredentialRevoked.mockResolvedValue(false);
+    mockContract.ownerOf.mockResolvedValue('0x1234567890abcdef1234567890abcdef12345678');
+    mockContract.getTokenIdByIpfsHash.mockResolvedValue([true, ethers.BigNumber.from(1)]);
   });
 
   afterAll(() => {
@@ -89,10 +266,10 @@ describe('Contract Service', () => {
       (ethers.Contract as any) = originalContract;
     });
 
-    it('should throw if MetaMask is not installed', async () => {
+    it('should throw if no wallet is selected', async () => {
       delete (global.window as any).ethereum;
       
-      await expect(initContract()).rejects.toThrow('MetaMask is not installed');
+      await expect(initContract()).rejects.toThrow('No wallet selected');
     });
 
     it('should throw if no accounts are found', async () => {
@@ -101,6 +278,33 @@ describe('Contract Service', () => {
       await expect(initContract()).rejects.toThrow('No accounts found');
     });
 
+    it('should use the address recorded in the deployment manifest', async () => {
+      mockEthereum.request.mockResolvedValue(['0x1234567890abcdef1234567890abcdef12345678']);
+      (getDeployment as jest.Mock).mockReturnValueOnce(deployment);
+      const contractSpy = jest.spyOn(ethers, 'Contract').mockImplementation(() => mockContract as unknown as ethers.Contract);
+
+      await initContract(true);
+
+      expect(getDeployment).toHaveBeenCalledWith(80002);
+      expect(contractSpy).toHaveBeenCalledWith(deployment.address, EDU_CRED_TOKEN_ABI, mockSigner);
+
+      contractSpy.mockRestore();
+    });
+
+    it('should refuse a deployment made from a different ABI', async () => {
+      mockEthereum.request.mockResolvedValue(['0x1234567890abcdef1234567890abcdef12345678']);
+      (getDeployment as jest.Mock).mockReturnValueOnce({ ...deployment, abiHash: `0x${'00'.repeat(32)}` });
+
+      await expect(initContract(true)).rejects.toThrow('different ABI');
+    });
+
+    it('should throw on an unsupported network', async () => {
+      mockEthereum.request.mockResolvedValue(['0x1234567890abcdef1234567890abcdef12345678']);
+      mockProvider.getNetwork.mockResolvedValue({ chainId: 80001 });
+
+      await expect(initContract()).rejects.toThrow(ValidationError);
+    });
+
     it('should handle user rejection', async () => {
       const error = new Error('User rejected request');
       (error as any).code = 4001;
@@ -125,6 +329,20 @@ describe('Contract Service', () => {
     });
   });
 
+  describe('getReadOnlyContract', () => {
+    it('should read credentials without a wallet', async () => {
+      delete (global.window as { ethereum?: unknown }).ethereum;
+      const contractSpy = jest.spyOn(ethers, 'Contract').mockImplementation(() => mockContract as unknown as ethers.Contract);
+
+      const credential = await getCredential(1);
+
+      expect(credential.title).toBe('title');
+      expect(mockEthereum.request).not.toHaveBeenCalled();
+
+      contractSpy.mockRestore();
+    });
+  });
+
   describe('Wallet Management', () => {
     it('should get current account', async () => {
       mockEthereum.request.mockResolvedValue(['0x1234567890abcdef1234567890abcdef12345678']);
@@ -142,6 +360,11 @@ describe('Contract Service', () => {
     });
 
     it('should notify listeners on wallet change', async () => {
+      // Wallet events are subscribed to when the wallet connects
+      disconnectWallet();
+      mockEthereum.request.mockResolvedValue(['0x1234567890abcdef1234567890abcdef12345678']);
+      await initContract();
+
       const listener = jest.fn();
       onWalletChange(listener);
       
@@ -157,6 +380,21 @@ describe('Contract Service', () => {
         fail('accountsChanged listener not registered');
       }
     });
+
+    it('should follow a chain change without reloading', async () => {
+      disconnectWallet();
+      mockEthereum.request.mockResolvedValue(['0x1234567890abcdef1234567890abcdef12345678']);
+      await initContract();
+
+      const chainChangedCallback = mockEthereum.on.mock.calls.find(call => call[0] === 'chainChanged')?.[1];
+      mockProvider.getNetwork.mockResolvedValue({ chainId: 80001 });
+      await chainChangedCallback('0x13881');
+
+      expect(getWalletSession().account).toBe('0x1234567890abcdef1234567890abcdef12345678');
+      expect(getWalletSession().network).toBeNull();
+      expect(getWalletSession().contractError).toBeInstanceOf(ValidationError);
+      expect(() => getContract()).toThrow('Contract not initialized');
+    });
   });
 
   describe('Contract Interactions', () => {
@@ -166,7 +404,7 @@ describe('Contract Service', () => {
     });
 
     it('should mint a credential', async () => {
-      const receipt = await mintCredential(
+      const { tokenId } = await mintCredential(
         '0x1234567890abcdef1234567890abcdef12345678',
         'Test Credential',
         'This is a test credential',
@@ -174,21 +412,238 @@ describe('Contract Service', () => {
         'QmTestHash'
       );
       
-      expect(receipt).toBeDefined();
-      expect(mockContract.mintCredential).toHaveBeenCalledWith(
+      expect(tokenId).toBe(3);
+      expect(mockContract['mintCredential(address,string,string,string,string,uint256,string)']).toHaveBeenCalledWith(
         '0x1234567890abcdef1234567890abcdef12345678',
         'Test Credential',
         'This is a test credential',
         'Test Issuer',
-        'QmTestHash'
+        'QmTestHash',
+        0,
+        ''
       );
     });
 
+    it('should send transactions directly when no relayer is configured', async () => {
+      expect(isGaslessAvailable()).toBe(false);
+      expect(isGaslessMode()).toBe(false);
+      expect(() => setGaslessMode(true)).toThrow(ValidationError);
+      
+      await revokeCredential(1, 'Issued in error');
+      expect(mockContract.revokeCredential).toHaveBeenCalledWith(1, 'Issued in error');
+    });
+
     it('should get credential details', async () => {
       const credential = await getCredential(1);
       
       expect(credential).toBeDefined();
+      expect(credential.isLocked).toBe(true);
+      expect(credential.expiresAt).toBeNull();
       expect(mockContract.getCredential).toHaveBeenCalledWith(1);
+      expect(mockContract.locked).toHaveBeenCalledWith(1);
+    });
+
+    it('should decode custom error reverts into specific errors', async () => {
+      mockContract.getCredential.mockRejectedValue(revertedWith('CredentialNotFound', [7]));
+      await expect(getCredential(7)).rejects.toThrow(CredentialNotFoundError);
+
+      mockContract.revokeCredential.mockRejectedValue(revertedWith('CredentialAlreadyRevoked', [1]));
+      await expect(revokeCredential(1, 'Again')).rejects.toThrow(CredentialRevokedError);
+
+      const issuerRole = ethers.utils.id('ISSUER_ROLE');
+      // Gas estimation errors nest the JSON-RPC error and its revert data
+      mockContract.anchorMerkleRoot.mockRejectedValue({
+        code: 'UNPREDICTABLE_GAS_LIMIT',
+        error: { code: -32603, data: tokenInterface.encodeErrorResult('AccessControlUnauthorizedAccount', ['0x9876543210fedcba9876543210fedcba98765432', issuerRole]) }
+      });
+      const error = await anchorMerkleRoot(ethers.utils.id('cohort'), 'Test Issuer', 3).catch(err => err);
+      expect(error).toBeInstanceOf(NotIssuerError);
+      expect(error.revert).toMatchObject({ name: 'AccessControlUnauthorizedAccount' });
+    });
+
+    it('should amend a credential and return its replacement', async () => {
+      const newTokenId = await amendCredential(1, {
+        title: 'Bachelor of Science',
+        description: 'Computer Science',
+        issuer: 'Test Issuer',
+        ipfsHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+      });
+      
+      expect(newTokenId).toBe(2);
+      expect(mockContract.amendCredential).toHaveBeenCalledWith(
+        1,
+        'Bachelor of Science',
+        'Computer Science',
+        'Test Issuer',
+        'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        0,
+        ''
+      );
+    });
+
+    it('should list every version of an amended credential, oldest first', async () => {
+      // Token 1 was superseded by token 2
+      mockContract.getCurrentVersion.mockResolvedValue(ethers.BigNumber.from(2));
+      mockContract.getPreviousVersion.mockImplementation((tokenId: number) =>
+        Promise.resolve(tokenId === 2 ? [true, ethers.BigNumber.from(1)] : [false, ethers.BigNumber.from(0)])
+      );
+      
+      const versions = await getCredentialVersions(1);
+      
+      expect(versions.map(version => version.tokenId)).toEqual([1, 2]);
+      expect(versions[1].previousVersion).toBe(1);
+      expect(versions[0].currentVersion).toBe(2);
+    });
+
+    it('should get the credential owner', async () => {
+      const owner = await getCredentialOwner(1);
+      
+      expect(owner).toBe('0x1234567890abcdef1234567890abcdef12345678');
+      expect(mockContract.ownerOf).toHaveBeenCalledWith(1);
+    });
+
+    it('should look up a token by IPFS hash', async () => {
+      const tokenId = await getTokenIdByIpfsHash('QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco');
+      
+      expect(tokenId).toBe(1);
+      expect(mockContract.getTokenIdByIpfsHash).toHaveBeenCalledWith('QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco');
+    });
+
+    it('should report document match, mismatch and unknown', async () => {
+      const ipfsHash = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+      
+      expect((await verifyCredentialDocument(ipfsHash, 1)).status).toBe('match');
+      expect((await verifyCredentialDocument(ipfsHash, 2)).status).toBe('mismatch');
+      
+      mockContract.getTokenIdByIpfsHash.mockResolvedValue([false, ethers.BigNumber.from(0)]);
+      expect((await verifyCredentialDocument(ipfsHash)).status).toBe('unknown');
+    });
+
+    it('should estimate fee tiers and send with the chosen fees', async () => {
+      const gwei = (value: number) => ethers.utils.parseUnits(String(value), 'gwei');
+      mockContract.estimateGas.revokeCredential.mockResolvedValue(ethers.BigNumber.from(100000));
+      mockContract.provider.getBlock.mockResolvedValue({ baseFeePerGas: gwei(10) });
+      mockContract.provider.send.mockImplementation((method: string) => Promise.resolve(
+        method === 'eth_feeHistory'
+          ? { reward: [[gwei(1), gwei(2), gwei(40)], [gwei(1), gwei(3), gwei(50)], [gwei(1), gwei(2), gwei(60)]].map(row => row.map(fee => fee.toHexString())) }
+          : gwei(30).toHexString()
+      ));
+
+      const estimate = await estimateRevokeCredential(1, 'Issued in error');
+      expect(estimate.gasLimit.toNumber()).toBe(100000);
+      expect(estimate.nativeCurrency).toBe('POL');
+      expect(estimate.isGasless).toBe(false);
+      // Slow and normal pay the node's suggested fee and a margin on it; fast pays what recent blocks paid
+      expect(estimate.tiers.slow.maxPriorityFeePerGas.eq(gwei(30))).toBe(true);
+      expect(estimate.tiers.normal.maxPriorityFeePerGas.eq(gwei(33))).toBe(true);
+      expect(estimate.tiers.fast.maxPriorityFeePerGas.eq(gwei(50))).toBe(true);
+      expect(estimate.tiers.fast.maxFeePerGas.eq(gwei(70))).toBe(true);
+      expect(estimate.tiers.fast.expectedCostNative).toBe('0.006');
+      expect(estimate.tiers.fast.maxCostNative).toBe('0.007');
+
+      await revokeCredential(1, 'Issued in error', estimate.tiers.fast);
+      expect(mockContract.revokeCredential).toHaveBeenCalledWith(1, 'Issued in error', {
+        maxFeePerGas: estimate.tiers.fast.maxFeePerGas,
+        maxPriorityFeePerGas: estimate.tiers.fast.maxPriorityFeePerGas
+      });
+
+      mockContract.estimateGas['mintCredential(address,string,string,string,string,uint256,string)']
+        .mockRejectedValue(revertedWith('AccessControlUnauthorizedAccount', [mockContract.address, ethers.utils.id('ISSUER_ROLE')]));
+      await expect(estimateMintCredential(
+        '0x1234567890abcdef1234567890abcdef12345678',
+        'Test Credential',
+        'This is a test credential',
+        'Test Issuer',
+        'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+      )).rejects.toThrow(NotIssuerError);
+    });
+
+    it('should follow sped-up transactions and reject cancelled ones', async () => {
+      const replacedWith = (cancelled: boolean, receipt: object) => () =>
+        Promise.reject(Object.assign(new Error('transaction was replaced'), { code: 'TRANSACTION_REPLACED', cancelled, receipt }));
+
+      const mintedLog = tokenLog('CredentialMinted', [
+        7, '0x1234567890abcdef1234567890abcdef12345678', '0x1234567890abcdef1234567890abcdef12345678', 'Test Credential', 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+      ]);
+      mockContract['mintCredential(address,string,string,string,string,uint256,string)']
+        .mockResolvedValue(sentTransaction(undefined, replacedWith(false, { transactionHash: '0xspedup', logs: [mintedLog] })));
+      // The token ID is read from the replacement's receipt
+      const { tokenId } = await mintCredential(
+        '0x1234567890abcdef1234567890abcdef12345678',
+        'Test Credential',
+        'This is a test credential',
+        'Test Issuer',
+        'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+      );
+      expect(tokenId).toBe(7);
+
+      mockContract.revokeCredential.mockResolvedValue(sentTransaction(undefined, replacedWith(true, { logs: [] })));
+      await expect(revokeCredential(1, 'Issued in error')).rejects.toThrow('Transaction was cancelled');
+
+      // Both are recorded and persisted, newest first
+      expect(getAllTransactions().slice(0, 2).map(transaction => transaction.method))
+        .toEqual(['revokeCredential', 'mintCredential']);
+      expect(JSON.parse(mockStorage.get('educred.transactions.v2') ?? '[]').length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should record a speed-up sent from the wallet and follow the mint to it', async () => {
+      const replacement = sentTransaction();
+      const original = sentTransaction({}, () => Promise.reject(Object.assign(new Error('transaction was replaced'), {
+        code: 'TRANSACTION_REPLACED',
+        cancelled: false,
+        replacement,
+        receipt: { transactionHash: replacement.hash, logs: [] }
+      })));
+      mockContract['mintCredential(address,string,string,string,string,uint256,string)'].mockResolvedValue(original);
+
+      await mintCredential(
+        '0x1234567890abcdef1234567890abcdef12345678',
+        'Test Credential',
+        'This is a test credential',
+        'Test Issuer',
+        'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+      );
+
+      expect(getTransactionStatus(original.hash)?.replacedBy).toBe(replacement.hash);
+      expect(getLatestTransactionStatus(original.hash)).toMatchObject({
+        hash: replacement.hash,
+        method: 'mintCredential',
+        kind: 'speed-up',
+        replaces: original.hash
+      });
+    });
+
+    it('should hold a mint short of final until it is confirmed deep enough, following reorgs', async () => {
+      jest.useFakeTimers();
+      try {
+        const receiptIn = (blockHash: string, confirmations: number) =>
+          ({ status: 1, confirmations, blockNumber: 100, blockHash, gasUsed: ethers.BigNumber.from(21000) });
+        mockContract.provider.getTransactionReceipt.mockResolvedValue(receiptIn('0xfirst', 3));
+        mockContract.provider.getTransactionCount.mockResolvedValue(0);
+        mockContract.provider.getTransaction.mockResolvedValue({});
+
+        await mintCredential(
+          '0x1234567890abcdef1234567890abcdef12345678',
+          'Test Credential',
+          'This is a test credential',
+          'Test Issuer',
+          'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+        );
+        await jest.advanceTimersByTimeAsync(0);
+        const { hash } = getAllTransactions()[0];
+        expect(getTransactionStatus(hash)).toMatchObject({ status: 'included', confirmations: 3, requiredConfirmations: 12 });
+
+        // A reorg drops the block, so the transaction waits to be included again
+        mockContract.provider.getTransactionReceipt.mockResolvedValue(null);
+        await jest.advanceTimersByTimeAsync(4_000);
+        expect(getTransactionStatus(hash)).toMatchObject({ status: 'submitted', confirmations: 0, reorgs: 1 });
+
+        mockContract.provider.getTransactionReceipt.mockResolvedValue(receiptIn('0xsecond', 12));
+        await jest.advanceTimersByTimeAsync(4_000);
+        expect(getTransactionStatus(hash)).toMatchObject({ status: 'final', blockHash: '0xsecond', reorgs: 1 });
+      } finally {
+        jest.useRealTimers();
+      }
     });
 
     it('should revoke a credential', async () => {
@@ -198,11 +653,317 @@ describe('Contract Service', () => {
       expect(mockContract.revokeCredential).toHaveBeenCalledWith(1, 'Test reason');
     });
 
-    it('should get tokens by owner', async () => {
-      const tokens = await getTokensByOwner('0x1234567890abcdef1234567890abcdef12345678');
+    it('should suspend and reinstate a credential', async () => {
+      await suspendCredential(1, 'Under investigation');
+      expect(mockContract.suspendCredential).toHaveBeenCalledWith(1, 'Under investigation');
+      
+      await reinstateCredential(1);
+      expect(mockContract.reinstateCredential).toHaveBeenCalledWith(1);
+      
+      await expect(suspendCredential(1, '')).rejects.toThrow(ValidationError);
+      
+      mockContract.reinstateCredential.mockRejectedValue(revertedWith('CredentialNotSuspended', [1]));
+      await expect(reinstateCredential(1)).rejects.toThrow(CredentialStatusError);
+      await expect(reinstateCredential(1)).rejects.toThrow('Only suspended credentials can be reinstated');
+    });
+
+    it('should get the revocation record of a credential', async () => {
+      const revocation = await getRevocation(1);
+      
+      expect(revocation).toEqual({
+        tokenId: 1,
+        reason: 'Issued in error',
+        revokedAt: new Date(1234567890 * 1000),
+        revokedBy: '0x9876543210fedcba9876543210fedcba98765432'
+      });
+      
+      mockContract.getRevocation.mockRejectedValue(revertedWith('CredentialNotRevoked', [1]));
+      expect(await getRevocation(1)).toBeNull();
+    });
+
+    it('should read revocation history from the event log, newest first', async () => {
+      mockContract.provider.getNetwork.mockResolvedValue({ chainId: 31337 });
+      const history = await getRevocationHistory();
+      
+      expect(mockContract.filters.CredentialRevoked).toHaveBeenCalledWith(null);
+      expect(mockContract.queryFilter).toHaveBeenCalledWith({ topics: [] }, 0, 30);
+      expect(history.map(record => record.txHash)).toEqual(['0xnew', '0xold']);
+      expect(history[0]).toMatchObject({ tokenId: 2, reason: 'Issued in error', blockNumber: 20 });
+    });
+
+    it('should read revocation history from the deployment block in windows RPC endpoints accept', async () => {
+      process.env.VITE_DEPLOYMENT_BLOCK = '1000';
+      mockContract.provider.getBlockNumber.mockResolvedValue(5500);
+      mockContract.queryFilter.mockResolvedValue([]);
+      try {
+        await getRevocationHistory();
+      } finally {
+        delete process.env.VITE_DEPLOYMENT_BLOCK;
+      }
+
+      expect(mockContract.queryFilter.mock.calls.map(([, fromBlock, toBlock]) => [fromBlock, toBlock]))
+        .toEqual([[1000, 2999], [3000, 4999], [5000, 5500]]);
+    });
+
+    it('should require a deployment block to read revocation history outside a local node', async () => {
+      await expect(getRevocationHistory()).rejects.toThrow(ValidationError);
+      await expect(getRevocationHistory()).rejects.toThrow('VITE_DEPLOYMENT_BLOCK');
+      expect(mockContract.queryFilter).not.toHaveBeenCalled();
+    });
+
+    it('should grant the issuer role', async () => {
+      const receipt = await grantIssuer('0x9876543210fedcba9876543210fedcba98765432');
+      
+      expect(receipt).toBeDefined();
+      expect(mockContract.grantRole).toHaveBeenCalledWith(
+        ethers.utils.id('ISSUER_ROLE'),
+        '0x9876543210fedcba9876543210fedcba98765432'
+      );
+    });
+
+    it('should check the issuer role', async () => {
+      const result = await isIssuer('0x9876543210fedcba9876543210fedcba98765432');
+      
+      expect(result).toBe(true);
+      expect(mockContract.hasRole).toHaveBeenCalledWith(
+        ethers.utils.id('ISSUER_ROLE'),
+        '0x9876543210fedcba9876543210fedcba98765432'
+      );
+    });
+
+    it('should mint credentials in a batch', async () => {
+      const request = {
+        to: '0x1234567890abcdef1234567890abcdef12345678',
+        title: 'Graduate Certificate',
+        description: 'Class of 2025',
+        issuer: 'Test Issuer',
+        ipfsHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+      };
+      
+      const results = await mintCredentialsBatch([request, { ...request, to: '0x9876543210fedcba9876543210fedcba98765432' }]);
+      
+      expect(mockContract.mintBatch).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.tokenId)).toEqual([5, 6]);
+      expect(results.every(result => result.status === 'minted')).toBe(true);
+    });
+
+    it('should reject a batch with an invalid row', async () => {
+      await expect(mintCredentialsBatch([{
+        to: 'not-an-address',
+        title: 'Graduate Certificate',
+        description: 'Class of 2025',
+        issuer: 'Test Issuer',
+        ipfsHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+      }])).rejects.toThrow('Row 1');
+      expect(mockContract.mintBatch).not.toHaveBeenCalled();
+    });
+
+    it('should anchor a Merkle root and verify proof files against it', async () => {
+      const record = {
+        holder: '0x1234567890abcdef1234567890abcdef12345678',
+        title: 'Graduate Certificate',
+        description: 'Class of 2025',
+        issuer: 'Test Issuer',
+        ipfsHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        issueDate: 1234567890
+      };
+      const tree = buildMerkleTree([record, { ...record, title: 'Minor' }, { ...record, title: 'Honours' }]);
+      
+      await anchorMerkleRoot(tree.root, 'Test Issuer', 3);
+      expect(mockContract.anchorMerkleRoot).toHaveBeenCalledWith(tree.root, 'Test Issuer', 3);
+      
+      expect((await verifyMerkleCredential(tree.proofFiles[2])).status).toBe('valid');
+      expect(mockContract.isMerkleCredentialRevoked).toHaveBeenCalledWith(tree.root, tree.leaves[2]);
+      
+      const altered = { ...tree.proofFiles[0], credential: { ...record, title: 'Doctorate' } };
+      expect((await verifyMerkleCredential(altered)).status).toBe('invalid-proof');
+      
+      mockContract.isMerkleCredentialRevoked.mockResolvedValue(true);
+      expect((await verifyMerkleCredential(tree.proofFiles[0])).status).toBe('revoked');
+      
+      mockContract.getMerkleRoot.mockRejectedValue(revertedWith('MerkleRootNotAnchored', [tree.root]));
+      expect((await verifyMerkleCredential(tree.proofFiles[0])).status).toBe('unanchored');
+    });
+
+    it('should sign an off-chain credential for this contract and chain', async () => {
+      const credential = {
+        holder: '0x1234567890abcdef1234567890abcdef12345678',
+        title: 'Workshop Attendance',
+        issuer: 'Test Issuer',
+        ipfsHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        issueDate: 1234567890
+      };
+      
+      const signed = await signCredential(credential);
+      
+      expect(signed.domain).toMatchObject({ chainId: 80002, verifyingContract: mockContract.address });
+      expect(mockContract.signer._signTypedData).toHaveBeenCalledWith(signed.domain, SIGNED_CREDENTIAL_TYPES, credential);
+    });
+
+    it('should report a rejected signature by its error code', async () => {
+      const credential = {
+        holder: '0x1234567890abcdef1234567890abcdef12345678',
+        title: 'Workshop Attendance',
+        issuer: 'Test Issuer',
+        ipfsHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        issueDate: 1234567890
+      };
+      mockContract.signer._signTypedData.mockRejectedValue(Object.assign(new Error('MetaMask Typed Message Signature: Request rejected'), { code: 4001 }));
+      
+      await expect(signCredential(credential)).rejects.toThrow('Transaction was rejected by user');
+    });
+
+    it('should verify a signed credential against the issuer set', async () => {
+      const issuerWallet = ethers.Wallet.createRandom();
+      const domain = { name: 'EduCred Chain', version: '1', chainId: 80002, verifyingContract: mockContract.address };
+      const credential = {
+        holder: '0x1234567890abcdef1234567890abcdef12345678',
+        title: 'Workshop Attendance',
+        issuer: 'Test Issuer',
+        ipfsHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        issueDate: 1234567890
+      };
+      const signed = {
+        version: 1,
+        domain,
+        credential,
+        signature: await issuerWallet._signTypedData(domain, SIGNED_CREDENTIAL_TYPES, credential)
+      };
+      
+      expect(await verifySignedCredential(signed)).toEqual({ status: 'valid', signer: issuerWallet.address });
+      expect(mockContract.hasRole).toHaveBeenCalledWith(ethers.utils.id('ISSUER_ROLE'), issuerWallet.address);
+      
+      mockContract.hasRole.mockResolvedValue(false);
+      expect((await verifySignedCredential(signed)).status).toBe('unauthorized-issuer');
+      
+      mockContract.provider.getNetwork.mockResolvedValue({ chainId: 137 });
+      expect((await verifySignedCredential(signed)).status).toBe('wrong-contract');
+    });
+  });
+
+  describe('Gasless transactions', () => {
+    const issuer = '0x1234567890abcdef1234567890abcdef12345678';
+    let contractSpy: jest.SpyInstance;
+
+    // A relayed receipt as the provider returns it: raw logs only, the forwarder's first
+    const relayedReceipt = (tokenIds: number[]) => ({
+      transactionHash: '0xrelayed',
+      status: 1,
+      logs: [
+        { address: FORWARDER_ADDRESS, topics: [ethers.utils.id('ExecutedForwardRequest(address,uint256,bool)')], data: '0x' },
+        ...tokenIds.map(tokenId => tokenLog('CredentialMinted', [tokenId, issuer, issuer, 'Test Credential', 'QmTestHash']))
+      ]
+    });
+
+    const relayResponse = (status: number, body: object) => ({
+      ok: status === 200,
+      status,
+      statusText: status === 200 ? 'OK' : 'Bad Request',
+      json: () => Promise.resolve(body)
+    });
+
+    beforeEach(async () => {
+      process.env.VITE_RELAYER_URL = RELAYER_URL;
+      process.env.VITE_FORWARDER_ADDRESS = FORWARDER_ADDRESS;
+      contractSpy = jest.spyOn(ethers, 'Contract').mockImplementation(
+        (address: string) => (address === FORWARDER_ADDRESS ? mockForwarder : mockContract) as unknown as ethers.Contract
+      );
+      global.fetch = jest.fn().mockResolvedValue(relayResponse(200, { txHash: '0xrelayed' }));
+
+      mockForwarder.nonces.mockResolvedValue(ethers.BigNumber.from(7));
+      mockContract.signer.getAddress.mockResolvedValue(issuer);
+      mockContract.estimateGas['mintCredential(address,string,string,string,string,uint256,string)'].mockResolvedValue(ethers.BigNumber.from(100000));
+      mockContract.estimateGas.revokeCredential.mockResolvedValue(ethers.BigNumber.from(50000));
+      mockContract.provider.getTransaction.mockResolvedValue(sentTransaction(relayedReceipt([5])));
+
+      mockEthereum.request.mockResolvedValue([issuer]);
+      await initContract();
+    });
+
+    afterEach(() => {
+      contractSpy.mockRestore();
+      delete process.env.VITE_RELAYER_URL;
+      delete process.env.VITE_FORWARDER_ADDRESS;
+    });
+
+    it('should sign a forward request and post it to the relayer', async () => {
+      expect(isGaslessMode()).toBe(true);
+      
+      await revokeCredential(1, 'Issued in error');
+      
+      expect(mockContract.revokeCredential).not.toHaveBeenCalled();
+      const data = tokenInterface.encodeFunctionData('revokeCredential', [1, 'Issued in error']);
+      const domain = { name: 'EduCredForwarder', version: '1', chainId: 80002, verifyingContract: FORWARDER_ADDRESS };
+      expect(mockContract.signer._signTypedData).toHaveBeenCalledWith(
+        domain,
+        { ForwardRequest: expect.arrayContaining([{ name: 'nonce', type: 'uint256' }, { name: 'deadline', type: 'uint48' }]) },
+        expect.objectContaining({ from: issuer, to: mockContract.address, value: 0, nonce: ethers.BigNumber.from(7), data })
+      );
+      // 20% over the estimate for the forwarder's overhead
+      const [, , signedRequest] = mockContract.signer._signTypedData.mock.calls[0];
+      expect(signedRequest.gas.toString()).toBe('60000');
+      
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe(`${RELAYER_URL}/relay`);
+      expect(JSON.parse(init.body)).toEqual({
+        request: {
+          from: issuer,
+          to: mockContract.address,
+          value: '0',
+          gas: '60000',
+          deadline: signedRequest.deadline,
+          data,
+          signature: `0x${'11'.repeat(65)}`
+        }
+      });
+    });
+
+    it('should report requests the relayer rejects', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(relayResponse(400, { error: 'Invalid signature, nonce or deadline' }));
+      
+      await expect(revokeCredential(1, 'Issued in error'))
+        .rejects.toThrow('Relayer rejected the request: Invalid signature, nonce or deadline');
+      expect(mockContract.provider.getTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should map reverts found while preparing a relayed request', async () => {
+      mockContract.estimateGas.revokeCredential.mockRejectedValue(revertedWith('NotCredentialIssuer', [1, issuer]));
+      
+      await expect(revokeCredential(1, 'Issued in error')).rejects.toThrow(NotIssuerError);
+      await expect(revokeCredential(1, 'Issued in error'))
+        .rejects.toThrow('Only an admin, or the issuer who minted this credential while still an issuer, can change it');
+      expect(mockContract.signer._signTypedData).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should decode the minted token ID from a relayed receipt', async () => {
+      // The forwarder's log comes first and is skipped
+      const { tokenId } = await mintCredential(
+        issuer,
+        'Test Credential',
+        'This is a test credential',
+        'Test Issuer',
+        'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+      );
+      
+      expect(tokenId).toBe(5);
+    });
+
+    it('should relay batch mints and read their token IDs from the receipt', async () => {
+      mockContract.provider.getTransaction.mockResolvedValue(sentTransaction(relayedReceipt([5, 6])));
+      const requests = [0, 1].map(index => ({
+        to: issuer,
+        title: 'Test Credential',
+        description: 'This is a test credential',
+        issuer: 'Test Issuer',
+        ipfsHash: `QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uc${index + 1}`
+      }));
+      
+      const results = await mintCredentialsBatch(requests);
       
-      expect(tokens).toEqual([1, 2]);
-      expect(mockContract.balanceOf).toHaveBeenCalledWith('0x1234567890abcdef1234567890abcdef12345678');
+      expect(mockContract.mintBatch).not.toHaveBeenCalled();
+      expect(results.map(result => result.tokenId)).toEqual([5, 6]);
+      expect(results.every(result => result.txHash === '0xrelayed')).toBe(true);
     });
   });
 });
\ No newline at end of file
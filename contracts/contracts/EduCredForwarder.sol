@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title EduCredForwarder
+ * @dev ERC-2771 forwarder that relayers use to submit issuers' signed requests to EduCredToken
+ */
+contract EduCredForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("EduCredForwarder") {}
+}
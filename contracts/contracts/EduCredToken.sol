@@ -3,15 +3,32 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/Counters.sol";
+import "@openzeppelin/contracts/access/extensions/AccessControlEnumerable.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./IERC5192.sol";
 
 /**
  * @title EduCredToken
- * @dev ERC721 token representing educational credentials
+ * @dev ERC721 token representing educational credentials. Calls relayed through the
+ * trusted ERC-2771 forwarder are attributed to the account that signed the request.
  */
-contract EduCredToken is ERC721, Ownable {
-    using Counters for Counters.Counter;
-    Counters.Counter private _tokenIdCounter;
+contract EduCredToken is ERC721, Ownable, AccessControlEnumerable, ERC2771Context, IERC5192 {
+    // ID the next minted credential gets
+    uint256 private _nextTokenId;
+
+    // Roles: admins manage issuers and may revoke any credential, issuers mint credentials
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ISSUER_ROLE = keccak256("ISSUER_ROLE");
+
+    // Lifecycle of a credential: suspension is reversible, revocation is final,
+    // and a superseded credential has been replaced by an amended version
+    enum CredentialStatus {
+        Active,
+        Suspended,
+        Revoked,
+        Superseded
+    }
 
     // Struct to store credential metadata
     struct Credential {
@@ -20,25 +37,125 @@ contract EduCredToken is ERC721, Ownable {
         string issuer;
         uint256 issueDate;
         string ipfsHash;
+        CredentialStatus status;
+        address issuedBy;
+        uint256 expiresAt; // 0 if the credential never expires
+    }
+
+    // Input for batch minting
+    struct CredentialRequest {
+        address to;
+        string title;
+        string description;
+        string issuer;
+        string ipfsHash;
+        uint256 expiresAt; // 0 if the credential never expires
+        string metadataURI; // empty if the credential has no metadata JSON
+    }
+
+    // Why, when and by whom a credential was revoked
+    struct Revocation {
+        string reason;
+        uint256 revokedAt;
+        address revokedBy;
+    }
+
+    // Merkle root anchoring a cohort of credentials issued off-chain
+    struct MerkleRoot {
+        string issuer;
+        address anchoredBy;
+        uint256 anchoredAt;
+        uint256 credentialCount;
         bool isRevoked;
     }
 
+    // Maximum number of credentials minted in a single batch
+    uint256 public constant MAX_BATCH_SIZE = 100;
+
     // Mapping from token ID to credential details
     mapping(uint256 => Credential) private _credentials;
 
+    // Mapping from IPFS hash to token ID, used to look up a credential by its document
+    mapping(string => uint256) private _tokenIdsByIpfsHash;
+    mapping(string => bool) private _registeredIpfsHashes;
+
+    // Mapping from token ID to its ERC-721 metadata JSON URI
+    mapping(uint256 => string) private _tokenURIs;
+
+    // Mapping from token ID to its revocation record; kept after a burn for the audit trail
+    mapping(uint256 => Revocation) private _revocations;
+
+    // Mapping from Merkle root to its anchoring details, and revoked leaves per root
+    mapping(bytes32 => MerkleRoot) private _merkleRoots;
+    mapping(bytes32 => mapping(bytes32 => bool)) private _revokedMerkleLeaves;
+
+    // Supersession chain: amended credentials point to their replacement and back
+    mapping(uint256 => uint256) private _supersededBy;
+    mapping(uint256 => uint256) private _previousVersions;
+    mapping(uint256 => bool) private _isAmendment;
+
+    // Soulbound state: locked tokens cannot be transferred by their holder
+    mapping(uint256 => bool) private _locked;
+    mapping(uint256 => bool) private _burnApproved;
+
     // Events
     event CredentialMinted(
         uint256 indexed tokenId,
         address indexed to,
+        address indexed issuedBy,
         string title,
         string ipfsHash
     );
     event CredentialRevoked(uint256 indexed tokenId, string reason);
+    event CredentialSuspended(uint256 indexed tokenId, string reason);
+    event CredentialReinstated(uint256 indexed tokenId);
+    event CredentialAmended(uint256 indexed oldTokenId, uint256 indexed newTokenId);
+    event CredentialBurnApproved(uint256 indexed tokenId);
+    event MerkleRootAnchored(
+        bytes32 indexed root,
+        address indexed anchoredBy,
+        string issuer,
+        uint256 credentialCount
+    );
+    event MerkleRootRevoked(bytes32 indexed root, string reason);
+    event MerkleCredentialRevoked(bytes32 indexed root, bytes32 indexed leaf, string reason);
 
-    constructor() ERC721("EduCred Token", "EDUCT") Ownable(msg.sender) {}
+    // Errors
+    error CredentialNotFound(uint256 tokenId);
+    error NotCredentialIssuer(uint256 tokenId, address account);
+    error CredentialNotActive(uint256 tokenId, CredentialStatus status);
+    error CredentialNotSuspended(uint256 tokenId);
+    error CredentialAlreadyRevoked(uint256 tokenId);
+    error CredentialIsSuperseded(uint256 tokenId);
+    error CredentialNotRevoked(uint256 tokenId);
+    error CredentialIsLocked(uint256 tokenId);
+    error CredentialAlreadyLocked(uint256 tokenId);
+    error CredentialNotLocked(uint256 tokenId);
+    error BurnNotApproved(uint256 tokenId, address account);
+    error ExpiryNotInFuture(uint256 expiresAt);
+    error DocumentAlreadyRegistered(string ipfsHash);
+    error EmptyBatch();
+    error BatchTooLarge(uint256 size, uint256 maxSize);
+    error InvalidMerkleRoot();
+    error EmptyMerkleRoot(bytes32 root);
+    error MerkleRootAlreadyAnchored(bytes32 root);
+    error MerkleRootNotAnchored(bytes32 root);
+    error NotMerkleRootAnchorer(bytes32 root, address account);
+
+    constructor(address trustedForwarder)
+        ERC721("EduCred Token", "EDUCT")
+        Ownable(msg.sender)
+        ERC2771Context(trustedForwarder)
+    {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(ISSUER_ROLE, msg.sender);
+        _setRoleAdmin(ADMIN_ROLE, ADMIN_ROLE);
+        _setRoleAdmin(ISSUER_ROLE, ADMIN_ROLE);
+    }
 
     /**
-     * @dev Mints a new credential token
+     * @dev Mints a new credential token that never expires
      */
     function mintCredential(
         address to,
@@ -46,9 +163,86 @@ contract EduCredToken is ERC721, Ownable {
         string memory description,
         string memory issuer,
         string memory ipfsHash
-    ) public onlyOwner returns (uint256) {
-        uint256 tokenId = _tokenIdCounter.current();
-        _tokenIdCounter.increment();
+    ) public onlyRole(ISSUER_ROLE) returns (uint256) {
+        return _mintCredential(to, title, description, issuer, ipfsHash, 0, "");
+    }
+
+    /**
+     * @dev Mints a new credential token that expires at the given timestamp (0 for no expiry)
+     */
+    function mintCredential(
+        address to,
+        string memory title,
+        string memory description,
+        string memory issuer,
+        string memory ipfsHash,
+        uint256 expiresAt
+    ) public onlyRole(ISSUER_ROLE) returns (uint256) {
+        _requireFutureExpiry(expiresAt);
+        return _mintCredential(to, title, description, issuer, ipfsHash, expiresAt, "");
+    }
+
+    /**
+     * @dev Mints a new credential token with its ERC-721 metadata JSON URI, returned by tokenURI
+     */
+    function mintCredential(
+        address to,
+        string memory title,
+        string memory description,
+        string memory issuer,
+        string memory ipfsHash,
+        uint256 expiresAt,
+        string memory metadataURI
+    ) public onlyRole(ISSUER_ROLE) returns (uint256) {
+        _requireFutureExpiry(expiresAt);
+        return _mintCredential(to, title, description, issuer, ipfsHash, expiresAt, metadataURI);
+    }
+
+    /**
+     * @dev Mints a batch of credentials in a single transaction. Reverts entirely if any request is invalid.
+     */
+    function mintBatch(CredentialRequest[] calldata requests)
+        public
+        onlyRole(ISSUER_ROLE)
+        returns (uint256[] memory tokenIds)
+    {
+        if (requests.length == 0) {
+            revert EmptyBatch();
+        }
+        if (requests.length > MAX_BATCH_SIZE) {
+            revert BatchTooLarge(requests.length, MAX_BATCH_SIZE);
+        }
+
+        tokenIds = new uint256[](requests.length);
+        for (uint256 i = 0; i < requests.length; i++) {
+            CredentialRequest calldata request = requests[i];
+            _requireFutureExpiry(request.expiresAt);
+            tokenIds[i] = _mintCredential(
+                request.to,
+                request.title,
+                request.description,
+                request.issuer,
+                request.ipfsHash,
+                request.expiresAt,
+                request.metadataURI
+            );
+        }
+    }
+
+    function _mintCredential(
+        address to,
+        string memory title,
+        string memory description,
+        string memory issuer,
+        string memory ipfsHash,
+        uint256 expiresAt,
+        string memory metadataURI
+    ) internal returns (uint256) {
+        if (_registeredIpfsHashes[ipfsHash]) {
+            revert DocumentAlreadyRegistered(ipfsHash);
+        }
+
+        uint256 tokenId = _nextTokenId++;
         
         _safeMint(to, tokenId);
         
@@ -58,22 +252,329 @@ contract EduCredToken is ERC721, Ownable {
             issuer: issuer,
             issueDate: block.timestamp,
             ipfsHash: ipfsHash,
-            isRevoked: false
+            status: CredentialStatus.Active,
+            issuedBy: _msgSender(),
+            expiresAt: expiresAt
         });
+        _tokenIdsByIpfsHash[ipfsHash] = tokenId;
+        _registeredIpfsHashes[ipfsHash] = true;
+        _tokenURIs[tokenId] = metadataURI;
+
+        // Credentials are soulbound from the moment they are issued
+        _locked[tokenId] = true;
+        emit Locked(tokenId);
 
-        emit CredentialMinted(tokenId, to, title, ipfsHash);
+        emit CredentialMinted(tokenId, to, _msgSender(), title, ipfsHash);
         return tokenId;
     }
 
     /**
-     * @dev Revokes a credential
+     * @dev Revokes an active or suspended credential. Only an admin, or the issuer who minted it while still an issuer, may revoke.
      */
-    function revokeCredential(uint256 tokenId, string memory reason) public onlyOwner {
-        require(_exists(tokenId), "Token does not exist");
-        _credentials[tokenId].isRevoked = true;
+    function revokeCredential(uint256 tokenId, string memory reason) public {
+        _requireCredentialManager(tokenId);
+        if (_credentials[tokenId].status == CredentialStatus.Revoked) {
+            revert CredentialAlreadyRevoked(tokenId);
+        }
+        if (_credentials[tokenId].status == CredentialStatus.Superseded) {
+            revert CredentialIsSuperseded(tokenId);
+        }
+        _credentials[tokenId].status = CredentialStatus.Revoked;
+        _revocations[tokenId] = Revocation({
+            reason: reason,
+            revokedAt: block.timestamp,
+            revokedBy: _msgSender()
+        });
         emit CredentialRevoked(tokenId, reason);
     }
 
+    /**
+     * @dev Temporarily suspends an active credential, e.g. during an investigation
+     */
+    function suspendCredential(uint256 tokenId, string memory reason) public {
+        _requireCredentialManager(tokenId);
+        _requireActive(tokenId);
+        _credentials[tokenId].status = CredentialStatus.Suspended;
+        emit CredentialSuspended(tokenId, reason);
+    }
+
+    /**
+     * @dev Returns a suspended credential to the active state
+     */
+    function reinstateCredential(uint256 tokenId) public {
+        _requireCredentialManager(tokenId);
+        if (_credentials[tokenId].status != CredentialStatus.Suspended) {
+            revert CredentialNotSuspended(tokenId);
+        }
+        _credentials[tokenId].status = CredentialStatus.Active;
+        emit CredentialReinstated(tokenId);
+    }
+
+    /**
+     * @dev Mints a corrected replacement for an active credential to the same holder and marks
+     * the old token as superseded. The replacement may reuse the old token's document.
+     * Only the issuer who minted the credential or an admin may amend it.
+     */
+    function amendCredential(
+        uint256 oldTokenId,
+        string memory title,
+        string memory description,
+        string memory issuer,
+        string memory ipfsHash,
+        uint256 expiresAt,
+        string memory metadataURI
+    ) public onlyRole(ISSUER_ROLE) returns (uint256) {
+        _requireCredentialManager(oldTokenId);
+        _requireActive(oldTokenId);
+        _requireFutureExpiry(expiresAt);
+
+        // Release the old document so the replacement can register it again
+        if (keccak256(bytes(ipfsHash)) == keccak256(bytes(_credentials[oldTokenId].ipfsHash))) {
+            delete _registeredIpfsHashes[ipfsHash];
+        }
+
+        _credentials[oldTokenId].status = CredentialStatus.Superseded;
+        uint256 newTokenId = _mintCredential(
+            ownerOf(oldTokenId),
+            title,
+            description,
+            issuer,
+            ipfsHash,
+            expiresAt,
+            metadataURI
+        );
+        _supersededBy[oldTokenId] = newTokenId;
+        _previousVersions[newTokenId] = oldTokenId;
+        _isAmendment[newTokenId] = true;
+
+        emit CredentialAmended(oldTokenId, newTokenId);
+        return newTokenId;
+    }
+
+    /**
+     * @dev Returns the credential a token replaced, if it was minted by an amendment
+     */
+    function getPreviousVersion(uint256 tokenId) public view returns (
+        bool found,
+        uint256 previousTokenId
+    ) {
+        // Burned versions keep their links, so skip past them to the nearest version that still exists
+        while (_isAmendment[tokenId]) {
+            tokenId = _previousVersions[tokenId];
+            if (_ownerOf(tokenId) != address(0)) {
+                return (true, tokenId);
+            }
+        }
+        return (false, 0);
+    }
+
+    /**
+     * @dev Returns the credential that replaced a superseded token
+     */
+    function getSupersedingVersion(uint256 tokenId) public view returns (
+        bool found,
+        uint256 newTokenId
+    ) {
+        bool superseded = _credentials[tokenId].status == CredentialStatus.Superseded;
+        return (superseded, _supersededBy[tokenId]);
+    }
+
+    /**
+     * @dev Follows the supersession chain from a token to its newest version that has not been burned
+     */
+    function getCurrentVersion(uint256 tokenId) public view returns (uint256) {
+        _requireCredential(tokenId);
+        // Burning clears a credential's status but not its link; a replacement is never token 0
+        uint256 currentTokenId = tokenId;
+        while (_supersededBy[tokenId] != 0) {
+            tokenId = _supersededBy[tokenId];
+            if (_ownerOf(tokenId) != address(0)) {
+                currentTokenId = tokenId;
+            }
+        }
+        return currentTokenId;
+    }
+
+    /**
+     * @dev Returns why, when and by whom a credential was revoked
+     */
+    function getRevocation(uint256 tokenId) public view returns (
+        string memory reason,
+        uint256 revokedAt,
+        address revokedBy
+    ) {
+        if (_revocations[tokenId].revokedAt == 0) {
+            revert CredentialNotRevoked(tokenId);
+        }
+        Revocation memory revocation = _revocations[tokenId];
+        return (revocation.reason, revocation.revokedAt, revocation.revokedBy);
+    }
+
+    /**
+     * @dev Anchors the Merkle root of a cohort of credentials issued off-chain
+     */
+    function anchorMerkleRoot(
+        bytes32 root,
+        string memory issuer,
+        uint256 credentialCount
+    ) public onlyRole(ISSUER_ROLE) {
+        if (root == bytes32(0)) {
+            revert InvalidMerkleRoot();
+        }
+        if (_merkleRoots[root].anchoredAt != 0) {
+            revert MerkleRootAlreadyAnchored(root);
+        }
+        if (credentialCount == 0) {
+            revert EmptyMerkleRoot(root);
+        }
+
+        _merkleRoots[root] = MerkleRoot({
+            issuer: issuer,
+            anchoredBy: _msgSender(),
+            anchoredAt: block.timestamp,
+            credentialCount: credentialCount,
+            isRevoked: false
+        });
+
+        emit MerkleRootAnchored(root, _msgSender(), issuer, credentialCount);
+    }
+
+    /**
+     * @dev Revokes every credential under a Merkle root. Only the anchoring issuer or an admin may revoke.
+     */
+    function revokeMerkleRoot(bytes32 root, string memory reason) public {
+        _requireMerkleRevoker(root);
+        _merkleRoots[root].isRevoked = true;
+        emit MerkleRootRevoked(root, reason);
+    }
+
+    /**
+     * @dev Revokes a single credential (leaf) under a Merkle root
+     */
+    function revokeMerkleCredential(bytes32 root, bytes32 leaf, string memory reason) public {
+        _requireMerkleRevoker(root);
+        _revokedMerkleLeaves[root][leaf] = true;
+        emit MerkleCredentialRevoked(root, leaf, reason);
+    }
+
+    /**
+     * @dev Returns the anchoring details of a Merkle root
+     */
+    function getMerkleRoot(bytes32 root) public view returns (
+        string memory issuer,
+        address anchoredBy,
+        uint256 anchoredAt,
+        uint256 credentialCount,
+        bool isRevoked
+    ) {
+        if (_merkleRoots[root].anchoredAt == 0) {
+            revert MerkleRootNotAnchored(root);
+        }
+        MerkleRoot memory merkleRoot = _merkleRoots[root];
+        return (
+            merkleRoot.issuer,
+            merkleRoot.anchoredBy,
+            merkleRoot.anchoredAt,
+            merkleRoot.credentialCount,
+            merkleRoot.isRevoked
+        );
+    }
+
+    /**
+     * @dev Returns whether a single credential under a Merkle root was revoked
+     */
+    function isMerkleCredentialRevoked(bytes32 root, bytes32 leaf) public view returns (bool) {
+        return _revokedMerkleLeaves[root][leaf];
+    }
+
+    /**
+     * @dev Returns whether a leaf is part of an anchored, unrevoked Merkle root
+     */
+    function verifyMerkleCredential(
+        bytes32 root,
+        bytes32 leaf,
+        bytes32[] calldata proof
+    ) public view returns (bool) {
+        MerkleRoot storage merkleRoot = _merkleRoots[root];
+        if (merkleRoot.anchoredAt == 0 || merkleRoot.isRevoked || _revokedMerkleLeaves[root][leaf]) {
+            return false;
+        }
+        return MerkleProof.verifyCalldata(proof, root, leaf);
+    }
+
+    function _requireMerkleRevoker(bytes32 root) internal view {
+        if (_merkleRoots[root].anchoredAt == 0) {
+            revert MerkleRootNotAnchored(root);
+        }
+        if (_merkleRoots[root].anchoredBy != _msgSender() && !hasRole(ADMIN_ROLE, _msgSender())) {
+            revert NotMerkleRootAnchorer(root, _msgSender());
+        }
+    }
+
+    /**
+     * @dev Returns whether a credential is locked to its holder (ERC-5192)
+     */
+    function locked(uint256 tokenId) external view returns (bool) {
+        _requireCredential(tokenId);
+        return _locked[tokenId];
+    }
+
+    /**
+     * @dev Locks a credential so its holder cannot transfer it
+     */
+    function lockCredential(uint256 tokenId) public onlyRole(ADMIN_ROLE) {
+        _requireCredential(tokenId);
+        if (_locked[tokenId]) {
+            revert CredentialAlreadyLocked(tokenId);
+        }
+        _locked[tokenId] = true;
+        emit Locked(tokenId);
+    }
+
+    /**
+     * @dev Unlocks a credential, e.g. to let its holder move it to a new wallet
+     */
+    function unlockCredential(uint256 tokenId) public onlyRole(ADMIN_ROLE) {
+        _requireCredential(tokenId);
+        if (!_locked[tokenId]) {
+            revert CredentialNotLocked(tokenId);
+        }
+        _locked[tokenId] = false;
+        emit Unlocked(tokenId);
+    }
+
+    /**
+     * @dev Allows the holder of a credential to burn it
+     */
+    function approveBurn(uint256 tokenId) public onlyRole(ADMIN_ROLE) {
+        _requireCredential(tokenId);
+        _burnApproved[tokenId] = true;
+        emit CredentialBurnApproved(tokenId);
+    }
+
+    /**
+     * @dev Burns a credential. Admins may burn any credential, holders only once an admin approved it.
+     */
+    function burnCredential(uint256 tokenId) public {
+        _requireCredential(tokenId);
+        if (!hasRole(ADMIN_ROLE, _msgSender()) && !(_burnApproved[tokenId] && ownerOf(tokenId) == _msgSender())) {
+            revert BurnNotApproved(tokenId, _msgSender());
+        }
+
+        // An amended credential may share its document with the version that replaced it
+        string memory ipfsHash = _credentials[tokenId].ipfsHash;
+        if (_tokenIdsByIpfsHash[ipfsHash] == tokenId) {
+            delete _tokenIdsByIpfsHash[ipfsHash];
+            delete _registeredIpfsHashes[ipfsHash];
+        }
+        delete _credentials[tokenId];
+        delete _tokenURIs[tokenId];
+        delete _locked[tokenId];
+        delete _burnApproved[tokenId];
+
+        _burn(tokenId);
+    }
+
     /**
      * @dev Returns credential details
      */
@@ -83,9 +584,10 @@ contract EduCredToken is ERC721, Ownable {
         string memory issuer,
         uint256 issueDate,
         string memory ipfsHash,
-        bool isRevoked
+        CredentialStatus status,
+        uint256 expiresAt
     ) {
-        require(_exists(tokenId), "Token does not exist");
+        _requireCredential(tokenId);
         Credential memory credential = _credentials[tokenId];
         return (
             credential.title,
@@ -93,19 +595,119 @@ contract EduCredToken is ERC721, Ownable {
             credential.issuer,
             credential.issueDate,
             credential.ipfsHash,
-            credential.isRevoked
+            credential.status,
+            credential.expiresAt
         );
     }
 
     /**
-     * @dev Override to check if credential is revoked before transfer
+     * @dev Returns whether a credential is active and not expired
+     */
+    function isValid(uint256 tokenId) public view returns (bool) {
+        _requireCredential(tokenId);
+        Credential storage credential = _credentials[tokenId];
+        if (credential.status != CredentialStatus.Active) {
+            return false;
+        }
+        return credential.expiresAt == 0 || block.timestamp < credential.expiresAt;
+    }
+
+    /**
+     * @dev Returns the metadata JSON URI recorded when the credential was minted
+     */
+    function tokenURI(uint256 tokenId) public view virtual override returns (string memory) {
+        _requireCredential(tokenId);
+        return _tokenURIs[tokenId];
+    }
+
+    /**
+     * @dev Returns the account that minted a credential
+     */
+    function issuerOf(uint256 tokenId) public view returns (address) {
+        _requireCredential(tokenId);
+        return _credentials[tokenId].issuedBy;
+    }
+
+    /**
+     * @dev Returns the token ID registered for a document's IPFS hash
+     */
+    function getTokenIdByIpfsHash(string memory ipfsHash) public view returns (
+        bool found,
+        uint256 tokenId
+    ) {
+        return (_registeredIpfsHashes[ipfsHash], _tokenIdsByIpfsHash[ipfsHash]);
+    }
+
+    /**
+     * @dev Override to block transfers of revoked, suspended, superseded or locked credentials. Mints and burns are not transfers.
      */
     function _update(
         address to,
         uint256 tokenId,
         address auth
     ) internal virtual override returns (address) {
-        require(!_credentials[tokenId].isRevoked, "Credential is revoked");
+        if (_ownerOf(tokenId) != address(0) && to != address(0)) {
+            _requireActive(tokenId);
+            if (_locked[tokenId]) {
+                revert CredentialIsLocked(tokenId);
+            }
+        }
         return super._update(to, tokenId, auth);
     }
+
+    function _requireCredential(uint256 tokenId) internal view {
+        if (_ownerOf(tokenId) == address(0)) {
+            revert CredentialNotFound(tokenId);
+        }
+    }
+
+    // Only the issuer who minted a credential, while still an issuer, or an admin may change its status or amend it
+    function _requireCredentialManager(uint256 tokenId) internal view {
+        _requireCredential(tokenId);
+        address sender = _msgSender();
+        bool isMintingIssuer = _credentials[tokenId].issuedBy == sender && hasRole(ISSUER_ROLE, sender);
+        if (!isMintingIssuer && !hasRole(ADMIN_ROLE, sender)) {
+            revert NotCredentialIssuer(tokenId, _msgSender());
+        }
+    }
+
+    function _requireActive(uint256 tokenId) internal view {
+        if (_credentials[tokenId].status != CredentialStatus.Active) {
+            revert CredentialNotActive(tokenId, _credentials[tokenId].status);
+        }
+    }
+
+    function _requireFutureExpiry(uint256 expiresAt) internal view {
+        if (expiresAt != 0 && expiresAt <= block.timestamp) {
+            revert ExpiryNotInFuture(expiresAt);
+        }
+    }
+
+    /**
+     * @dev Resolve the sender from the forwarded calldata when called through the trusted forwarder
+     */
+    function _msgSender() internal view virtual override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view virtual override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view virtual override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}
+     */
+    function supportsInterface(bytes4 interfaceId)
+        public
+        view
+        virtual
+        override(ERC721, AccessControlEnumerable)
+        returns (bool)
+    {
+        return interfaceId == type(IERC5192).interfaceId || super.supportsInterface(interfaceId);
+    }
 }
@@ -0,0 +1,8 @@
+// Hash of a contract ABI, shared by the client generator and the deploy script so the web app can tell
+// whether a deployment was made from the same ABI as the typed client it was built with.
+// Uses Hardhat's bundled ethers: a plain require("ethers") resolves to the web app's ethers v5, which has no `id`.
+const { ethers } = require("hardhat");
+
+const abiHash = (abi) => ethers.id(JSON.stringify(abi));
+
+module.exports = { abiHash };
@@ -1,12 +1,60 @@
+// Deploys EduCredForwarder and EduCredToken, then records the deployment in the manifest the web app reads
+// (src/contracts/deployments.json), keyed by chain ID. Redeploying to a chain replaces its entry.
+const fs = require("fs");
+const path = require("path");
 const hre = require("hardhat");
+const { abiHash } = require("./abi-hash");
+
+const MANIFEST_FILE = path.join(__dirname, "..", "..", "src", "contracts", "deployments.json");
+
+// Bump when the manifest's shape changes; the web app refuses manifests of other versions
+const MANIFEST_VERSION = 1;
+
+const readManifest = () => {
+  if (!fs.existsSync(MANIFEST_FILE)) {
+    return { version: MANIFEST_VERSION, deployments: {} };
+  }
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST_FILE, "utf8"));
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`${MANIFEST_FILE} has version ${manifest.version}, expected ${MANIFEST_VERSION}`);
+  }
+  return manifest;
+};
 
 async function main() {
+  const [deployer] = await hre.ethers.getSigners();
+  const { chainId } = await hre.ethers.provider.getNetwork();
+
+  const EduCredForwarder = await hre.ethers.getContractFactory("EduCredForwarder");
+  const forwarder = await EduCredForwarder.deploy();
+
+  await forwarder.waitForDeployment();
+
+  console.log(`EduCredForwarder deployed to: ${await forwarder.getAddress()}`);
+
   const EduCredToken = await hre.ethers.getContractFactory("EduCredToken");
-  const token = await EduCredToken.deploy();
-  
+  const token = await EduCredToken.deploy(await forwarder.getAddress());
+
   await token.waitForDeployment();
-  
+
   console.log(`EduCredToken deployed to: ${await token.getAddress()}`);
+
+  const receipt = await token.deploymentTransaction().wait();
+  const { abi } = await hre.artifacts.readArtifact("EduCredToken");
+
+  const manifest = readManifest();
+  manifest.deployments[chainId.toString()] = {
+    chainId: Number(chainId),
+    network: hre.network.name,
+    address: await token.getAddress(),
+    forwarderAddress: await forwarder.getAddress(),
+    deploymentBlock: receipt.blockNumber,
+    abiHash: abiHash(abi),
+    deployer: deployer.address,
+    deployedAt: new Date().toISOString(),
+  };
+  fs.writeFileSync(MANIFEST_FILE, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`Recorded the deployment in ${path.relative(process.cwd(), MANIFEST_FILE)}`);
 }
 
 main()
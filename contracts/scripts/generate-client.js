@@ -0,0 +1,212 @@
+// Generates the typed ethers v5 client for EduCredToken used by the web app from its Hardhat artifact,
+// so the frontend's ABI, method signatures and custom errors always match the compiled contract.
+//
+// Usage, after changing the contract:
+//   npx hardhat run scripts/generate-client.js
+//
+// Writes src/contracts/EduCredToken.ts at the repository root. The output is committed; do not edit it by hand.
+const fs = require("fs");
+const path = require("path");
+const hre = require("hardhat");
+const { abiHash } = require("./abi-hash");
+
+const CONTRACT_NAME = "EduCredToken";
+const OUTPUT_FILE = path.join(__dirname, "..", "..", "src", "contracts", `${CONTRACT_NAME}.ts`);
+
+// Members of ethers.Contract; functions with these names are only reachable by signature
+const RESERVED_NAMES = new Set([
+  "address", "attach", "callStatic", "connect", "deployed", "deployTransaction", "emit", "estimateGas",
+  "fallback", "filters", "functions", "interface", "listenerCount", "listeners", "off", "on", "once",
+  "populateTransaction", "provider", "queryFilter", "removeAllListeners", "removeListener",
+  "resolvedAddress", "signer",
+]);
+
+const ETHERS_TYPES = [
+  "BigNumber", "BigNumberish", "BytesLike", "CallOverrides", "ContractTransaction", "EventFilter", "Overrides",
+  "PayableOverrides",
+];
+
+// Integers up to 48 bits are decoded by ethers v5 as JavaScript numbers
+const MAX_NUMBER_BITS = 48;
+
+const toConstantName = (name) => name.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase();
+
+const structName = (param) => {
+  const match = /^struct (?:\w+\.)?(\w+)/.exec(param.internalType || "");
+  return match ? `${match[1]}Struct` : null;
+};
+
+// Split "uint256[][]" into "uint256" and its number of array dimensions
+const splitArrayType = (type) => {
+  const suffix = /(\[\d*\])*$/.exec(type)[0];
+  return [type.slice(0, type.length - suffix.length), (suffix.match(/\[/g) || []).length];
+};
+
+const wrapArray = (type, dimensions) =>
+  Array.from({ length: dimensions }).reduce((wrapped) => `Array<${wrapped}>`, type);
+
+const tupleObject = (components, toType) =>
+  `{ ${components.map((component) => `${component.name}: ${toType(component)}`).join("; ")} }`;
+
+const inputType = (param) => {
+  const [base, dimensions] = splitArrayType(param.type);
+  let type = "string";
+  if (base === "tuple") {
+    type = structName(param) || tupleObject(param.components, inputType);
+  } else if (/^u?int\d*$/.test(base)) {
+    type = "BigNumberish";
+  } else if (base === "bool") {
+    type = "boolean";
+  } else if (/^bytes\d*$/.test(base)) {
+    type = "BytesLike";
+  }
+  return wrapArray(type, dimensions);
+};
+
+const outputType = (param) => {
+  const [base, dimensions] = splitArrayType(param.type);
+  let type = "string";
+  if (base === "tuple") {
+    type = resultType(param.components);
+  } else if (/^u?int\d*$/.test(base)) {
+    type = Number(base.replace(/^u?int/, "") || 256) <= MAX_NUMBER_BITS ? "number" : "BigNumber";
+  } else if (base === "bool") {
+    type = "boolean";
+  }
+  return wrapArray(type, dimensions);
+};
+
+// Decoded results are arrays that also carry named values
+const resultType = (params) => {
+  const tuple = `[${params.map(outputType).join(", ")}]`;
+  const named = params.filter((param) => param.name);
+  return named.length > 0 ? `${tuple} & ${tupleObject(named, outputType)}` : tuple;
+};
+
+const signatureOf = (fragment) => `${fragment.name}(${fragment.inputs.map(formatParamType).join(",")})`;
+
+const formatParamType = (param) =>
+  param.type.startsWith("tuple")
+    ? `(${param.components.map(formatParamType).join(",")})${param.type.slice("tuple".length)}`
+    : param.type;
+
+const parameterList = (inputs, overrides) =>
+  [
+    ...inputs.map((input, index) => `${input.name || `arg${index}`}: ${inputType(input)}`),
+    `overrides?: ${overrides}`,
+  ].join(", ");
+
+const functionMember = (fragment, key) => {
+  const isView = fragment.stateMutability === "view" || fragment.stateMutability === "pure";
+  const overrides = isView ? "CallOverrides" : fragment.stateMutability === "payable" ? "PayableOverrides" : "Overrides";
+  let returns = "ContractTransaction";
+  if (isView) {
+    returns = fragment.outputs.length === 1 ? outputType(fragment.outputs[0]) : resultType(fragment.outputs);
+  }
+  const name = /^\w+$/.test(key) ? key : `'${key}'`;
+  return `  ${name}(${parameterList(fragment.inputs, overrides)}): Promise<${returns}>;`;
+};
+
+const eventFilterMember = (fragment) => {
+  const params = fragment.inputs.map(
+    (input) => `${input.name}?: ${input.indexed ? `${inputType(input)} | null` : "null"}`
+  );
+  return `    ${fragment.name}(${params.join(", ")}): EventFilter;`;
+};
+
+const errorMember = (fragment) =>
+  `  ${fragment.name}: ${fragment.inputs.length > 0 ? tupleObject(fragment.inputs, outputType) : "Record<string, never>"};`;
+
+const structDeclarations = (abi) => {
+  const structs = new Map();
+  const collect = (param) => {
+    const name = structName(param);
+    if (name && !structs.has(name)) {
+      structs.set(name, `export interface ${name} {\n${param.components
+        .map((component) => `  ${component.name}: ${inputType(component)};`)
+        .join("\n")}\n}`);
+    }
+    (param.components || []).forEach(collect);
+  };
+  abi.filter((fragment) => fragment.type === "function").forEach((fragment) => fragment.inputs.forEach(collect));
+  return [...structs.values()];
+};
+
+const render = (abi) => {
+  const functions = abi.filter((fragment) => fragment.type === "function");
+  const events = abi.filter((fragment) => fragment.type === "event");
+  const errors = abi.filter((fragment) => fragment.type === "error");
+
+  // Like ethers, overloaded functions are only exposed by their full signature
+  const counts = functions.reduce((acc, fragment) => acc.set(fragment.name, (acc.get(fragment.name) || 0) + 1), new Map());
+  const functionMembers = functions
+    .map((fragment) => {
+      const key = counts.get(fragment.name) > 1 || RESERVED_NAMES.has(fragment.name) ? signatureOf(fragment) : fragment.name;
+      return functionMember(fragment, key);
+    })
+    .sort();
+
+  const body = `export const ${toConstantName(CONTRACT_NAME)}_ABI = ${JSON.stringify(abi, null, 2)};
+
+// Deployment manifests record the hash of the ABI each deployment was made from
+export const ${toConstantName(CONTRACT_NAME)}_ABI_HASH = '${abiHash(abi)}';
+
+${structDeclarations(abi).join("\n\n")}
+
+export interface ${CONTRACT_NAME}Functions {
+${functionMembers.join("\n")}
+}
+
+export type ${CONTRACT_NAME}Method = keyof ${CONTRACT_NAME}Functions;
+
+// Arguments of each custom error the contract can revert with, as decoded by ethers
+export interface ${CONTRACT_NAME}Errors {
+${errors.map(errorMember).join("\n")}
+}
+
+export type ${CONTRACT_NAME}ErrorName = keyof ${CONTRACT_NAME}Errors;
+
+// A decoded revert, narrowed to the arguments of its error by name
+export type ${CONTRACT_NAME}Revert = {
+  [Name in ${CONTRACT_NAME}ErrorName]: { name: Name; args: ${CONTRACT_NAME}Errors[Name] };
+}[${CONTRACT_NAME}ErrorName];
+
+export interface ${CONTRACT_NAME} extends ethers.Contract, ${CONTRACT_NAME}Functions {
+  estimateGas: {
+    [Method in ${CONTRACT_NAME}Method]: (...args: Parameters<${CONTRACT_NAME}Functions[Method]>) => Promise<BigNumber>;
+  };
+  filters: {
+${events.map(eventFilterMember).join("\n")}
+  };
+}
+
+export const connect${CONTRACT_NAME} = (
+  address: string,
+  signerOrProvider: ethers.Signer | ethers.providers.Provider
+): ${CONTRACT_NAME} => new ethers.Contract(address, ${toConstantName(CONTRACT_NAME)}_ABI, signerOrProvider) as ${CONTRACT_NAME};
+`;
+
+  // Import only the ethers types the client uses
+  const types = ETHERS_TYPES.filter((type) => new RegExp(`\\b${type}\\b`).test(body));
+  return `// Generated by contracts/scripts/generate-client.js from the ${CONTRACT_NAME} Hardhat artifact. Do not edit.
+import { ethers } from 'ethers';
+import type {
+${types.map((type) => `  ${type}`).join(",\n")}
+} from 'ethers';
+
+${body}`;
+};
+
+async function main() {
+  const { abi } = await hre.artifacts.readArtifact(CONTRACT_NAME);
+  fs.mkdirSync(path.dirname(OUTPUT_FILE), { recursive: true });
+  fs.writeFileSync(OUTPUT_FILE, render(abi));
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,109 @@
+// Relays issuers' signed ERC-2771 forward requests to EduCredForwarder and pays their gas.
+//
+// Usage, against a local node started with `npx hardhat node`:
+//   FORWARDER_ADDRESS=0x... TOKEN_ADDRESS=0x... npx hardhat run scripts/relayer.js --network localhost
+//
+// POST /relay with a JSON body of { "request": ForwardRequestData } answers { "txHash" } once the
+// transaction is submitted, or { "error" } with status 400 if the request would not succeed.
+const http = require("http");
+const hre = require("hardhat");
+
+const PORT = Number(process.env.RELAYER_PORT || 3001);
+const MAX_BODY_BYTES = 64 * 1024;
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new Error("Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(payload));
+};
+
+// HTTP server that checks and relays forward requests for `tokenAddress` through `forwarder`,
+// which must be connected to the account paying the gas
+const createRelayServer = ({ forwarder, tokenAddress }) => {
+  const relay = async (request) => {
+    // Only pay for calls to our own token, and never forward value
+    if (!request || typeof request.to !== "string" || request.to.toLowerCase() !== tokenAddress.toLowerCase()) {
+      throw new Error("Request must target the EduCred token");
+    }
+    if (BigInt(request.value || 0) !== 0n) {
+      throw new Error("Request must not transfer value");
+    }
+    if (!(await forwarder.verify(request))) {
+      throw new Error("Invalid signature, nonce or deadline");
+    }
+
+    // Simulate first so a reverting call does not cost the relayer gas
+    await forwarder.execute.staticCall(request);
+
+    const tx = await forwarder.execute(request);
+    return tx.hash;
+  };
+
+  return http.createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      return send(res, 204, {});
+    }
+    if (req.method !== "POST" || req.url !== "/relay") {
+      return send(res, 404, { error: "Not found" });
+    }
+
+    try {
+      const { request } = await readJson(req);
+      const txHash = await relay(request);
+      console.log(`Relayed request from ${request.from}: ${txHash}`);
+      send(res, 200, { txHash });
+    } catch (error) {
+      const message = error.reason || error.shortMessage || error.message;
+      console.error(`Rejected request: ${message}`);
+      send(res, 400, { error: message });
+    }
+  });
+};
+
+async function main() {
+  const { FORWARDER_ADDRESS, TOKEN_ADDRESS } = process.env;
+  if (!hre.ethers.isAddress(FORWARDER_ADDRESS) || !hre.ethers.isAddress(TOKEN_ADDRESS)) {
+    throw new Error("Set FORWARDER_ADDRESS and TOKEN_ADDRESS to the deployed contract addresses");
+  }
+
+  const [relayer] = await hre.ethers.getSigners();
+  const forwarder = await hre.ethers.getContractAt("EduCredForwarder", FORWARDER_ADDRESS, relayer);
+
+  createRelayServer({ forwarder, tokenAddress: TOKEN_ADDRESS }).listen(PORT, () => {
+    console.log(`Relayer ${relayer.address} listening on http://localhost:${PORT}/relay`);
+  });
+}
+
+// Run as a script; tests require the module for createRelayServer
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+module.exports = { createRelayServer };
@@ -1,17 +1,26 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
 
 describe("EduCredToken", function () {
   let EduCredToken;
   let token;
+  let forwarder;
   let owner;
   let addr1;
   let addr2;
 
+  // CredentialStatus enum values
+  const ACTIVE = 0;
+  const SUSPENDED = 1;
+  const REVOKED = 2;
+  const SUPERSEDED = 3;
+
   beforeEach(async function () {
     [owner, addr1, addr2] = await ethers.getSigners();
+    forwarder = await ethers.deployContract("EduCredForwarder");
     EduCredToken = await ethers.getContractFactory("EduCredToken");
-    token = await EduCredToken.deploy();
+    token = await EduCredToken.deploy(await forwarder.getAddress());
     await token.waitForDeployment();
   });
 
@@ -31,10 +40,10 @@ describe("EduCredToken", function () {
 
     await expect(tx)
       .to.emit(token, "CredentialMinted")
-      .withArgs(0, addr1.address, "Computer Science Degree", "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco");
+      .withArgs(0, addr1.address, owner.address, "Computer Science Degree", "QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco");
   });
 
-  it("Should not allow non-owners to mint credentials", async function () {
+  it("Should not allow non-issuers to mint credentials", async function () {
     await expect(
       token.connect(addr1).mintCredential(
         addr1.address,
@@ -43,7 +52,7 @@ describe("EduCredToken", function () {
         "Fake University",
         "QmFha2VIYXNo"
       )
-    ).to.be.revertedWith("Ownable: caller is not the owner");
+    ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
   });
 
   it("Should allow owner to revoke credentials", async function () {
@@ -59,7 +68,668 @@ describe("EduCredToken", function () {
       .to.emit(token, "CredentialRevoked")
       .withArgs(0, "Degree revoked due to misconduct");
 
-    const [, , , , , isRevoked] = await token.getCredential(0);
-    expect(isRevoked).to.be.true;
+    const [, , , , , status] = await token.getCredential(0);
+    expect(status).to.equal(REVOKED);
+  });
+
+  it("Should record why, when and by whom a credential was revoked", async function () {
+    await token.mintCredential(
+      addr1.address,
+      "Revocable Degree",
+      "This will be revoked",
+      "Test University",
+      "QmRevocableHash"
+    );
+
+    await expect(token.getRevocation(0)).to.be.revertedWithCustomError(token, "CredentialNotRevoked").withArgs(0);
+
+    await token.revokeCredential(0, "Degree revoked due to misconduct");
+    const [reason, revokedAt, revokedBy] = await token.getRevocation(0);
+    expect(reason).to.equal("Degree revoked due to misconduct");
+    expect(revokedAt).to.equal(await time.latest());
+    expect(revokedBy).to.equal(owner.address);
+
+    await expect(
+      token.revokeCredential(0, "Revoked again")
+    ).to.be.revertedWithCustomError(token, "CredentialAlreadyRevoked").withArgs(0);
+  });
+
+  it("Should look up a credential by its IPFS hash", async function () {
+    await token.mintCredential(
+      addr1.address,
+      "Indexed Degree",
+      "Findable by document",
+      "Test University",
+      "QmIndexedHash"
+    );
+
+    const [found, tokenId] = await token.getTokenIdByIpfsHash("QmIndexedHash");
+    expect(found).to.be.true;
+    expect(tokenId).to.equal(0);
+
+    const [unknown] = await token.getTokenIdByIpfsHash("QmUnknownHash");
+    expect(unknown).to.be.false;
+  });
+
+  it("Should not register the same document twice", async function () {
+    await token.mintCredential(
+      addr1.address,
+      "Original Degree",
+      "First registration",
+      "Test University",
+      "QmDuplicateHash"
+    );
+
+    await expect(
+      token.mintCredential(
+        addr2.address,
+        "Copied Degree",
+        "Second registration",
+        "Test University",
+        "QmDuplicateHash"
+      )
+    ).to.be.revertedWithCustomError(token, "DocumentAlreadyRegistered");
+  });
+
+  describe("Issuer roles", function () {
+    let ISSUER_ROLE;
+    let ADMIN_ROLE;
+
+    beforeEach(async function () {
+      ISSUER_ROLE = await token.ISSUER_ROLE();
+      ADMIN_ROLE = await token.ADMIN_ROLE();
+    });
+
+    it("Should grant the deployer admin and issuer roles", async function () {
+      expect(await token.hasRole(ADMIN_ROLE, owner.address)).to.be.true;
+      expect(await token.hasRole(ISSUER_ROLE, owner.address)).to.be.true;
+      expect(await token.getRoleMemberCount(ISSUER_ROLE)).to.equal(1);
+    });
+
+    it("Should allow granted issuers to mint credentials", async function () {
+      await token.grantRole(ISSUER_ROLE, addr1.address);
+
+      await expect(
+        token.connect(addr1).mintCredential(
+          addr2.address,
+          "Department Certificate",
+          "Issued by a department",
+          "Physics Department",
+          "QmDepartmentHash"
+        )
+      ).to.emit(token, "CredentialMinted");
+      expect(await token.issuerOf(0)).to.equal(addr1.address);
+    });
+
+    it("Should not allow non-admins to grant issuer roles", async function () {
+      await expect(
+        token.connect(addr1).grantRole(ISSUER_ROLE, addr2.address)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should stop revoked issuers from minting", async function () {
+      await token.grantRole(ISSUER_ROLE, addr1.address);
+      await token.revokeRole(ISSUER_ROLE, addr1.address);
+
+      await expect(
+        token.connect(addr1).mintCredential(
+          addr2.address,
+          "Late Certificate",
+          "Issued after role removal",
+          "Physics Department",
+          "QmLateHash"
+        )
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should restrict revocation to the minting issuer or an admin", async function () {
+      await token.grantRole(ISSUER_ROLE, addr1.address);
+      await token.grantRole(ISSUER_ROLE, addr2.address);
+      await token.connect(addr1).mintCredential(
+        addr2.address,
+        "Department Certificate",
+        "Issued by a department",
+        "Physics Department",
+        "QmDepartmentHash"
+      );
+
+      await expect(
+        token.connect(addr2).revokeCredential(0, "Wrong department")
+      ).to.be.revertedWithCustomError(token, "NotCredentialIssuer").withArgs(0, addr2.address);
+
+      await expect(token.connect(addr1).revokeCredential(0, "Issued in error"))
+        .to.emit(token, "CredentialRevoked")
+        .withArgs(0, "Issued in error");
+    });
+
+    it("Should stop issuers who lost the role from managing the credentials they minted", async function () {
+      await token.grantRole(ISSUER_ROLE, addr1.address);
+      await token.connect(addr1).mintCredential(
+        addr2.address,
+        "Department Certificate",
+        "Issued by a department",
+        "Physics Department",
+        "QmDepartmentHash"
+      );
+      await token.revokeRole(ISSUER_ROLE, addr1.address);
+
+      await expect(
+        token.connect(addr1).revokeCredential(0, "Issued in error")
+      ).to.be.revertedWithCustomError(token, "NotCredentialIssuer").withArgs(0, addr1.address);
+      await expect(
+        token.connect(addr1).suspendCredential(0, "Under review")
+      ).to.be.revertedWithCustomError(token, "NotCredentialIssuer").withArgs(0, addr1.address);
+
+      // Admins can still manage the credential
+      await expect(token.revokeCredential(0, "Issuer left")).to.emit(token, "CredentialRevoked");
+    });
+
+    it("Should allow admins to revoke any credential", async function () {
+      await token.grantRole(ISSUER_ROLE, addr1.address);
+      await token.connect(addr1).mintCredential(
+        addr2.address,
+        "Department Certificate",
+        "Issued by a department",
+        "Physics Department",
+        "QmDepartmentHash"
+      );
+
+      await expect(token.revokeCredential(0, "Revoked by registrar"))
+        .to.emit(token, "CredentialRevoked");
+    });
+  });
+
+  describe("Soulbound credentials", function () {
+    beforeEach(async function () {
+      await token.mintCredential(
+        addr1.address,
+        "Locked Degree",
+        "Cannot be transferred",
+        "Test University",
+        "QmLockedHash"
+      );
+    });
+
+    it("Should lock credentials at mint", async function () {
+      expect(await token.locked(0)).to.be.true;
+      expect(await token.supportsInterface("0xb45a3c0e")).to.be.true;
+    });
+
+    it("Should reject holder transfers of locked credentials", async function () {
+      await expect(
+        token.connect(addr1).transferFrom(addr1.address, addr2.address, 0)
+      ).to.be.revertedWithCustomError(token, "CredentialIsLocked").withArgs(0);
+    });
+
+    it("Should allow transfers once an admin unlocks the credential", async function () {
+      await expect(token.unlockCredential(0))
+        .to.emit(token, "Unlocked")
+        .withArgs(0);
+
+      await token.connect(addr1).transferFrom(addr1.address, addr2.address, 0);
+      expect(await token.ownerOf(0)).to.equal(addr2.address);
+    });
+
+    it("Should only let holders burn after admin approval", async function () {
+      await expect(
+        token.connect(addr1).burnCredential(0)
+      ).to.be.revertedWithCustomError(token, "BurnNotApproved").withArgs(0, addr1.address);
+
+      await expect(token.approveBurn(0))
+        .to.emit(token, "CredentialBurnApproved")
+        .withArgs(0);
+      await token.connect(addr1).burnCredential(0);
+
+      const [found] = await token.getTokenIdByIpfsHash("QmLockedHash");
+      expect(found).to.be.false;
+      await expect(token.getCredential(0)).to.be.revertedWithCustomError(token, "CredentialNotFound").withArgs(0);
+    });
+
+    it("Should allow admins to burn revoked credentials", async function () {
+      await token.revokeCredential(0, "Issued in error");
+      await expect(token.burnCredential(0))
+        .to.emit(token, "Transfer")
+        .withArgs(addr1.address, ethers.ZeroAddress, 0);
+    });
+  });
+
+  describe("Credential expiry", function () {
+    const ONE_YEAR = 365 * 24 * 60 * 60;
+
+    it("Should store the expiry date and report validity", async function () {
+      const expiresAt = (await time.latest()) + ONE_YEAR;
+      await token["mintCredential(address,string,string,string,string,uint256)"](
+        addr1.address,
+        "First Aid Certificate",
+        "Valid for one year",
+        "Red Cross",
+        "QmFirstAidHash",
+        expiresAt
+      );
+
+      const [, , , , , , storedExpiry] = await token.getCredential(0);
+      expect(storedExpiry).to.equal(expiresAt);
+      expect(await token.isValid(0)).to.be.true;
+
+      await time.increaseTo(expiresAt);
+      expect(await token.isValid(0)).to.be.false;
+    });
+
+    it("Should treat credentials without expiry as valid until revoked", async function () {
+      await token.mintCredential(
+        addr1.address,
+        "Degree",
+        "Never expires",
+        "Test University",
+        "QmDegreeHash"
+      );
+
+      const [, , , , , , expiresAt] = await token.getCredential(0);
+      expect(expiresAt).to.equal(0);
+      expect(await token.isValid(0)).to.be.true;
+
+      await token.revokeCredential(0, "Revoked");
+      expect(await token.isValid(0)).to.be.false;
+    });
+
+    it("Should reject expiry dates in the past", async function () {
+      const expiresAt = (await time.latest()) - 1;
+      await expect(
+        token["mintCredential(address,string,string,string,string,uint256)"](
+          addr1.address,
+          "Expired Certificate",
+          "Already expired",
+          "Test University",
+          "QmExpiredHash",
+          expiresAt
+        )
+      ).to.be.revertedWithCustomError(token, "ExpiryNotInFuture").withArgs(expiresAt);
+    });
+  });
+
+  describe("Batch minting", function () {
+    const request = (to, index) => ({
+      to,
+      title: `Graduate Certificate ${index}`,
+      description: "Class of 2025",
+      issuer: "Test University",
+      ipfsHash: `QmBatchHash${index}`,
+      expiresAt: 0,
+      metadataURI: `ipfs://QmBatchMetadata${index}`,
+    });
+
+    it("Should mint a credential for every request", async function () {
+      const requests = [request(addr1.address, 1), request(addr2.address, 2)];
+
+      await expect(token.mintBatch(requests))
+        .to.emit(token, "CredentialMinted")
+        .withArgs(1, addr2.address, owner.address, "Graduate Certificate 2", "QmBatchHash2");
+
+      expect(await token.ownerOf(0)).to.equal(addr1.address);
+      expect(await token.ownerOf(1)).to.equal(addr2.address);
+      const [found, tokenId] = await token.getTokenIdByIpfsHash("QmBatchHash2");
+      expect(found).to.be.true;
+      expect(tokenId).to.equal(1);
+    });
+
+    it("Should revert the whole batch if one request is invalid", async function () {
+      const requests = [request(addr1.address, 1), request(addr2.address, 1)];
+
+      await expect(token.mintBatch(requests)).to.be.revertedWithCustomError(token, "DocumentAlreadyRegistered");
+      expect(await token.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("Should reject empty batches and non-issuers", async function () {
+      await expect(token.mintBatch([])).to.be.revertedWithCustomError(token, "EmptyBatch");
+      await expect(
+        token.connect(addr1).mintBatch([request(addr1.address, 1)])
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Merkle-anchored credentials", function () {
+    // Leaves and pairs are hashed like OpenZeppelin's StandardMerkleTree
+    const hashRecord = (holder, title) =>
+      ethers.keccak256(
+        ethers.keccak256(
+          ethers.AbiCoder.defaultAbiCoder().encode(
+            ["address", "string", "string", "string", "string", "uint256"],
+            [holder, title, "Class of 2025", "Test University", `Qm${title}`, 1700000000]
+          )
+        )
+      );
+    const hashPair = (a, b) =>
+      ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+
+    let leaves;
+    let root;
+
+    beforeEach(async function () {
+      leaves = [
+        hashRecord(addr1.address, "Alice"),
+        hashRecord(addr2.address, "Bob"),
+        hashRecord(owner.address, "Carol"),
+      ];
+      root = hashPair(hashPair(leaves[0], leaves[1]), leaves[2]);
+      await token.anchorMerkleRoot(root, "Test University", leaves.length);
+    });
+
+    it("Should anchor a Merkle root", async function () {
+      const [issuer, anchoredBy, , credentialCount, isRevoked] = await token.getMerkleRoot(root);
+      expect(issuer).to.equal("Test University");
+      expect(anchoredBy).to.equal(owner.address);
+      expect(credentialCount).to.equal(3);
+      expect(isRevoked).to.be.false;
+
+      await expect(
+        token.anchorMerkleRoot(root, "Test University", leaves.length)
+      ).to.be.revertedWithCustomError(token, "MerkleRootAlreadyAnchored").withArgs(root);
+    });
+
+    it("Should verify a credential against its proof", async function () {
+      expect(await token.verifyMerkleCredential(root, leaves[0], [leaves[1], leaves[2]])).to.be.true;
+      expect(await token.verifyMerkleCredential(root, leaves[2], [hashPair(leaves[0], leaves[1])])).to.be.true;
+      expect(await token.verifyMerkleCredential(root, leaves[0], [leaves[2]])).to.be.false;
+    });
+
+    it("Should reject revoked credentials and revoked roots", async function () {
+      await expect(token.revokeMerkleCredential(root, leaves[0], "Issued in error"))
+        .to.emit(token, "MerkleCredentialRevoked")
+        .withArgs(root, leaves[0], "Issued in error");
+      expect(await token.verifyMerkleCredential(root, leaves[0], [leaves[1], leaves[2]])).to.be.false;
+      expect(await token.verifyMerkleCredential(root, leaves[1], [leaves[0], leaves[2]])).to.be.true;
+
+      await token.revokeMerkleRoot(root, "Cohort withdrawn");
+      expect(await token.verifyMerkleCredential(root, leaves[1], [leaves[0], leaves[2]])).to.be.false;
+    });
+
+    it("Should restrict Merkle revocation to the anchoring issuer or an admin", async function () {
+      await expect(
+        token.connect(addr1).revokeMerkleRoot(root, "Not mine")
+      ).to.be.revertedWithCustomError(token, "NotMerkleRootAnchorer").withArgs(root, addr1.address);
+    });
+  });
+
+  describe("Suspension", function () {
+    beforeEach(async function () {
+      await token.grantRole(await token.ISSUER_ROLE(), addr1.address);
+      await token.connect(addr1).mintCredential(
+        addr2.address,
+        "Department Certificate",
+        "Issued by a department",
+        "Physics Department",
+        "QmSuspendableHash"
+      );
+    });
+
+    it("Should suspend and reinstate a credential", async function () {
+      await expect(token.connect(addr1).suspendCredential(0, "Under investigation"))
+        .to.emit(token, "CredentialSuspended")
+        .withArgs(0, "Under investigation");
+      expect((await token.getCredential(0))[5]).to.equal(SUSPENDED);
+      expect(await token.isValid(0)).to.be.false;
+
+      await expect(token.connect(addr1).reinstateCredential(0))
+        .to.emit(token, "CredentialReinstated")
+        .withArgs(0);
+      expect((await token.getCredential(0))[5]).to.equal(ACTIVE);
+      expect(await token.isValid(0)).to.be.true;
+    });
+
+    it("Should only reinstate suspended credentials", async function () {
+      await expect(token.reinstateCredential(0)).to.be.revertedWithCustomError(token, "CredentialNotSuspended").withArgs(0);
+
+      await token.suspendCredential(0, "Under investigation");
+      await token.revokeCredential(0, "Misconduct confirmed");
+      expect((await token.getCredential(0))[5]).to.equal(REVOKED);
+      await expect(token.reinstateCredential(0)).to.be.revertedWithCustomError(token, "CredentialNotSuspended").withArgs(0);
+      await expect(token.suspendCredential(0, "Again"))
+        .to.be.revertedWithCustomError(token, "CredentialNotActive").withArgs(0, REVOKED);
+    });
+
+    it("Should restrict suspension to the minting issuer or an admin", async function () {
+      await expect(
+        token.connect(addr2).suspendCredential(0, "Not mine")
+      ).to.be.revertedWithCustomError(token, "NotCredentialIssuer").withArgs(0, addr2.address);
+    });
+
+    it("Should block transfers of suspended credentials", async function () {
+      await token.unlockCredential(0);
+      await token.suspendCredential(0, "Under investigation");
+      await expect(
+        token.connect(addr2).transferFrom(addr2.address, owner.address, 0)
+      ).to.be.revertedWithCustomError(token, "CredentialNotActive").withArgs(0, SUSPENDED);
+    });
+  });
+
+  describe("Token metadata", function () {
+    const mintWithMetadata = "mintCredential(address,string,string,string,string,uint256,string)";
+
+    it("Should return the metadata URI recorded at mint", async function () {
+      await token[mintWithMetadata](
+        addr1.address,
+        "Bachelor of Science",
+        "Computer Science",
+        "Test University",
+        "QmMetadataHash",
+        0,
+        "ipfs://QmMetadataJson"
+      );
+
+      expect(await token.tokenURI(0)).to.equal("ipfs://QmMetadataJson");
+    });
+
+    it("Should return an empty URI for credentials minted without metadata", async function () {
+      await token.mintCredential(
+        addr1.address,
+        "Bachelor of Science",
+        "Computer Science",
+        "Test University",
+        "QmMetadataHash"
+      );
+
+      expect(await token.tokenURI(0)).to.equal("");
+      await expect(token.tokenURI(1)).to.be.revertedWithCustomError(token, "CredentialNotFound").withArgs(1);
+    });
+
+    it("Should record metadata URIs for batch mints", async function () {
+      await token.mintBatch([{
+        to: addr1.address,
+        title: "Graduate Certificate",
+        description: "Class of 2025",
+        issuer: "Test University",
+        ipfsHash: "QmBatchHash",
+        expiresAt: 0,
+        metadataURI: "ipfs://QmBatchMetadata",
+      }]);
+
+      expect(await token.tokenURI(0)).to.equal("ipfs://QmBatchMetadata");
+    });
+  });
+
+  describe("Meta-transactions", function () {
+    const forwardRequestTypes = {
+      ForwardRequest: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "gas", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint48" },
+        { name: "data", type: "bytes" },
+      ],
+    };
+
+    // Sign a forward request for a token call as `signer`, ready to pass to forwarder.execute
+    const signForwardRequest = async (signer, data) => {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = {
+        name: "EduCredForwarder",
+        version: "1",
+        chainId,
+        verifyingContract: await forwarder.getAddress(),
+      };
+      const request = {
+        from: signer.address,
+        to: await token.getAddress(),
+        value: 0,
+        gas: 500000,
+        nonce: await forwarder.nonces(signer.address),
+        deadline: (await time.latest()) + 3600,
+        data,
+      };
+      const signature = await signer.signTypedData(domain, forwardRequestTypes, request);
+      return { ...request, signature };
+    };
+
+    const mintCalldata = (to) => token.interface.encodeFunctionData(
+      "mintCredential(address,string,string,string,string)",
+      [to, "Relayed Degree", "Minted without gas", "Test University", "QmRelayedHash"]
+    );
+
+    beforeEach(async function () {
+      await token.grantRole(await token.ISSUER_ROLE(), addr1.address);
+    });
+
+    it("Should trust the forwarder it was deployed with", async function () {
+      expect(await token.isTrustedForwarder(await forwarder.getAddress())).to.be.true;
+      expect(await token.isTrustedForwarder(addr2.address)).to.be.false;
+    });
+
+    it("Should attribute relayed mints to the signing issuer", async function () {
+      const request = await signForwardRequest(addr1, mintCalldata(addr2.address));
+      const issuerBalance = await ethers.provider.getBalance(addr1.address);
+
+      // addr2 relays and pays for gas
+      await expect(forwarder.connect(addr2).execute(request))
+        .to.emit(token, "CredentialMinted")
+        .withArgs(0, addr2.address, addr1.address, "Relayed Degree", "QmRelayedHash");
+
+      expect(await token.ownerOf(0)).to.equal(addr2.address);
+      expect(await ethers.provider.getBalance(addr1.address)).to.equal(issuerBalance);
+      // Only the minting issuer or an admin may suspend
+      await expect(token.connect(addr1).suspendCredential(0, "Under review")).to.not.be.reverted;
+    });
+
+    it("Should reject relayed calls from accounts without the issuer role", async function () {
+      const request = await signForwardRequest(addr2, mintCalldata(addr2.address));
+
+      await expect(forwarder.execute(request)).to.be.reverted;
+      expect(await forwarder.nonces(addr2.address)).to.equal(0);
+    });
+
+    it("Should reject tampered or replayed requests", async function () {
+      const request = await signForwardRequest(addr1, mintCalldata(addr2.address));
+
+      const tampered = { ...request, data: mintCalldata(owner.address) };
+      expect(await forwarder.verify(tampered)).to.be.false;
+      await expect(forwarder.execute(tampered))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderInvalidSigner");
+
+      await forwarder.execute(request);
+      expect(await forwarder.verify(request)).to.be.false;
+      await expect(forwarder.execute(request))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderInvalidSigner");
+    });
+  });
+
+  describe("Amendments", function () {
+    const amend = (signer, oldTokenId, title, ipfsHash) =>
+      token.connect(signer).amendCredential(
+        oldTokenId,
+        title,
+        "Bachelor of Science in Computer Science",
+        "Test University",
+        ipfsHash,
+        0,
+        ""
+      );
+
+    beforeEach(async function () {
+      await token.grantRole(await token.ISSUER_ROLE(), addr1.address);
+      await token.connect(addr1).mintCredential(
+        addr2.address,
+        "Bachelor of Sceince",
+        "Bachelor of Science in Computer Science",
+        "Test University",
+        "QmOriginalHash"
+      );
+    });
+
+    it("Should mint a replacement to the same holder and supersede the original", async function () {
+      await expect(amend(addr1, 0, "Bachelor of Science", "QmCorrectedHash"))
+        .to.emit(token, "CredentialAmended")
+        .withArgs(0, 1);
+
+      expect(await token.ownerOf(1)).to.equal(addr2.address);
+      expect((await token.getCredential(0))[5]).to.equal(SUPERSEDED);
+      expect((await token.getCredential(1))[0]).to.equal("Bachelor of Science");
+      expect(await token.isValid(0)).to.be.false;
+      expect(await token.isValid(1)).to.be.true;
+
+      const [superseded, newTokenId] = await token.getSupersedingVersion(0);
+      expect(superseded).to.be.true;
+      expect(newTokenId).to.equal(1);
+      const [isAmendment, previousTokenId] = await token.getPreviousVersion(1);
+      expect(isAmendment).to.be.true;
+      expect(previousTokenId).to.equal(0);
+      expect((await token.getPreviousVersion(0))[0]).to.be.false;
+    });
+
+    it("Should follow the chain to the current version", async function () {
+      await amend(addr1, 0, "Bachelor of Science", "QmCorrectedHash");
+      await amend(owner, 1, "Bachelor of Science (Hons)", "QmHonoursHash");
+
+      expect(await token.getCurrentVersion(0)).to.equal(2);
+      expect(await token.getCurrentVersion(1)).to.equal(2);
+      expect(await token.getCurrentVersion(2)).to.equal(2);
+    });
+
+    it("Should skip burned versions when following the chain", async function () {
+      await amend(addr1, 0, "Bachelor of Science", "QmCorrectedHash");
+      await amend(owner, 1, "Bachelor of Science (Hons)", "QmHonoursHash");
+
+      // A burned intermediate version is skipped in both directions
+      await token.burnCredential(1);
+      expect(await token.getCurrentVersion(0)).to.equal(2);
+      const [found, previousTokenId] = await token.getPreviousVersion(2);
+      expect(found).to.be.true;
+      expect(previousTokenId).to.equal(0);
+
+      // With the newest version burned, the newest remaining version is current
+      await token.burnCredential(2);
+      expect(await token.getCurrentVersion(0)).to.equal(0);
+      await expect(token.getCurrentVersion(2)).to.be.revertedWithCustomError(token, "CredentialNotFound").withArgs(2);
+    });
+
+    it("Should let the replacement reuse the original document", async function () {
+      await amend(addr1, 0, "Bachelor of Science", "QmOriginalHash");
+
+      const [found, tokenId] = await token.getTokenIdByIpfsHash("QmOriginalHash");
+      expect(found).to.be.true;
+      expect(tokenId).to.equal(1);
+
+      // Burning the superseded token keeps the document registered to its replacement
+      await token.burnCredential(0);
+      expect((await token.getTokenIdByIpfsHash("QmOriginalHash"))[1]).to.equal(1);
+    });
+
+    it("Should only amend active credentials", async function () {
+      await amend(addr1, 0, "Bachelor of Science", "QmCorrectedHash");
+      await expect(amend(addr1, 0, "Again", "QmAgainHash"))
+        .to.be.revertedWithCustomError(token, "CredentialNotActive").withArgs(0, SUPERSEDED);
+      await expect(token.revokeCredential(0, "Typo")).to.be.revertedWithCustomError(token, "CredentialIsSuperseded").withArgs(0);
+
+      await token.unlockCredential(0);
+      await expect(
+        token.connect(addr2).transferFrom(addr2.address, owner.address, 0)
+      ).to.be.revertedWithCustomError(token, "CredentialNotActive").withArgs(0, SUPERSEDED);
+    });
+
+    it("Should restrict amendments to the minting issuer or an admin", async function () {
+      await token.grantRole(await token.ISSUER_ROLE(), addr2.address);
+      await expect(amend(addr2, 0, "Bachelor of Science", "QmCorrectedHash"))
+        .to.be.revertedWithCustomError(token, "NotCredentialIssuer").withArgs(0, addr2.address);
+    });
   });
 });
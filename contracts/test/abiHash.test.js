@@ -0,0 +1,26 @@
+const fs = require("fs");
+const path = require("path");
+const { expect } = require("chai");
+const { artifacts } = require("hardhat");
+const { abiHash } = require("../scripts/abi-hash");
+
+const CLIENT_FILE = path.join(__dirname, "..", "..", "src", "contracts", "EduCredToken.ts");
+
+describe("abiHash", function () {
+  it("Should hash an ABI to a 32-byte hex string that changes with the ABI", async function () {
+    const { abi } = await artifacts.readArtifact("EduCredToken");
+    const hash = abiHash(abi);
+
+    expect(hash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(abiHash(JSON.parse(JSON.stringify(abi)))).to.equal(hash);
+    expect(abiHash(abi.slice(1))).to.not.equal(hash);
+  });
+
+  it("Should match the hash in the generated client, so deployments are accepted by the web app", async function () {
+    const { abi } = await artifacts.readArtifact("EduCredToken");
+    const client = fs.readFileSync(CLIENT_FILE, "utf8");
+    const [, clientHash] = /EDU_CRED_TOKEN_ABI_HASH = '(0x[0-9a-f]{64})'/.exec(client);
+
+    expect(abiHash(abi)).to.equal(clientHash);
+  });
+});
@@ -0,0 +1,132 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { createRelayServer } = require("../scripts/relayer");
+
+describe("Relayer", function () {
+  let token;
+  let forwarder;
+  let server;
+  let relayUrl;
+  let relayer;
+  let issuer;
+  let holder;
+
+  const forwardRequestTypes = {
+    ForwardRequest: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "gas", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint48" },
+      { name: "data", type: "bytes" },
+    ],
+  };
+
+  // Sign a forward request for a token call as `signer`, in the JSON shape the app posts
+  const signForwardRequest = async (signer, data) => {
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = {
+      name: "EduCredForwarder",
+      version: "1",
+      chainId,
+      verifyingContract: await forwarder.getAddress(),
+    };
+    const request = {
+      from: signer.address,
+      to: await token.getAddress(),
+      value: 0,
+      gas: 500000,
+      nonce: await forwarder.nonces(signer.address),
+      deadline: (await time.latest()) + 3600,
+      data,
+    };
+    const signature = await signer.signTypedData(domain, forwardRequestTypes, request);
+    return {
+      from: request.from,
+      to: request.to,
+      value: "0",
+      gas: request.gas.toString(),
+      deadline: request.deadline,
+      data: request.data,
+      signature,
+    };
+  };
+
+  const mintCalldata = (to) => token.interface.encodeFunctionData(
+    "mintCredential(address,string,string,string,string)",
+    [to, "Relayed Degree", "Minted without gas", "Test University", "QmRelayedHash"]
+  );
+
+  const postRelay = async (request) => {
+    const response = await fetch(relayUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ request }),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async function () {
+    [relayer, issuer, holder] = await ethers.getSigners();
+    forwarder = await ethers.deployContract("EduCredForwarder");
+    token = await ethers.deployContract("EduCredToken", [await forwarder.getAddress()]);
+    await token.grantRole(await token.ISSUER_ROLE(), issuer.address);
+
+    server = createRelayServer({ forwarder: forwarder.connect(relayer), tokenAddress: await token.getAddress() });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    relayUrl = `http://127.0.0.1:${server.address().port}/relay`;
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("Should submit signed requests and pay their gas", async function () {
+    const request = await signForwardRequest(issuer, mintCalldata(holder.address));
+    const issuerBalance = await ethers.provider.getBalance(issuer.address);
+
+    const { status, body } = await postRelay(request);
+
+    expect(status).to.equal(200);
+    const receipt = await ethers.provider.getTransactionReceipt(body.txHash);
+    expect(receipt.from).to.equal(relayer.address);
+    expect(await token.ownerOf(0)).to.equal(holder.address);
+    expect(await token.issuerOf(0)).to.equal(issuer.address);
+    expect(await ethers.provider.getBalance(issuer.address)).to.equal(issuerBalance);
+  });
+
+  it("Should reject tampered requests without sending a transaction", async function () {
+    const request = await signForwardRequest(issuer, mintCalldata(holder.address));
+    const relayerNonce = await ethers.provider.getTransactionCount(relayer.address);
+
+    const { status, body } = await postRelay({ ...request, data: mintCalldata(relayer.address) });
+
+    expect(status).to.equal(400);
+    expect(body.error).to.equal("Invalid signature, nonce or deadline");
+    expect(await ethers.provider.getTransactionCount(relayer.address)).to.equal(relayerNonce);
+  });
+
+  it("Should reject requests that would revert without sending a transaction", async function () {
+    // The holder does not have the issuer role
+    const request = await signForwardRequest(holder, mintCalldata(holder.address));
+    const relayerNonce = await ethers.provider.getTransactionCount(relayer.address);
+
+    const { status, body } = await postRelay(request);
+
+    expect(status).to.equal(400);
+    expect(body.error).to.be.a("string").and.not.be.empty;
+    expect(await ethers.provider.getTransactionCount(relayer.address)).to.equal(relayerNonce);
+    expect(await forwarder.nonces(holder.address)).to.equal(0);
+  });
+
+  it("Should only relay calls to the EduCred token", async function () {
+    const request = await signForwardRequest(issuer, mintCalldata(holder.address));
+
+    const { status, body } = await postRelay({ ...request, to: await forwarder.getAddress() });
+
+    expect(status).to.equal(400);
+    expect(body.error).to.equal("Request must target the EduCred token");
+  });
+});
@@ -0,0 +1,134 @@
+// roleService.test.ts
+import { isAdmin, isIssuer } from './src/services/contractService';
+import {
+  getCachedRoles,
+  resolveRoles,
+  invalidateRoles,
+  hasRequiredRole,
+  onRolesChange
+} from './src/services/roleService';
+
+// Roles are read from the contract through these two calls
+jest.mock('./src/services/contractService', () => ({
+  isIssuer: jest.fn(),
+  isAdmin: jest.fn()
+}));
+
+const issuer = '0x1234567890AbcdEF1234567890aBcdef12345678';
+const holder = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+describe('Role Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    invalidateRoles();
+
+    (isIssuer as jest.Mock).mockImplementation(async (address: string) => address.toLowerCase() === issuer.toLowerCase());
+    (isAdmin as jest.Mock).mockResolvedValue(false);
+  });
+
+  describe('resolveRoles', () => {
+    it('should read the roles from the contract and cache them', async () => {
+      expect(getCachedRoles(issuer, 80002)).toBeNull();
+
+      const roles = await resolveRoles(issuer, 80002);
+
+      expect(roles).toEqual({ issuer: true, admin: false });
+      expect(getCachedRoles(issuer, 80002)).toEqual(roles);
+      expect(isIssuer).toHaveBeenCalledWith(issuer);
+      expect(isAdmin).toHaveBeenCalledWith(issuer);
+    });
+
+    it('should key the cache by chain and lowercased address', async () => {
+      await resolveRoles(issuer, 80002);
+
+      await resolveRoles(issuer.toLowerCase(), 80002);
+      expect(isIssuer).toHaveBeenCalledTimes(1);
+      expect(getCachedRoles(issuer.toLowerCase(), 80002)).toEqual({ issuer: true, admin: false });
+
+      // The same account on another chain is looked up again
+      expect(getCachedRoles(issuer, 137)).toBeNull();
+      (isIssuer as jest.Mock).mockResolvedValueOnce(false);
+      expect(await resolveRoles(issuer, 137)).toEqual({ issuer: false, admin: false });
+      expect(isIssuer).toHaveBeenCalledTimes(2);
+      expect(getCachedRoles(issuer, 80002)).toEqual({ issuer: true, admin: false });
+    });
+
+    it('should share one lookup between concurrent requests', async () => {
+      const [first, second] = await Promise.all([resolveRoles(holder, 80002), resolveRoles(holder, 80002)]);
+
+      expect(first).toBe(second);
+      expect(isIssuer).toHaveBeenCalledTimes(1);
+      expect(isAdmin).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache failed lookups', async () => {
+      (isAdmin as jest.Mock).mockRejectedValueOnce(new Error('network error'));
+
+      await expect(resolveRoles(holder, 80002)).rejects.toThrow('network error');
+      expect(getCachedRoles(holder, 80002)).toBeNull();
+
+      expect(await resolveRoles(holder, 80002)).toEqual({ issuer: false, admin: false });
+    });
+  });
+
+  describe('invalidateRoles', () => {
+    it('should forget one account on every chain', async () => {
+      await resolveRoles(issuer, 80002);
+      await resolveRoles(issuer, 137);
+      await resolveRoles(holder, 80002);
+
+      invalidateRoles(issuer.toLowerCase());
+
+      expect(getCachedRoles(issuer, 80002)).toBeNull();
+      expect(getCachedRoles(issuer, 137)).toBeNull();
+      expect(getCachedRoles(holder, 80002)).not.toBeNull();
+    });
+
+    it('should forget every account when no address is given', async () => {
+      await resolveRoles(issuer, 80002);
+      await resolveRoles(holder, 80002);
+
+      invalidateRoles();
+
+      expect(getCachedRoles(issuer, 80002)).toBeNull();
+      expect(getCachedRoles(holder, 80002)).toBeNull();
+    });
+
+    it('should notify listeners until they unregister', () => {
+      const listener = jest.fn();
+      const unsubscribe = onRolesChange(listener);
+
+      invalidateRoles(issuer);
+      unsubscribe();
+      invalidateRoles();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('hasRequiredRole', () => {
+    const holderRoles = { issuer: false, admin: false };
+    const issuerRoles = { issuer: true, admin: false };
+    const adminRoles = { issuer: false, admin: true };
+
+    it('should let every account through holder pages', () => {
+      expect(hasRequiredRole(holderRoles, 'holder')).toBe(true);
+      expect(hasRequiredRole(issuerRoles, 'holder')).toBe(true);
+      expect(hasRequiredRole(adminRoles, 'holder')).toBe(true);
+    });
+
+    it('should require the matching contract role', () => {
+      expect(hasRequiredRole(holderRoles, 'issuer')).toBe(false);
+      expect(hasRequiredRole(issuerRoles, 'issuer')).toBe(true);
+      expect(hasRequiredRole(adminRoles, 'issuer')).toBe(false);
+      expect(hasRequiredRole(issuerRoles, 'admin')).toBe(false);
+      expect(hasRequiredRole(adminRoles, 'admin')).toBe(true);
+    });
+
+    it('should accept any of several roles', () => {
+      expect(hasRequiredRole(holderRoles, ['issuer', 'admin'])).toBe(false);
+      expect(hasRequiredRole(issuerRoles, ['issuer', 'admin'])).toBe(true);
+      expect(hasRequiredRole(adminRoles, ['issuer', 'admin'])).toBe(true);
+    });
+  });
+});
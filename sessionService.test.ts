@@ -0,0 +1,189 @@
+// sessionService.test.ts
+import { ethers } from 'ethers';
+import { getSession, onSessionChange, signIn, signOut, Session } from './src/services/sessionService';
+import { parseSiweMessage } from './src/utils/siwe';
+import { AuthenticationError, ValidationError } from './src/utils/errors';
+
+// Wallet requests go to whatever window.ethereum is, as if the user had picked it
+jest.mock('./src/services/walletProviders', () => ({
+  getEthereumProvider: jest.fn(() => global.window?.ethereum ?? null)
+}));
+
+// The wallet signs with a real key, so signatures verify as they would in the browser
+const wallet = ethers.Wallet.createRandom();
+
+const mockEthereum = {
+  request: jest.fn(async ({ method, params }: { method: string; params?: unknown[] }) => {
+    if (method === 'eth_chainId') {
+      return '0x13882';
+    }
+    if (method === 'personal_sign') {
+      return wallet.signMessage(ethers.utils.arrayify(params?.[0] as string));
+    }
+    throw new Error(`Unexpected request ${method}`);
+  }),
+  on: jest.fn(),
+  removeListener: jest.fn()
+};
+
+// Sessions are persisted to local storage
+const mockStorage = new Map<string, string>();
+global.localStorage = {
+  getItem: (key: string) => mockStorage.get(key) ?? null,
+  setItem: (key: string, value: string) => mockStorage.set(key, value),
+  removeItem: (key: string) => mockStorage.delete(key)
+} as unknown as Storage;
+
+const storedSession = (): Session => JSON.parse(mockStorage.get('educred.session') ?? 'null');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Session Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockStorage.clear();
+
+    global.window = {
+      ethereum: mockEthereum,
+      location: { host: 'educred.app', origin: 'https://educred.app' },
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn()
+    } as unknown as Window & typeof globalThis;
+  });
+
+  afterEach(() => {
+    signOut();
+    jest.useRealTimers();
+  });
+
+  describe('signIn', () => {
+    it('should store a session signed for this site that expires after a day', async () => {
+      const session = await signIn(wallet.address.toLowerCase(), 80002);
+      const message = parseSiweMessage(session.message);
+
+      expect(session.address).toBe(wallet.address);
+      expect(message).toMatchObject({
+        domain: 'educred.app',
+        uri: 'https://educred.app',
+        address: wallet.address,
+        chainId: 80002
+      });
+      expect(Date.parse(message.expirationTime as string) - Date.parse(message.issuedAt)).toBe(DAY_MS);
+      expect(storedSession()).toEqual(session);
+      expect(getSession()).toEqual(session);
+    });
+
+    it('should notify listeners', async () => {
+      const listener = jest.fn();
+      const unsubscribe = onSessionChange(listener);
+
+      await signIn(wallet.address, 80002);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+
+    it('should refuse to sign in without a wallet', async () => {
+      global.window.ethereum = undefined;
+
+      await expect(signIn(wallet.address, 80002)).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse signatures from another account', async () => {
+      const other = ethers.Wallet.createRandom();
+
+      await expect(signIn(other.address, 80002)).rejects.toThrow(AuthenticationError);
+      expect(getSession()).toBeNull();
+    });
+  });
+
+  describe('getSession', () => {
+    it('should discard sessions whose message was tampered with', async () => {
+      const session = await signIn(wallet.address, 80002);
+      mockStorage.set('educred.session', JSON.stringify({
+        ...session,
+        message: session.message.replace('Chain ID: 80002', 'Chain ID: 137')
+      }));
+
+      expect(getSession()).toBeNull();
+      expect(mockStorage.has('educred.session')).toBe(false);
+    });
+
+    it('should discard sessions signed for another site', async () => {
+      await signIn(wallet.address, 80002);
+      global.window.location = { host: 'evil.example', origin: 'https://evil.example' } as Location;
+
+      expect(getSession()).toBeNull();
+    });
+
+    it('should discard expired sessions and notify listeners when they expire', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+      await signIn(wallet.address, 80002);
+      const listener = jest.fn();
+      const unsubscribe = onSessionChange(listener);
+
+      jest.advanceTimersByTime(DAY_MS - 1);
+      expect(listener).not.toHaveBeenCalled();
+      expect(getSession()).not.toBeNull();
+
+      jest.advanceTimersByTime(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(getSession()).toBeNull();
+      unsubscribe();
+    });
+
+    it('should schedule the expiry of a session restored from storage', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+      const session = await signIn(wallet.address, 80002);
+      // As if the page had been reloaded an hour later
+      jest.clearAllTimers();
+      jest.setSystemTime(new Date('2026-01-01T01:00:00.000Z'));
+      const listener = jest.fn();
+      const unsubscribe = onSessionChange(listener);
+
+      expect(getSession()).toEqual(session);
+      jest.advanceTimersByTime(DAY_MS - 60 * 60 * 1000);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(getSession()).toBeNull();
+      unsubscribe();
+    });
+  });
+
+  describe('signOut', () => {
+    it('should remove the session and notify listeners', async () => {
+      await signIn(wallet.address, 80002);
+      const listener = jest.fn();
+      const unsubscribe = onSessionChange(listener);
+
+      signOut();
+
+      expect(getSession()).toBeNull();
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+
+    it('should revoke the nonce so a copy of the session no longer verifies', async () => {
+      const session = await signIn(wallet.address, 80002);
+      const { nonce } = parseSiweMessage(session.message);
+
+      signOut();
+      mockStorage.set('educred.session', JSON.stringify(session));
+
+      expect(JSON.parse(mockStorage.get('educred.revokedSessions') ?? '{}')).toEqual({ [nonce]: session.expiresAt });
+      expect(getSession()).toBeNull();
+    });
+
+    it('should not affect sessions signed in afterwards', async () => {
+      await signIn(wallet.address, 80002);
+      signOut();
+
+      const session = await signIn(wallet.address, 80002);
+
+      expect(getSession()).toEqual(session);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+// siwe.test.ts
+import { ValidationError } from './src/utils/errors';
+import { SIWE_VERSION, SiweMessage, formatSiweMessage, generateNonce, parseSiweMessage } from './src/utils/siwe';
+
+const message: SiweMessage = {
+  domain: 'educred.app',
+  address: '0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B',
+  statement: 'Sign in to EduCred Chain.',
+  uri: 'https://educred.app',
+  version: SIWE_VERSION,
+  chainId: 80002,
+  nonce: 'a1B2c3D4e5F6g7H8',
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expirationTime: '2026-01-02T00:00:00.000Z'
+};
+
+describe('Sign-In with Ethereum messages', () => {
+  describe('formatSiweMessage', () => {
+    it('should render the EIP-4361 text format', () => {
+      expect(formatSiweMessage(message)).toBe([
+        'educred.app wants you to sign in with your Ethereum account:',
+        '0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B',
+        '',
+        'Sign in to EduCred Chain.',
+        '',
+        'URI: https://educred.app',
+        'Version: 1',
+        'Chain ID: 80002',
+        'Nonce: a1B2c3D4e5F6g7H8',
+        'Issued At: 2026-01-01T00:00:00.000Z',
+        'Expiration Time: 2026-01-02T00:00:00.000Z'
+      ].join('\n'));
+    });
+  });
+
+  describe('parseSiweMessage', () => {
+    it('should read back a formatted message', () => {
+      expect(parseSiweMessage(formatSiweMessage(message))).toEqual(message);
+    });
+
+    it('should read back a message without a statement, with every optional field', () => {
+      const full: SiweMessage = {
+        ...message,
+        statement: undefined,
+        notBefore: '2026-01-01T01:00:00.000Z',
+        requestId: 'request-1'
+      };
+
+      expect(parseSiweMessage(formatSiweMessage(full))).toEqual(full);
+    });
+
+    it('should reject text that is not a sign-in message', () => {
+      expect(() => parseSiweMessage('Please sign this')).toThrow(ValidationError);
+      expect(() => parseSiweMessage('Please sign this')).toThrow('Invalid sign-in message: missing header');
+    });
+
+    it('should reject addresses that are not checksummed', () => {
+      const text = formatSiweMessage({ ...message, address: message.address.toLowerCase() });
+
+      expect(() => parseSiweMessage(text)).toThrow('address is not checksummed');
+    });
+
+    it('should reject short or non-alphanumeric nonces', () => {
+      expect(() => parseSiweMessage(formatSiweMessage({ ...message, nonce: 'abc123' }))).toThrow('Nonce must be');
+      expect(() => parseSiweMessage(formatSiweMessage({ ...message, nonce: 'abcd-1234' }))).toThrow('Nonce must be');
+    });
+
+    it('should reject missing fields, other versions and malformed timestamps', () => {
+      const withoutNonce = formatSiweMessage(message).replace('Nonce: a1B2c3D4e5F6g7H8\n', '');
+
+      expect(() => parseSiweMessage(withoutNonce)).toThrow('missing Nonce');
+      expect(() => parseSiweMessage(formatSiweMessage({ ...message, version: '2' }))).toThrow('unsupported version 2');
+      expect(() => parseSiweMessage(formatSiweMessage({ ...message, expirationTime: 'tomorrow' }))).toThrow('timestamps must be ISO 8601');
+    });
+
+    it('should reject unexpected lines', () => {
+      const text = `${formatSiweMessage(message)}\nsomething else`;
+
+      expect(() => parseSiweMessage(text)).toThrow('unexpected line "something else"');
+    });
+  });
+
+  describe('generateNonce', () => {
+    it('should generate distinct 16-character alphanumeric nonces', () => {
+      const first = generateNonce();
+      const second = generateNonce();
+
+      expect(first).toMatch(/^[A-Za-z0-9]{16}$/);
+      expect(second).toMatch(/^[A-Za-z0-9]{16}$/);
+      expect(first).not.toBe(second);
+    });
+  });
+});
@@ -1,11 +1,15 @@
 import React from 'react';
 import { Routes, Route, useNavigate } from 'react-router-dom';
-import { WalletProvider } from './contexts/WalletContext';
 import { ThemeProvider } from './contexts/ThemeContext';
 import Navbar from './components/layout/Navbar';
 import HomePage from './pages/HomePage';
 import DashboardPage from './pages/DashboardPage';
 import UploadPage from './pages/UploadPage';
+import VerifyPage from './pages/VerifyPage';
+import AdminPage from './pages/AdminPage';
+import BatchIssuePage from './pages/BatchIssuePage';
+import RevocationHistoryPage from './pages/RevocationHistoryPage';
+import IssuerConsolePage from './pages/IssuerConsolePage';
 import Footer from './components/layout/Footer';
 import ProtectedRoute from './components/auth/ProtectedRoute';
 
@@ -14,33 +18,58 @@ function App() {
 
   return (
     <ThemeProvider>
-      <WalletProvider>
-        <div className="flex flex-col min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 transition-colors duration-200">
-          <Navbar />
-          <main className="flex-grow">
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route 
-                path="/dashboard" 
-                element={
-                  <ProtectedRoute>
-                    <DashboardPage />
-                  </ProtectedRoute>
-                } 
-              />
-              <Route 
-                path="/upload" 
-                element={
-                  <ProtectedRoute>
-                    <UploadPage />
-                  </ProtectedRoute>
-                } 
-              />
-            </Routes>
-          </main>
-          <Footer />
-        </div>
-      </WalletProvider>
+      <div className="flex flex-col min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 transition-colors duration-200">
+        <Navbar />
+        <main className="flex-grow">
+          <Routes>
+            <Route path="/" element={<HomePage />} />
+            <Route path="/verify" element={<VerifyPage />} />
+            <Route path="/verify/:tokenId" element={<VerifyPage />} />
+            <Route path="/dashboard" element={<DashboardPage />} />
+            <Route 
+              path="/upload" 
+              element={
+                <ProtectedRoute requiredRole="issuer">
+                  <UploadPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/issuer" 
+              element={
+                <ProtectedRoute requiredRole="issuer">
+                  <IssuerConsolePage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/issuer/batch" 
+              element={
+                <ProtectedRoute requiredRole="issuer">
+                  <BatchIssuePage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/issuer/revocations" 
+              element={
+                <ProtectedRoute requiredRole={['issuer', 'admin']}>
+                  <RevocationHistoryPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin" 
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <AdminPage />
+                </ProtectedRoute>
+              } 
+            />
+          </Routes>
+        </main>
+        <Footer />
+      </div>
     </ThemeProvider>
   );
 }
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X, Send, Brain, Sparkles, User } from 'lucide-react';
 import { Credential } from '../../contexts/CredentialsContext';
+import { getSelectedNetwork } from '../../utils/networks';
 
 interface AIInteractionProps {
   credential: Credential;
@@ -41,7 +42,7 @@ const AIInteraction: React.FC<AIInteractionProps> = ({ credential, isOpen, onClo
       if (question.toLowerCase().includes('summarize') || question.toLowerCase().includes('summary')) {
         response = `This credential covers ${credential.name}, issued by ${credential.issuer}. It demonstrates proficiency in blockchain technology, smart contracts, and decentralized applications. The course covered fundamental concepts including distributed ledgers, consensus mechanisms, and practical implementation of Web3 technologies.`;
       } else if (question.toLowerCase().includes('verify') || question.toLowerCase().includes('authentic')) {
-        response = `This credential has been verified on the Polygon Mumbai blockchain with token ID: ${credential.tokenId}. The content hash stored on IPFS (${credential.ipfsHash.substring(0, 10)}...) ensures that the credential content has not been altered since issuance.`;
+        response = `This credential has been verified on the ${getSelectedNetwork().name} blockchain with token ID: ${credential.tokenId}. The content hash stored on IPFS (${credential.ipfsHash.substring(0, 10)}...) ensures that the credential content has not been altered since issuance.`;
       } else if (question.toLowerCase().includes('when') || question.toLowerCase().includes('date') || question.toLowerCase().includes('issued')) {
         response = `This credential was issued on ${new Date(credential.issueDate).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })} by ${credential.issuer}.`;
       } else if (question.toLowerCase().includes('topic') || question.toLowerCase().includes('covered')) {
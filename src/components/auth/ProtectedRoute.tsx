@@ -1,28 +1,71 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { ShieldCheck, Loader2 } from 'lucide-react';
 import { useWallet } from '../../contexts/WalletContext';
+import { UserRole, hasRequiredRole } from '../../services/roleService';
+import UnauthorizedPage from '../../pages/UnauthorizedPage';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // The role, or any of the roles, the page needs; every signed-in holder may open it by default
+  requiredRole?: UserRole | UserRole[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { address, isConnecting } = useWallet();
+const renderSpinner = (label: string) => (
+  <div className="min-h-[60vh] flex flex-col items-center justify-center">
+    <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
+    <p className="mt-4 text-lg text-gray-600">{label}</p>
+  </div>
+);
 
-  if (isConnecting) {
+// Protected pages need a connected wallet, a Sign-In with Ethereum session for its address and, for
+// issuer and admin pages, the matching contract role
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole = 'holder' }) => {
+  const { address, isConnecting, isRestoring, isAuthenticated, isSigningIn, signIn, roles, rolesError } = useWallet();
+
+  if (isConnecting || isRestoring) {
+    return renderSpinner('Connecting to wallet...');
+  }
+
+  if (!address) {
+    return <UnauthorizedPage />;
+  }
+
+  if (!isAuthenticated) {
     return (
-      <div className="min-h-[60vh] flex flex-col items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
-        <p className="mt-4 text-lg text-gray-600">Connecting to wallet...</p>
+      <div className="min-h-[60vh] flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm p-8 max-w-md text-center">
+          <ShieldCheck className="mx-auto h-12 w-12 text-primary-600" />
+          <h2 className="mt-4 text-xl font-bold text-gray-900">Sign in to continue</h2>
+          <p className="mt-2 text-gray-600">
+            Sign a message with your wallet to prove you control this address. It sends no transaction and
+            costs no gas; the session lasts a day or until you disconnect.
+          </p>
+          <button
+            onClick={signIn}
+            disabled={isSigningIn}
+            className="btn-primary mt-6 inline-flex items-center disabled:opacity-50"
+          >
+            {isSigningIn && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isSigningIn ? 'Waiting for signature...' : 'Sign In with Ethereum'}
+          </button>
+        </div>
       </div>
     );
   }
 
-  if (!address) {
-    return <Navigate to="/" replace />;
+  if (requiredRole !== 'holder') {
+    if (rolesError) {
+      return <UnauthorizedPage requiredRole={requiredRole} />;
+    }
+    if (!roles) {
+      return renderSpinner('Checking your role...');
+    }
+    if (!hasRequiredRole(roles, requiredRole)) {
+      return <UnauthorizedPage requiredRole={requiredRole} />;
+    }
   }
 
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
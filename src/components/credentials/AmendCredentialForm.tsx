@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PencilLine, Search, ArrowRight } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { amendCredential, getCredential, CredentialDetails } from '../../services/contractService';
+import { uploadToIPFS, uploadCredentialMetadata } from '../../services/ipfsService';
+import { generatePDFPreview } from '../../services/pdfService';
+import { toAppError } from '../../utils/errors';
+
+const toDateInputValue = (date: Date | null) => (date ? date.toISOString().split('T')[0] : '');
+
+const AmendCredentialForm: React.FC = () => {
+  const [tokenId, setTokenId] = useState('');
+  const [original, setOriginal] = useState<CredentialDetails | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [issuer, setIssuer] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [correctedDocument, setCorrectedDocument] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAmending, setIsAmending] = useState(false);
+  const [amendedTokenId, setAmendedTokenId] = useState<number | null>(null);
+
+  const loadCredential = async () => {
+    try {
+      setIsLoading(true);
+      setAmendedTokenId(null);
+      const details = await getCredential(Number(tokenId));
+      if (details.status !== 'active') {
+        toast.error(`Credential #${tokenId} is ${details.status} and cannot be amended`);
+        setOriginal(null);
+        return;
+      }
+      setOriginal(details);
+      setTitle(details.title);
+      setDescription(details.description);
+      setIssuer(details.issuer);
+      setExpiresAt(toDateInputValue(details.expiresAt));
+      setCorrectedDocument(null);
+    } catch (err) {
+      console.error('Error loading credential:', err);
+      toast.error(toAppError(err, 'Failed to load credential').message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAmend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!original) return;
+
+    try {
+      setIsAmending(true);
+      const expiryDate = expiresAt ? new Date(expiresAt) : undefined;
+
+      // Keep the registered document unless a corrected one is provided
+      let ipfsHash = original.ipfsHash;
+      let metadataURI: string | undefined;
+      if (correctedDocument) {
+        ipfsHash = await uploadToIPFS(correctedDocument);
+        metadataURI = await uploadCredentialMetadata(
+          { title, description, issuer, issueDate: new Date(), ipfsHash, expiresAt: expiryDate },
+          await generatePDFPreview(correctedDocument)
+        );
+      }
+
+      const newTokenId = await amendCredential(Number(tokenId), {
+        title: title.trim(),
+        description: description.trim(),
+        issuer: issuer.trim(),
+        ipfsHash,
+        expiresAt: expiryDate,
+        metadataURI,
+      });
+      toast.success(`Credential #${tokenId} amended as #${newTokenId}`);
+      setAmendedTokenId(newTokenId);
+      setOriginal(null);
+      setTokenId('');
+    } catch (err) {
+      console.error('Error amending credential:', err);
+      toast.error(toAppError(err, 'Failed to amend credential').message);
+    } finally {
+      setIsAmending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleAmend} className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-900 mb-2">Amend a Credential</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Correct a mistake by issuing a replacement to the same holder. The original is marked as superseded and links to the new version.
+      </p>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <input
+          type="number"
+          min="0"
+          className="input md:w-40"
+          placeholder="Token ID"
+          value={tokenId}
+          onChange={(e) => {
+            setTokenId(e.target.value);
+            setOriginal(null);
+          }}
+        />
+        <button
+          type="button"
+          onClick={loadCredential}
+          disabled={tokenId === '' || isLoading}
+          className="btn-outline flex items-center justify-center whitespace-nowrap disabled:opacity-50"
+        >
+          <Search className="w-4 h-4 mr-2" />
+          {isLoading ? 'Loading...' : 'Load Credential'}
+        </button>
+      </div>
+
+      {amendedTokenId !== null && (
+        <Link
+          to={`/verify/${amendedTokenId}`}
+          className="inline-flex items-center text-sm font-medium text-primary-600 hover:text-primary-700 mt-4"
+        >
+          View the amended credential (#{amendedTokenId})
+          <ArrowRight className="w-4 h-4 ml-1" />
+        </Link>
+      )}
+
+      {original && (
+        <div className="mt-6 space-y-4">
+          <div>
+            <label htmlFor="amend-title" className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input id="amend-title" type="text" className="input" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="amend-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              id="amend-description"
+              className="input"
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="amend-issuer" className="block text-sm font-medium text-gray-700 mb-1">Issuer</label>
+              <input id="amend-issuer" type="text" className="input" value={issuer} onChange={(e) => setIssuer(e.target.value)} />
+            </div>
+            <div>
+              <label htmlFor="amend-expires" className="block text-sm font-medium text-gray-700 mb-1">
+                Expiry Date <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <input id="amend-expires" type="date" className="input" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="amend-document" className="block text-sm font-medium text-gray-700 mb-1">
+              Corrected Document <span className="text-gray-400 font-normal">(optional)</span>
+            </label>
+            <input
+              id="amend-document"
+              type="file"
+              accept="application/pdf"
+              className="block text-sm text-gray-600"
+              onChange={(e) => setCorrectedDocument(e.target.files?.[0] ?? null)}
+            />
+            <p className="mt-1 text-sm text-gray-500">Leave empty to keep the original document.</p>
+          </div>
+          <button
+            type="submit"
+            disabled={!title.trim() || !description.trim() || !issuer.trim() || isAmending}
+            className="btn-primary flex items-center justify-center disabled:opacity-50"
+          >
+            <PencilLine className="w-4 h-4 mr-2" />
+            {isAmending ? 'Amending...' : `Amend #${tokenId}`}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default AmendCredentialForm;
@@ -1,6 +1,40 @@
 import React from 'react';
-import { Shield, Calendar, Building, Brain } from 'lucide-react';
-import { Credential } from '../../contexts/CredentialsContext';
+import { Shield, Calendar, Building, Brain, Lock, Clock, PenLine, Loader2, AlertTriangle } from 'lucide-react';
+import { Credential, CredentialAnchoring } from '../../contexts/CredentialsContext';
+import ExpiryBadge from './ExpiryBadge';
+import StatusBadge from './StatusBadge';
+import { getExpiryStatus } from '../../utils/expiry';
+
+// Badge for an on-chain credential: only a mint at its network's confirmation depth counts as anchored
+const AnchoringBadge: React.FC<{ anchoring?: CredentialAnchoring }> = ({ anchoring }) => {
+  const badgeClass = 'absolute top-2 right-2 text-white text-xs font-medium py-1 px-2 rounded-full flex items-center';
+
+  if (!anchoring || anchoring.state === 'final') {
+    return (
+      <div className={`${badgeClass} bg-primary-600`}>
+        <Shield className="w-3 h-3 mr-1" />
+        Verified
+      </div>
+    );
+  }
+  if (anchoring.state === 'submitted' || anchoring.state === 'included') {
+    return (
+      <div
+        className={`${badgeClass} bg-warning-500`}
+        title="The mint can still be undone by a chain reorganization until it reaches the network's confirmation depth"
+      >
+        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+        Confirming {anchoring.confirmations}/{anchoring.requiredConfirmations}
+      </div>
+    );
+  }
+  return (
+    <div className={`${badgeClass} bg-error-600`} title="The mint transaction did not make it onto the chain">
+      <AlertTriangle className="w-3 h-3 mr-1" />
+      Not anchored
+    </div>
+  );
+};
 
 interface CredentialCardProps {
   credential: Credential;
@@ -26,13 +60,36 @@ const CredentialCard: React.FC<CredentialCardProps> = ({ credential, onClick })
           alt={credential.name} 
           className="w-full h-full object-cover"
         />
-        <div className="absolute top-2 right-2 bg-primary-600 text-white text-xs font-medium py-1 px-2 rounded-full flex items-center">
-          <Shield className="w-3 h-3 mr-1" />
-          Verified
-        </div>
+        {credential.source === 'signed' ? (
+          <div
+            className="absolute top-2 right-2 bg-secondary-600 text-white text-xs font-medium py-1 px-2 rounded-full flex items-center"
+            title="Issued off-chain with the issuer's signature"
+          >
+            <PenLine className="w-3 h-3 mr-1" />
+            Signed
+          </div>
+        ) : (
+          <AnchoringBadge anchoring={credential.anchoring} />
+        )}
+        {credential.isLocked && (
+          <div
+            className="absolute top-2 left-2 bg-gray-900/80 text-white text-xs font-medium py-1 px-2 rounded-full flex items-center"
+            title="This credential is bound to its holder's wallet and cannot be transferred"
+          >
+            <Lock className="w-3 h-3 mr-1" />
+            Soulbound
+          </div>
+        )}
       </div>
       
       {/* Credential Info */}
+      <div className="mb-2">
+        {credential.status && credential.status !== 'active' ? (
+          <StatusBadge status={credential.status} />
+        ) : (
+          <ExpiryBadge status={getExpiryStatus(credential.expiresAt)} />
+        )}
+      </div>
       <h3 className="text-lg font-bold text-gray-900 line-clamp-2 mb-2">
         {credential.name}
       </h3>
@@ -46,6 +103,12 @@ const CredentialCard: React.FC<CredentialCardProps> = ({ credential, onClick })
           <Calendar className="w-4 h-4 mr-2 text-gray-400" />
           <span>Issued on {formatDate(credential.issueDate)}</span>
         </div>
+        {credential.expiresAt && (
+          <div className="flex items-center text-sm text-gray-600">
+            <Clock className="w-4 h-4 mr-2 text-gray-400" />
+            <span>Expires on {formatDate(credential.expiresAt)}</span>
+          </div>
+        )}
       </div>
       
       {/* Summary Preview */}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { CheckCircle, Clock, XCircle } from 'lucide-react';
+import { ExpiryStatus, expiryStatusLabels } from '../../utils/expiry';
+
+interface ExpiryBadgeProps {
+  status: ExpiryStatus;
+}
+
+const badgeStyles: Record<ExpiryStatus, { className: string; Icon: typeof CheckCircle }> = {
+  active: { className: 'bg-success-100 text-success-700', Icon: CheckCircle },
+  expiring: { className: 'bg-warning-100 text-warning-700', Icon: Clock },
+  expired: { className: 'bg-error-100 text-error-700', Icon: XCircle },
+};
+
+const ExpiryBadge: React.FC<ExpiryBadgeProps> = ({ status }) => {
+  const { className, Icon } = badgeStyles[status];
+
+  return (
+    <span className={`inline-flex items-center text-xs font-medium py-1 px-2 rounded-full ${className}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {expiryStatusLabels[status]}
+    </span>
+  );
+};
+
+export default ExpiryBadge;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { CheckCircle, PauseCircle, Ban, History } from 'lucide-react';
+import { CredentialStatus } from '../../services/contractService';
+
+interface StatusBadgeProps {
+  status: CredentialStatus;
+}
+
+const badgeStyles: Record<CredentialStatus, { label: string; className: string; Icon: typeof CheckCircle }> = {
+  active: { label: 'Active', className: 'bg-success-100 text-success-700', Icon: CheckCircle },
+  suspended: { label: 'Suspended', className: 'bg-warning-100 text-warning-700', Icon: PauseCircle },
+  revoked: { label: 'Revoked', className: 'bg-error-100 text-error-700', Icon: Ban },
+  superseded: { label: 'Superseded', className: 'bg-gray-100 text-gray-700', Icon: History },
+};
+
+const StatusBadge: React.FC<StatusBadgeProps> = ({ status }) => {
+  const { label, className, Icon } = badgeStyles[status];
+
+  return (
+    <span className={`inline-flex items-center text-xs font-medium py-1 px-2 rounded-full ${className}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {label}
+    </span>
+  );
+};
+
+export default StatusBadge;
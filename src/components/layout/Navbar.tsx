@@ -2,13 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Menu, X, Shield, Moon, Sun } from 'lucide-react';
 import { WalletButton } from '../wallet/WalletButton';
+import { NetworkSwitcher } from '../wallet/NetworkSwitcher';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useWallet } from '../../contexts/WalletContext';
+import { UserRole, hasRequiredRole } from '../../services/roleService';
 
 const Navbar = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
   const location = useLocation();
   const { theme, toggleTheme } = useTheme();
+  const { roles } = useWallet();
 
   const toggleMenu = () => {
     setIsMenuOpen(!isMenuOpen);
@@ -27,11 +31,16 @@ const Navbar = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const navLinks = [
+  // Links with a role only show once the connected account is known to hold it
+  const allNavLinks: Array<{ name: string; path: string; role?: UserRole | UserRole[] }> = [
     { name: 'Home', path: '/' },
     { name: 'Dashboard', path: '/dashboard' },
-    { name: 'Upload', path: '/upload' },
+    { name: 'Issuer Console', path: '/issuer', role: 'issuer' },
+    { name: 'Revocations', path: '/issuer/revocations', role: ['issuer', 'admin'] },
+    { name: 'Verify', path: '/verify' },
+    { name: 'Admin', path: '/admin', role: 'admin' },
   ];
+  const navLinks = allNavLinks.filter(link => !link.role || (roles && hasRequiredRole(roles, link.role)));
 
   return (
     <nav className={`sticky top-0 z-50 transition-all duration-300 ${
@@ -71,6 +80,7 @@ const Navbar = () => {
             >
               {theme === 'dark' ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
+            <NetworkSwitcher />
             <WalletButton />
           </div>
 
@@ -113,7 +123,8 @@ const Navbar = () => {
                 {link.name}
               </Link>
             ))}
-            <div className="pt-2">
+            <div className="pt-2 space-y-3">
+              <NetworkSwitcher isMobile />
               <WalletButton isMobile />
             </div>
           </div>
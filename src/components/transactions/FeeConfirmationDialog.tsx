@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { Fuel, X, AlertTriangle, RefreshCw } from 'lucide-react';
+import { FEE_TIERS, FeeEstimate, FeeTier, TransactionFees } from '../../services/contractService';
+import { toAppError } from '../../utils/errors';
+
+interface FeeConfirmationDialogProps {
+  isOpen: boolean;
+  title: string;
+  summary: string;
+  confirmLabel: string;
+  // Estimates the transaction; called when the dialog opens and on retry
+  estimate: () => Promise<FeeEstimate>;
+  // Receives the chosen tier's fees, or undefined when the relayer pays
+  onConfirm: (fees: TransactionFees | undefined) => void;
+  onCancel: () => void;
+}
+
+const tierLabels: Record<FeeTier, { label: string; hint: string }> = {
+  slow: { label: 'Slow', hint: 'Cheapest, may take longer' },
+  normal: { label: 'Normal', hint: 'Typical recent fee' },
+  fast: { label: 'Fast', hint: 'Included sooner' },
+};
+
+const formatGwei = (wei: ethers.BigNumber) => `${Number(ethers.utils.formatUnits(wei, 'gwei')).toFixed(2)} gwei`;
+
+const formatNative = (amount: string, currency: string) => `${Number(amount).toPrecision(4)} ${currency}`;
+
+const FeeConfirmationDialog: React.FC<FeeConfirmationDialogProps> = ({
+  isOpen,
+  title,
+  summary,
+  confirmLabel,
+  estimate,
+  onConfirm,
+  onCancel,
+}) => {
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null);
+  const [tier, setTier] = useState<FeeTier>('normal');
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEstimate = useCallback(async () => {
+    try {
+      setIsEstimating(true);
+      setError(null);
+      setFeeEstimate(await estimate());
+    } catch (err) {
+      console.error('Error estimating fees:', err);
+      setFeeEstimate(null);
+      setError(toAppError(err, 'Failed to estimate fees').message);
+    } finally {
+      setIsEstimating(false);
+    }
+  }, [estimate]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTier('normal');
+      loadEstimate();
+    }
+  }, [isOpen, loadEstimate]);
+
+  if (!isOpen) return null;
+
+  const selected = feeEstimate?.tiers[tier];
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen justify-center items-center p-4">
+        <div className="fixed inset-0 bg-black opacity-50" onClick={onCancel}></div>
+
+        <div className="relative bg-white rounded-xl shadow-xl w-full max-w-lg z-10">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div className="flex items-center">
+              <Fuel className="w-5 h-5 text-primary-600 mr-2" />
+              <h3 className="text-lg font-bold">{title}</h3>
+            </div>
+            <button
+              onClick={onCancel}
+              className="text-gray-500 hover:text-gray-700 transition-colors duration-200"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-4">
+            <p className="text-sm text-gray-600">{summary}</p>
+
+            {isEstimating && (
+              <div className="flex items-center justify-center py-6 text-gray-500">
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                Estimating fees...
+              </div>
+            )}
+
+            {!isEstimating && error && (
+              <div className="bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+                <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {!isEstimating && feeEstimate && selected && (
+              <>
+                {feeEstimate.isGasless ? (
+                  <p className="bg-success-50 text-success-700 p-3 rounded-lg text-sm">
+                    Gasless mode is on: the relayer pays the gas for this transaction.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-2">
+                    {FEE_TIERS.map(option => (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => setTier(option)}
+                        className={`rounded-lg border p-3 text-left transition-colors duration-200 ${
+                          option === tier ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:border-primary-300'
+                        }`}
+                      >
+                        <span className="block font-medium text-gray-900">{tierLabels[option].label}</span>
+                        <span className="block text-xs text-gray-500 mb-1">{tierLabels[option].hint}</span>
+                        <span className="block text-sm font-mono text-gray-900">
+                          {formatNative(feeEstimate.tiers[option].expectedCostNative, feeEstimate.nativeCurrency)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <dl className="bg-gray-50 rounded-lg p-4 text-sm space-y-2">
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Gas limit</dt>
+                    <dd className="font-mono text-gray-900">{feeEstimate.gasLimit.toString()}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Base fee</dt>
+                    <dd className="font-mono text-gray-900">{formatGwei(feeEstimate.baseFeePerGas)}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Priority fee</dt>
+                    <dd className="font-mono text-gray-900">{formatGwei(selected.maxPriorityFeePerGas)}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Estimated total</dt>
+                    <dd className="font-mono text-gray-900">
+                      {formatNative(selected.expectedCostNative, feeEstimate.nativeCurrency)}
+                    </dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Maximum total</dt>
+                    <dd className="font-mono text-gray-900">
+                      {formatNative(selected.maxCostNative, feeEstimate.nativeCurrency)}
+                    </dd>
+                  </div>
+                </dl>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 p-4 border-t">
+            {error && (
+              <button onClick={loadEstimate} disabled={isEstimating} className="btn-outline flex items-center disabled:opacity-50">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Retry
+              </button>
+            )}
+            <button onClick={onCancel} className="btn-outline">
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(feeEstimate?.isGasless ? undefined : selected)}
+              disabled={isEstimating || !selected}
+              className="btn-primary disabled:opacity-50"
+            >
+              {confirmLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeeConfirmationDialog;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, CheckCircle, Clock, XCircle, Repeat, AlertTriangle, ExternalLink, Zap, Ban, Layers } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useWallet } from '../../contexts/WalletContext';
+import {
+  getAllTransactions,
+  clearTransactionHistory,
+  onTransactionsChange,
+  speedUpTransaction,
+  cancelTransaction,
+  TransactionState,
+  TransactionStatus,
+} from '../../services/contractService';
+import { toAppError } from '../../utils/errors';
+import { formatAddress } from '../../utils/clipboard';
+import { getExplorerUrl, getNetworkByChainId } from '../../utils/networks';
+
+const stateStyles: Record<TransactionState, { label: string; className: string; Icon: typeof CheckCircle }> = {
+  submitted: { label: 'Submitted', className: 'bg-warning-100 text-warning-700', Icon: Clock },
+  included: { label: 'Confirming', className: 'bg-primary-100 text-primary-700', Icon: Layers },
+  final: { label: 'Final', className: 'bg-success-100 text-success-700', Icon: CheckCircle },
+  failed: { label: 'Failed', className: 'bg-error-100 text-error-700', Icon: XCircle },
+  replaced: { label: 'Replaced', className: 'bg-gray-100 text-gray-700', Icon: Repeat },
+  dropped: { label: 'Dropped', className: 'bg-gray-100 text-gray-700', Icon: AlertTriangle },
+};
+
+const replacementLabels = { 'speed-up': 'Speed-up', cancel: 'Cancellation' } as const;
+
+// A short description of a transaction, e.g. "Speed-up of revokeCredential"
+const describe = (transaction: TransactionStatus) =>
+  transaction.kind ? `${replacementLabels[transaction.kind]} of ${transaction.method}` : transaction.method;
+
+const isUnfinished = (transaction: TransactionStatus) =>
+  transaction.status === 'submitted' || transaction.status === 'included';
+
+const RecentActivity: React.FC = () => {
+  const { address } = useWallet();
+  const [transactions, setTransactions] = useState<TransactionStatus[]>(getAllTransactions);
+  const [replacing, setReplacing] = useState<string | null>(null);
+
+  useEffect(() => onTransactionsChange(() => setTransactions(getAllTransactions())), []);
+
+  const handleReplace = async (hash: string, action: 'speed-up' | 'cancel') => {
+    try {
+      setReplacing(hash);
+      if (action === 'speed-up') {
+        await speedUpTransaction(hash);
+        toast.success('Speed-up sent');
+      } else {
+        await cancelTransaction(hash);
+        toast.success('Cancellation sent');
+      }
+    } catch (err) {
+      console.error(`Error trying to ${action} transaction:`, err);
+      toast.error(toAppError(err, `Failed to ${action} transaction`).message);
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  const canReplace = (transaction: TransactionStatus) =>
+    transaction.status === 'submitted' && transaction.from.toLowerCase() === address?.toLowerCase();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center">
+          <Activity className="w-5 h-5 mr-2 text-primary-600" />
+          Recent Activity
+        </h2>
+        {transactions.some(transaction => !isUnfinished(transaction)) && (
+          <button onClick={clearTransactionHistory} className="text-sm text-gray-500 hover:text-gray-700">
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="text-sm text-gray-500">No transactions yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {transactions.map(transaction => {
+            const { label, className, Icon } = stateStyles[transaction.status];
+            const explorerUrl = getExplorerUrl(getNetworkByChainId(transaction.chainId), 'tx', transaction.hash);
+            return (
+              <li key={transaction.hash} className="py-3 flex flex-col md:flex-row md:items-center gap-2">
+                <div className="flex-grow">
+                  <p className="text-sm font-medium text-gray-900">{describe(transaction)}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(transaction.timestamp).toLocaleString()}
+                    {transaction.error && <span className="ml-2 text-error-600">{transaction.error}</span>}
+                  </p>
+                </div>
+                <span className={`inline-flex items-center text-xs font-medium py-1 px-2 rounded-full self-start md:self-auto ${className}`}>
+                  <Icon className="w-3 h-3 mr-1" />
+                  {label}
+                  {transaction.status === 'included' && ` ${transaction.confirmations}/${transaction.requiredConfirmations}`}
+                </span>
+                {canReplace(transaction) && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleReplace(transaction.hash, 'speed-up')}
+                      disabled={replacing === transaction.hash}
+                      className="btn-outline text-xs py-1 px-2 flex items-center disabled:opacity-50"
+                    >
+                      <Zap className="w-3 h-3 mr-1" />
+                      Speed up
+                    </button>
+                    <button
+                      onClick={() => handleReplace(transaction.hash, 'cancel')}
+                      disabled={replacing === transaction.hash}
+                      className="btn-outline text-xs py-1 px-2 flex items-center disabled:opacity-50"
+                    >
+                      <Ban className="w-3 h-3 mr-1" />
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                {explorerUrl ? (
+                  <a
+                    href={explorerUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-xs font-mono text-primary-600 hover:text-primary-700"
+                    title={transaction.hash}
+                  >
+                    {formatAddress(transaction.hash, 10, 6)}
+                    <ExternalLink className="w-3 h-3 ml-1" />
+                  </a>
+                ) : (
+                  <span className="text-xs font-mono text-gray-500" title={transaction.hash}>
+                    {formatAddress(transaction.hash, 10, 6)}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecentActivity;
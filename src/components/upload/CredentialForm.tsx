@@ -5,6 +5,7 @@ interface CredentialFormData {
   name: string;
   issuer: string;
   issueDate: string;
+  expiresAt?: string;
 }
 
 interface CredentialFormProps {
@@ -15,6 +16,7 @@ const CredentialForm: React.FC<CredentialFormProps> = ({ onSubmit }) => {
   const { 
     register, 
     handleSubmit, 
+    getValues,
     formState: { errors, isValid } 
   } = useForm<CredentialFormData>({
     mode: 'onChange',
@@ -22,6 +24,7 @@ const CredentialForm: React.FC<CredentialFormProps> = ({ onSubmit }) => {
       name: '',
       issuer: '',
       issueDate: new Date().toISOString().split('T')[0],
+      expiresAt: '',
     }
   });
   
@@ -85,6 +88,28 @@ const CredentialForm: React.FC<CredentialFormProps> = ({ onSubmit }) => {
           )}
         </div>
         
+        <div>
+          <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700 mb-1">
+            Expiry Date <span className="text-gray-400 font-normal">(optional)</span>
+          </label>
+          <input
+            id="expiresAt"
+            type="date"
+            className={`input ${errors.expiresAt ? 'border-error-500 focus:ring-error-500' : ''}`}
+            {...register('expiresAt', { 
+              validate: (value) => 
+                !value || 
+                new Date(value) > new Date(getValues('issueDate')) || 
+                'Expiry date must be after the issue date'
+            })}
+          />
+          {errors.expiresAt ? (
+            <p className="mt-1 text-sm text-error-600">{errors.expiresAt.message}</p>
+          ) : (
+            <p className="mt-1 text-sm text-gray-500">Leave empty for credentials that never expire.</p>
+          )}
+        </div>
+        
         <div className="pt-4">
           <button
             type="submit"
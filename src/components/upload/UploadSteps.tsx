@@ -10,14 +10,15 @@ const UploadSteps: React.FC<UploadStepsProps> = ({ currentStep }) => {
     { id: 1, name: 'Upload File' },
     { id: 2, name: 'Add Details' },
     { id: 3, name: 'Process' },
-    { id: 4, name: 'Verify' },
+    { id: 4, name: 'Confirm' },
+    { id: 5, name: 'Anchored' },
   ];
 
   return (
     <div className="relative">
       <div className="hidden sm:block absolute top-1/2 left-0 w-full h-0.5 -translate-y-1/2 bg-gray-200" aria-hidden="true"></div>
       
-      <ul className="relative grid grid-cols-4 gap-x-2">
+      <ul className="relative grid grid-cols-5 gap-x-2">
         {steps.map((step) => (
           <li key={step.id} className="relative">
             <div className="flex flex-col items-center">
@@ -0,0 +1,142 @@
+import React, { useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useDropzone } from 'react-dropzone';
+import { Upload, FileText, ShieldCheck, ShieldX, HelpCircle, AlertTriangle } from 'lucide-react';
+import { computeIPFSCid } from '../../services/ipfsService';
+import { verifyCredentialDocument, DocumentVerificationResult } from '../../services/contractService';
+import { toAppError } from '../../utils/errors';
+
+interface DocumentVerifierProps {
+  expectedTokenId?: number;
+}
+
+const DocumentVerifier: React.FC<DocumentVerifierProps> = ({ expectedTokenId }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<DocumentVerificationResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const droppedFile = acceptedFiles[0];
+    setFile(droppedFile);
+    setResult(null);
+    setError('');
+
+    try {
+      setIsChecking(true);
+      const ipfsHash = await computeIPFSCid(droppedFile);
+      setResult(await verifyCredentialDocument(ipfsHash, expectedTokenId));
+    } catch (err) {
+      console.error('Error verifying document:', err);
+      setError(toAppError(err, 'Failed to verify document').message);
+    } finally {
+      setIsChecking(false);
+    }
+  }, [expectedTokenId]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'application/pdf': ['.pdf']
+    },
+    maxFiles: 1,
+    onDropRejected: () => {
+      setError('Please upload a valid PDF file.');
+    },
+  });
+
+  return (
+    <div>
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors duration-200 ${
+          isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-400 hover:bg-gray-50'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-lg font-medium text-gray-900 mb-1">
+          {isDragActive ? 'Drop the file here' : 'Drag & drop the credential PDF here'}
+        </p>
+        <p className="text-gray-500 mb-4">or click to browse files</p>
+        <p className="text-xs text-gray-500">
+          The file is hashed in your browser and never uploaded.
+        </p>
+      </div>
+
+      {file && (
+        <div className="bg-gray-50 p-4 rounded-lg mt-6 flex items-center">
+          <FileText className="w-8 h-8 text-primary-600 mr-3" />
+          <div>
+            <p className="font-medium text-gray-900">{file.name}</p>
+            <p className="text-sm text-gray-500">
+              {(file.size / 1024 / 1024).toFixed(2)} MB
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isChecking && (
+        <div className="flex items-center justify-center mt-6 text-gray-600">
+          <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-primary-600 mr-3"></div>
+          Checking document against the blockchain...
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {result?.status === 'match' && result.credential && (
+        <div className="mt-6 bg-success-50 text-success-700 p-4 rounded-lg flex items-start">
+          <ShieldCheck className="w-6 h-6 mr-3 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Document matches</p>
+            <p className="text-sm">
+              This document is the original registered for "{result.credential.title}" issued by {result.credential.issuer}.
+              {result.credential.status !== 'active' && ` Note that this credential has since been ${result.credential.status}.`}
+            </p>
+            {expectedTokenId === undefined && (
+              <Link to={`/verify/${result.tokenId}`} className="text-sm font-medium underline">
+                View credential #{result.tokenId}
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+
+      {result?.status === 'mismatch' && (
+        <div className="mt-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+          <ShieldX className="w-6 h-6 mr-3 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Document does not match</p>
+            <p className="text-sm">
+              {result.tokenId !== null
+                ? `This document is registered to credential #${result.tokenId}, not to credential #${expectedTokenId}.`
+                : `This document is not the one registered for credential #${expectedTokenId}. It may have been altered.`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {result?.status === 'unknown' && (
+        <div className="mt-6 bg-warning-50 text-warning-700 p-4 rounded-lg flex items-start">
+          <HelpCircle className="w-6 h-6 mr-3 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Unknown document</p>
+            <p className="text-sm">
+              No credential on the blockchain was issued for this exact document. It may have been altered or never issued.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentVerifier;
@@ -0,0 +1,135 @@
+import React, { useState, useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { FileJson, ShieldCheck, ShieldX, HelpCircle, AlertTriangle } from 'lucide-react';
+import { verifyMerkleCredential, MerkleVerificationResult } from '../../services/contractService';
+import { parseMerkleProofFile, MerkleProofFile } from '../../utils/merkle';
+import { toAppError } from '../../utils/errors';
+import { formatAddress } from '../../utils/clipboard';
+
+const ProofVerifier: React.FC = () => {
+  const [proofFile, setProofFile] = useState<MerkleProofFile | null>(null);
+  const [result, setResult] = useState<MerkleVerificationResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    setProofFile(null);
+    setResult(null);
+    setError('');
+
+    try {
+      setIsChecking(true);
+      const parsed = parseMerkleProofFile(await acceptedFiles[0].text());
+      setProofFile(parsed);
+      setResult(await verifyMerkleCredential(parsed));
+    } catch (err) {
+      console.error('Error verifying proof file:', err);
+      setError(toAppError(err, 'Failed to verify proof file').message);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'application/json': ['.json']
+    },
+    maxFiles: 1,
+    onDropRejected: () => {
+      setError('Please upload a valid proof file (.json).');
+    },
+  });
+
+  const credential = proofFile?.credential;
+
+  return (
+    <div>
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors duration-200 ${
+          isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-400 hover:bg-gray-50'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <FileJson className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-lg font-medium text-gray-900 mb-1">
+          {isDragActive ? 'Drop the file here' : 'Drag & drop a credential proof file here'}
+        </p>
+        <p className="text-gray-500">
+          For credentials issued in a batch under a single Merkle root
+        </p>
+      </div>
+
+      {isChecking && (
+        <div className="flex items-center justify-center mt-6 text-gray-600">
+          <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-primary-600 mr-3"></div>
+          Checking proof against the anchored root...
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {result?.status === 'valid' && credential && result.anchor && (
+        <div className="mt-6 bg-success-50 text-success-700 p-4 rounded-lg flex items-start">
+          <ShieldCheck className="w-6 h-6 mr-3 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Valid credential</p>
+            <p className="text-sm">
+              "{credential.title}" was issued to {formatAddress(credential.holder)} by {result.anchor.issuer} on{' '}
+              {new Date(credential.issueDate * 1000).toLocaleDateString()}. The batch was anchored by{' '}
+              {formatAddress(result.anchor.anchoredBy)} on {result.anchor.anchoredAt.toLocaleDateString()}.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {result?.status === 'revoked' && credential && (
+        <div className="mt-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+          <ShieldX className="w-6 h-6 mr-3 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Credential revoked</p>
+            <p className="text-sm">
+              {result.anchor?.isRevoked
+                ? `The batch containing "${credential.title}" has been revoked by its issuer.`
+                : `"${credential.title}" has been revoked by its issuer.`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {result?.status === 'invalid-proof' && (
+        <div className="mt-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+          <ShieldX className="w-6 h-6 mr-3 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Proof does not match</p>
+            <p className="text-sm">
+              The credential record in this file does not belong to the batch it claims. It may have been altered.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {result?.status === 'unanchored' && (
+        <div className="mt-6 bg-warning-50 text-warning-700 p-4 rounded-lg flex items-start">
+          <HelpCircle className="w-6 h-6 mr-3 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Unknown batch</p>
+            <p className="text-sm">
+              The Merkle root in this file has not been anchored on the blockchain by any issuer.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProofVerifier;
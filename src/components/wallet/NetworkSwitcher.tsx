@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Globe, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useWallet } from '../../contexts/WalletContext';
+import { toAppError } from '../../utils/errors';
+import { NETWORKS, NetworkKey, SUPPORTED_NETWORKS } from '../../utils/networks';
+
+interface NetworkSwitcherProps {
+  isMobile?: boolean;
+}
+
+export const NetworkSwitcher: React.FC<NetworkSwitcherProps> = ({ isMobile = false }) => {
+  const { address, network, readNetwork, switchNetwork } = useWallet();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // With a wallet connected the wallet's chain is shown, otherwise the network picked for read-only use
+  const current = address ? network : readNetwork;
+
+  const handleChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const target = NETWORKS[event.target.value as NetworkKey];
+
+    try {
+      setIsSwitching(true);
+      // Without a wallet only reads move; a wallet reports its new chain through chainChanged
+      await switchNetwork(target);
+    } catch (err) {
+      console.error(`Error switching to ${target.name}:`, err);
+      toast.error(toAppError(err, `Failed to switch to ${target.name}`).message);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className={`flex items-center ${isMobile ? 'w-full' : ''}`}>
+      {current ? (
+        <Globe className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+      ) : (
+        <AlertTriangle className="w-4 h-4 mr-2 text-warning-600" />
+      )}
+      <select
+        value={current?.key ?? ''}
+        onChange={handleChange}
+        disabled={isSwitching}
+        aria-label="Network"
+        className={`text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 py-1.5 pl-2 pr-8 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50 ${
+          isMobile ? 'w-full' : ''
+        }`}
+      >
+        {!current && (
+          <option value="" disabled>
+            Unsupported network
+          </option>
+        )}
+        {SUPPORTED_NETWORKS.map(option => (
+          <option key={option.key} value={option.key}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import { useWallet } from '../../contexts/WalletContext';
 import { Wallet, Loader2, AlertCircle, Check, Copy, ExternalLink } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { getExplorerUrl } from '../../utils/networks';
+import { EIP6963ProviderDetail } from '../../services/walletProviders';
+import WalletPickerModal from './WalletPickerModal';
 
 interface WalletButtonProps {
   isMobile?: boolean;
@@ -13,26 +16,24 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ isMobile = false })
     isConnecting, 
     connectWallet, 
     disconnectWallet, 
-    isMetaMaskInstalled,
+    isWalletInstalled,
+    walletProviders,
+    walletInfo,
+    session,
+    isAuthenticated,
+    signIn,
+    signOut,
     error,
-    chainId
+    network
   } = useWallet();
   const [isCopied, setIsCopied] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
 
   const formatAddress = (addr: string) => {
     return `${addr.substring(0, 6)}...${addr.substring(addr.length - 4)}`;
   };
 
-  const getNetworkName = (chainId: string | null) => {
-    switch (chainId) {
-      case '0x1': return 'Ethereum Mainnet';
-      case '0x13881': return 'Mumbai Testnet';
-      case '0x89': return 'Polygon Mainnet';
-      default: return 'Unknown Network';
-    }
-  };
-
   const handleCopyAddress = () => {
     if (!address) return;
     navigator.clipboard.writeText(address);
@@ -47,7 +48,27 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ isMobile = false })
     toast.success('Wallet disconnected');
   };
 
-  if (!isMetaMaskInstalled) {
+  const handleSignOut = () => {
+    signOut();
+    setShowMenu(false);
+    toast.success('Signed out');
+  };
+
+  // With several wallets installed, let the user pick instead of taking whichever claimed window.ethereum
+  const handleConnect = () => {
+    if (walletProviders.length > 1) {
+      setShowPicker(true);
+    } else {
+      connectWallet();
+    }
+  };
+
+  const handlePickWallet = (wallet: EIP6963ProviderDetail) => {
+    setShowPicker(false);
+    connectWallet(wallet);
+  };
+
+  if (!isWalletInstalled) {
     return (
       <a
         href="https://metamask.io/download/"
@@ -84,6 +105,7 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ isMobile = false })
   }
 
   if (address) {
+    const explorerUrl = getExplorerUrl(network, 'address', address);
     return (
       <div className="relative">
         <button
@@ -97,14 +119,20 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ isMobile = false })
         {showMenu && (
           <div className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg ring-1 ring-black ring-opacity-5 z-50">
             <div className="p-2">
-              <div className="px-3 py-2 text-xs text-gray-500">
-                Connected with MetaMask
+              <div className="flex items-center px-3 py-2 text-xs text-gray-500">
+                {walletInfo?.icon && <img src={walletInfo.icon} alt="" className="w-4 h-4 mr-2" />}
+                Connected with {walletInfo?.name ?? 'your wallet'}
               </div>
               <div className="px-3 py-1 text-sm font-medium text-gray-900">
                 {formatAddress(address)}
               </div>
               <div className="px-3 py-1 text-xs text-gray-500">
-                {getNetworkName(chainId)}
+                {network?.name ?? 'Unsupported Network'}
+              </div>
+              <div className="px-3 py-1 text-xs text-gray-500">
+                {isAuthenticated && session
+                  ? `Signed in until ${new Date(session.expiresAt).toLocaleString()}`
+                  : 'Not signed in'}
               </div>
               <div className="mt-2 border-t border-gray-100"></div>
               <div className="py-1">
@@ -124,18 +152,38 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ isMobile = false })
                     </>
                   )}
                 </button>
-                <a
-                  href={`https://mumbai.polygonscan.com/address/${address}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                >
-                  <ExternalLink className="w-4 h-4 mr-2" />
-                  View on Explorer
-                </a>
+                {explorerUrl && (
+                  <a
+                    href={explorerUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    View on Explorer
+                  </a>
+                )}
               </div>
               <div className="border-t border-gray-100"></div>
               <div className="py-1">
+                {isAuthenticated ? (
+                  <button
+                    onClick={handleSignOut}
+                    className="flex w-full items-center px-3 py-2 text-sm text-left text-gray-700 hover:bg-gray-100"
+                  >
+                    Sign Out
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      signIn();
+                    }}
+                    className="flex w-full items-center px-3 py-2 text-sm text-left text-gray-700 hover:bg-gray-100"
+                  >
+                    Sign In with Ethereum
+                  </button>
+                )}
                 <button
                   onClick={handleDisconnect}
                   className="flex w-full items-center px-3 py-2 text-sm text-left text-red-600 hover:bg-red-50"
@@ -151,13 +199,21 @@ export const WalletButton: React.FC<WalletButtonProps> = ({ isMobile = false })
   }
 
   return (
-    <button
-      onClick={connectWallet}
-      className={`flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 ${isMobile ? 'w-full justify-center' : ''}`}
-    >
-      <Wallet className="w-4 h-4" />
-      Connect Wallet
-    </button>
+    <>
+      <button
+        onClick={handleConnect}
+        className={`flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 ${isMobile ? 'w-full justify-center' : ''}`}
+      >
+        <Wallet className="w-4 h-4" />
+        Connect Wallet
+      </button>
+      <WalletPickerModal
+        isOpen={showPicker}
+        wallets={walletProviders}
+        onSelect={handlePickWallet}
+        onClose={() => setShowPicker(false)}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Wallet, X } from 'lucide-react';
+import { EIP6963ProviderDetail } from '../../services/walletProviders';
+
+interface WalletPickerModalProps {
+  isOpen: boolean;
+  wallets: EIP6963ProviderDetail[];
+  onSelect: (wallet: EIP6963ProviderDetail) => void;
+  onClose: () => void;
+}
+
+const WalletPickerModal: React.FC<WalletPickerModalProps> = ({ isOpen, wallets, onSelect, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen justify-center items-center p-4">
+        <div className="fixed inset-0 bg-black opacity-50" onClick={onClose}></div>
+
+        <div className="relative bg-white rounded-xl shadow-xl w-full max-w-sm z-10">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div className="flex items-center">
+              <Wallet className="w-5 h-5 text-primary-600 mr-2" />
+              <h3 className="text-lg font-bold text-gray-900">Choose a Wallet</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 transition-colors duration-200"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <ul className="p-4 space-y-2">
+            {wallets.map(wallet => (
+              <li key={wallet.info.uuid}>
+                <button
+                  onClick={() => onSelect(wallet)}
+                  className="flex w-full items-center gap-3 rounded-lg border border-gray-200 p-3 text-left hover:border-primary-300 hover:bg-primary-50 transition-colors duration-200"
+                >
+                  {wallet.info.icon ? (
+                    <img src={wallet.info.icon} alt="" className="w-8 h-8 rounded" />
+                  ) : (
+                    <Wallet className="w-8 h-8 p-1.5 text-gray-500 bg-gray-100 rounded" />
+                  )}
+                  <span className="font-medium text-gray-900">{wallet.info.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <p className="px-4 pb-4 text-xs text-gray-500">
+            The wallet you choose is remembered on this device until you disconnect.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WalletPickerModal;
@@ -1,4 +1,13 @@
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useContext, useState, useMemo } from 'react';
+import { CredentialStatus, TransactionState } from '../services/contractService';
+import { SignedCredential } from '../utils/signedCredential';
+
+// How far a credential's mint has got towards its network's confirmation depth
+export interface CredentialAnchoring {
+  state: TransactionState;
+  confirmations: number;
+  requiredConfirmations: number;
+}
 
 export interface Credential {
   id: string;
@@ -9,11 +18,20 @@ export interface Credential {
   tokenId?: string;
   summary?: string;
   previewUrl?: string;
+  isLocked?: boolean;
+  expiresAt?: string;
+  status?: CredentialStatus;
+  source?: 'on-chain' | 'signed';
+  // The mint transaction, for credentials minted from this browser
+  txHash?: string;
+  // Unset when the mint's depth isn't followed; such credentials are shown as anchored
+  anchoring?: CredentialAnchoring;
 }
 
 interface CredentialsContextType {
   credentials: Credential[];
   addCredential: (credential: Credential) => void;
+  addSignedCredential: (signed: SignedCredential) => void;
   getCredentialById: (id: string) => Credential | undefined;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
@@ -22,6 +40,7 @@ interface CredentialsContextType {
 const CredentialsContext = createContext<CredentialsContextType>({
   credentials: [],
   addCredential: () => {},
+  addSignedCredential: () => {},
   getCredentialById: () => undefined,
   isLoading: false,
   setIsLoading: () => {},
@@ -29,12 +48,32 @@ const CredentialsContext = createContext<CredentialsContextType>({
 
 export const useCredentials = () => useContext(CredentialsContext);
 
+// Signed off-chain credentials are kept by the holder in local storage
+const SIGNED_CREDENTIALS_KEY = 'educred.signedCredentials';
+
+const loadSignedCredentials = (): SignedCredential[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SIGNED_CREDENTIALS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const fromSignedCredential = ({ credential, signature }: SignedCredential): Credential => ({
+  id: `signed-${signature.slice(2, 18)}`,
+  name: credential.title,
+  issuer: credential.issuer,
+  issueDate: new Date(credential.issueDate * 1000).toISOString().slice(0, 10),
+  ipfsHash: credential.ipfsHash,
+  source: 'signed',
+});
+
 interface CredentialsProviderProps {
   children: React.ReactNode;
 }
 
 export const CredentialsProvider: React.FC<CredentialsProviderProps> = ({ children }) => {
-  const [credentials, setCredentials] = useState<Credential[]>([
+  const [onChainCredentials, setOnChainCredentials] = useState<Credential[]>([
     // Sample data for demonstration
     {
       id: '1',
@@ -58,10 +97,26 @@ export const CredentialsProvider: React.FC<CredentialsProviderProps> = ({ childr
     },
   ]);
   
+  const [signedCredentials, setSignedCredentials] = useState<SignedCredential[]>(loadSignedCredentials);
   const [isLoading, setIsLoading] = useState(false);
 
+  // On-chain and signed off-chain credentials are listed side by side
+  const credentials = useMemo(
+    () => [...onChainCredentials, ...signedCredentials.map(fromSignedCredential)],
+    [onChainCredentials, signedCredentials]
+  );
+
   const addCredential = (credential: Credential) => {
-    setCredentials([...credentials, credential]);
+    setOnChainCredentials([...onChainCredentials, credential]);
+  };
+
+  const addSignedCredential = (signed: SignedCredential) => {
+    if (signedCredentials.some(existing => existing.signature === signed.signature)) {
+      return;
+    }
+    const next = [...signedCredentials, signed];
+    localStorage.setItem(SIGNED_CREDENTIALS_KEY, JSON.stringify(next));
+    setSignedCredentials(next);
   };
 
   const getCredentialById = (id: string) => {
@@ -72,6 +127,7 @@ export const CredentialsProvider: React.FC<CredentialsProviderProps> = ({ childr
     <CredentialsContext.Provider value={{ 
       credentials, 
       addCredential, 
+      addSignedCredential,
       getCredentialById,
       isLoading,
       setIsLoading
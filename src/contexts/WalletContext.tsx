@@ -1,14 +1,31 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, useMemo } from 'react';
-import { initContract, getContract, mintCredential } from '../services/contractService';
-import { uploadToIPFS } from '../services/ipfsService';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { mintCredential, getCredential, CredentialStatus } from '../services/contractService';
+import { EduCredToken } from '../contracts/EduCredToken';
+import { getIndexedTokensByOwner, getIndexedTokensByIssuer } from '../services/credentialIndexer';
+import { uploadToIPFS, uploadCredentialMetadata } from '../services/ipfsService';
+import { generatePDFPreview } from '../services/pdfService';
+import {
+  EIP6963ProviderDetail,
+  EIP6963ProviderInfo,
+  getWalletProviders,
+  getSelectedWalletProvider,
+  onWalletProvidersChange
+} from '../services/walletProviders';
+import {
+  WalletSession,
+  getWalletSession,
+  onWalletSessionChange,
+  restoreWallet,
+  connectWallet as connectWalletSession,
+  disconnectWallet as disconnectWalletSession,
+  switchNetwork as switchWalletNetwork
+} from '../services/walletSession';
+import { AccountRoles, getCachedRoles, resolveRoles, invalidateRoles, onRolesChange } from '../services/roleService';
+import { Session, getSession, signIn as signInWithEthereum, signOut as endSession, onSessionChange } from '../services/sessionService';
+import { NetworkConfig, getSelectedNetwork } from '../utils/networks';
+import { toAppError } from '../utils/errors';
 import { toast } from 'react-hot-toast';
 
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
-
 interface Credential {
   id: string;
   title: string;
@@ -16,28 +33,55 @@ interface Credential {
   issuer: string;
   issueDate: Date;
   ipfsHash: string;
-  isRevoked: boolean;
+  status: CredentialStatus;
+  expiresAt: Date | null;
 }
 
 interface WalletContextType {
   address: string | null;
   isConnecting: boolean;
-  chainId: string | null;
-  connectWallet: () => Promise<void>;
+  chainId: number | null;
+  // The wallet's network, or null if the wallet is on an unsupported chain
+  network: NetworkConfig | null;
+  // The network reads go to, with or without a wallet
+  readNetwork: NetworkConfig;
+  // Connects the given wallet, or the remembered one; with several installed and none given, one must be picked
+  connectWallet: (wallet?: EIP6963ProviderDetail) => Promise<void>;
   disconnectWallet: () => void;
-  switchToMumbai: () => Promise<void>;
-  isMetaMaskInstalled: boolean;
+  switchNetwork: (network: NetworkConfig) => Promise<void>;
+  // Installed wallets discovered under EIP-6963
+  walletProviders: EIP6963ProviderDetail[];
+  // The wallet requests are routed through, once one is chosen
+  walletInfo: EIP6963ProviderInfo | null;
+  isWalletInstalled: boolean;
+  // True while a remembered wallet's connection is being restored after a reload
+  isRestoring: boolean;
+  // The Sign-In with Ethereum session, if one is stored and still valid
+  session: Session | null;
+  // Whether the session belongs to the connected address
+  isAuthenticated: boolean;
+  isSigningIn: boolean;
+  signIn: () => Promise<void>;
+  signOut: () => void;
+  // The connected account's contract roles, or null until they are resolved
+  roles: AccountRoles | null;
+  isResolvingRoles: boolean;
+  rolesError: string | null;
+  // Reads the connected account's roles from the contract again, e.g. after a role change
+  refreshRoles: () => void;
   error: string | null;
-  contract: any | null;
+  contract: EduCredToken | null;
   isContractInitialized: boolean;
   contractError: string | null;
   credentials: Credential[];
+  issuedCredentials: Credential[];
   isUploading: boolean;
   uploadProgress: number;
   uploadAndMintCredential: (
     file: File, 
     title: string, 
-    description: string
+    description: string,
+    expiresAt?: Date
   ) => Promise<void>;
   loadCredentials: () => Promise<void>;
   isRefreshing: boolean;
@@ -47,15 +91,30 @@ const WalletContext = createContext<WalletContextType>({
   address: null,
   isConnecting: false,
   chainId: null,
+  network: null,
+  readNetwork: getSelectedNetwork(),
   connectWallet: async () => {},
   disconnectWallet: () => {},
-  switchToMumbai: async () => {},
-  isMetaMaskInstalled: false,
+  switchNetwork: async () => {},
+  walletProviders: [],
+  walletInfo: null,
+  isWalletInstalled: false,
+  isRestoring: false,
+  session: null,
+  isAuthenticated: false,
+  isSigningIn: false,
+  signIn: async () => {},
+  signOut: () => {},
+  roles: null,
+  isResolvingRoles: false,
+  rolesError: null,
+  refreshRoles: () => {},
   error: null,
   contract: null,
   isContractInitialized: false,
   contractError: null,
   credentials: [],
+  issuedCredentials: [],
   isUploading: false,
   uploadProgress: 0,
   uploadAndMintCredential: async () => {},
@@ -65,176 +124,118 @@ const WalletContext = createContext<WalletContextType>({
 
 export const useWallet = () => useContext(WalletContext);
 
+// Subscribe to the wallet session store directly, for components that only need the raw session
+export const useWalletSession = (): WalletSession => useSyncExternalStore(onWalletSessionChange, getWalletSession);
+
 interface WalletProviderProps {
   children: React.ReactNode;
 }
 
 export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
-  const [address, setAddress] = useState<string | null>(null);
-  const [chainId, setChainId] = useState<string | null>(null);
-  const [isConnecting, setIsConnecting] = useState(false);
+  // Account, chain and contract all come from the wallet session store
+  const walletSession = useWalletSession();
+  const { account: address, chainId, network, readNetwork, contract } = walletSession;
+  const isConnecting = walletSession.status === 'connecting';
+  const isContractInitialized = !!contract;
+  const contractError = walletSession.contractError?.message ?? null;
   const [error, setError] = useState<string | null>(null);
-  const [contract, setContract] = useState<any>(null);
-  const [isContractInitialized, setIsContractInitialized] = useState(false);
-  const [contractError, setContractError] = useState<string | null>(null);
-  const isMetaMaskInstalled = typeof window.ethereum !== 'undefined' && window.ethereum.isMetaMask;
+  const [walletProviders, setWalletProviders] = useState<EIP6963ProviderDetail[]>(getWalletProviders);
+  const [wallet, setWallet] = useState<EIP6963ProviderDetail | null>(getSelectedWalletProvider);
+  const isWalletInstalled = walletProviders.length > 0;
+  // Until the remembered wallet's connection has been looked up, protected pages wait rather than turn the user away
+  const [isRestorePending, setIsRestorePending] = useState(() => wallet !== null);
+  const isRestoring = isRestorePending || walletSession.status === 'restoring';
+  const [session, setSession] = useState<Session | null>(getSession);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [roles, setRoles] = useState<AccountRoles | null>(null);
+  const [isResolvingRoles, setIsResolvingRoles] = useState(false);
+  const [rolesError, setRolesError] = useState<string | null>(null);
+  const [rolesVersion, setRolesVersion] = useState(0);
 
   const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [issuedCredentials, setIssuedCredentials] = useState<Credential[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
-  useEffect(() => {
-    const initializeContract = async () => {
-      if (!address || !isMetaMaskInstalled) return;
-      
-      try {
-        const contractInstance = await initContract();
-        setContract(contractInstance);
-        setIsContractInitialized(true);
-        setContractError(null);
-      } catch (err: any) {
-        console.error('Error initializing contract:', err);
-        setContractError(err.message || 'Failed to initialize contract');
-        setIsContractInitialized(false);
-      }
-    };
-
-    initializeContract();
-  }, [address, isMetaMaskInstalled]);
+  // Wallets can announce themselves after the first render, including the remembered one
+  useEffect(() => onWalletProvidersChange(() => {
+    setWalletProviders(getWalletProviders());
+    setWallet(getSelectedWalletProvider());
+  }), []);
 
-  useEffect(() => {
-    const checkConnection = async () => {
-      if (!isMetaMaskInstalled) return;
-      
-      try {
-        const accounts = await window.ethereum.request({ method: 'eth_accounts' });
-        if (accounts.length > 0) {
-          setAddress(accounts[0]);
-          const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-          setChainId(chainId);
-        }
-      } catch (err) {
-        console.error('Error checking connection:', err);
-      }
-    };
+  useEffect(() => onSessionChange(() => setSession(getSession())), []);
 
-    checkConnection();
+  useEffect(() => onRolesChange(() => setRolesVersion(version => version + 1)), []);
 
-    if (window.ethereum) {
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
-      
-      return () => {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum.removeListener('chainChanged', handleChainChanged);
-      };
+  // Restore the remembered wallet, including one that announces itself after the first render
+  useEffect(() => {
+    if (!wallet) {
+      setIsRestorePending(false);
+      return;
     }
-  }, []);
+    restoreWallet().finally(() => setIsRestorePending(false));
+  }, [wallet]);
 
-  const handleAccountsChanged = (accounts: string[]) => {
-    if (accounts.length === 0) {
-      setAddress(null);
-    } else if (accounts[0] !== address) {
-      setAddress(accounts[0]);
+  const connectWallet = useCallback(async (chosen?: EIP6963ProviderDetail) => {
+    if (!isWalletInstalled) {
+      setError('Please install a wallet such as MetaMask to connect');
+      return;
     }
-  };
 
-  const handleChainChanged = (newChainId: string) => {
-    setChainId(newChainId);
-    window.location.reload();
-  };
-
-  const connectWallet = async () => {
-    if (!isMetaMaskInstalled) {
-      setError('Please install MetaMask to connect your wallet');
+    const target = chosen ?? wallet ?? (walletProviders.length === 1 ? walletProviders[0] : null);
+    if (!target) {
+      setError('Please choose a wallet to connect');
       return;
     }
 
     try {
       setError(null);
-      setIsConnecting(true);
-      
-      const accounts = await window.ethereum.request({ 
-        method: 'eth_requestAccounts' 
-      });
-      
-      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-      
-      setAddress(accounts[0]);
-      setChainId(chainId);
-      
-      if (chainId !== '0x13881') {
-        await switchToMumbai();
+      const connected = await connectWalletSession(target);
+      setWallet(target);
+
+      // A wallet on an unsupported chain is asked to switch to the network picked for reads
+      if (!connected.network) {
+        await switchWalletNetwork(getSelectedNetwork());
       }
-      
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error connecting wallet:', err);
-      setError(err.message || 'Failed to connect wallet');
-    } finally {
-      setIsConnecting(false);
+      setError(toAppError(err, 'Failed to connect wallet').message);
     }
-  };
+  }, [isWalletInstalled, wallet, walletProviders]);
 
-  const switchToMumbai = async () => {
-    if (!isMetaMaskInstalled) return;
-    
-    try {
-      await window.ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0x13881' }], // Mumbai testnet
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await window.ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [
-              {
-                chainId: '0x13881',
-                chainName: 'Polygon Mumbai Testnet',
-                nativeCurrency: {
-                  name: 'MATIC',
-                  symbol: 'MATIC',
-                  decimals: 18,
-                },
-                rpcUrls: ['https://rpc-mumbai.maticvigil.com/'],
-                blockExplorerUrls: ['https://mumbai.polygonscan.com/'],
-              },
-            ],
-          });
-        } catch (addError) {
-          console.error('Error adding Mumbai network:', addError);
-          throw addError;
-        }
-      } else {
-        console.error('Error switching to Mumbai:', switchError);
-        throw switchError;
-      }
-    }
-  };
+  // The session follows the wallet's chainChanged event in place; no reload is needed
+  const switchNetwork = useCallback((network: NetworkConfig) => switchWalletNetwork(network), []);
 
   const loadCredentials = useCallback(async () => {
     if (!address || !contract) return;
 
     try {
       setIsRefreshing(true);
-      const tokenIds = await contract.getTokensByOwner(address);
-      const creds = await Promise.all(
-        tokenIds.map(async (tokenId: any) => {
-          const cred = await contract.getCredential(tokenId);
-          return {
-            id: tokenId.toString(),
-            title: cred.title,
-            description: cred.description,
-            issuer: cred.issuer,
-            issueDate: new Date(cred.issueDate * 1000),
-            ipfsHash: cred.ipfsHash,
-            isRevoked: cred.isRevoked
-          };
-        })
-      );
-      setCredentials(creds);
+      // Holdings and issuances come from the local event index, which syncs new blocks first
+      const [ownedIds, issuedIds] = await Promise.all([
+        getIndexedTokensByOwner(address),
+        getIndexedTokensByIssuer(address)
+      ]);
+      const toCredential = async (tokenId: number): Promise<Credential> => {
+        const cred = await getCredential(tokenId);
+        return {
+          id: tokenId.toString(),
+          title: cred.title,
+          description: cred.description,
+          issuer: cred.issuer,
+          issueDate: cred.issueDate,
+          ipfsHash: cred.ipfsHash,
+          status: cred.status,
+          expiresAt: cred.expiresAt
+        };
+      };
+      const [owned, issued] = await Promise.all([
+        Promise.all(ownedIds.map(toCredential)),
+        Promise.all(issuedIds.map(toCredential))
+      ]);
+      setCredentials(owned);
+      setIssuedCredentials(issued);
     } catch (err) {
       console.error('Error loading credentials:', err);
       toast.error('Failed to load credentials');
@@ -246,7 +247,8 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   const uploadAndMintCredential = useCallback(async (
     file: File,
     title: string,
-    description: string
+    description: string,
+    expiresAt?: Date
   ) => {
     if (!address || !contract) {
       toast.error('Please connect your wallet first');
@@ -262,9 +264,14 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         setUploadProgress(Math.round((progress.loaded / progress.total) * 100));
       });
 
+      toast.loading('Pinning credential metadata...');
+      const metadataURI = await uploadCredentialMetadata(
+        { title, description, issuer: 'EduCred Chain', issueDate: new Date(), ipfsHash, expiresAt },
+        await generatePDFPreview(file)
+      );
+
       toast.loading('Minting credential...');
-      const tx = await mintCredential(contract, address, title, description, 'EduCred Chain', ipfsHash);
-      await tx.wait();
+      await mintCredential(address, title, description, 'EduCred Chain', ipfsHash, expiresAt, metadataURI);
 
       await loadCredentials();
 
@@ -280,14 +287,37 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   }, [address, contract, loadCredentials]);
 
+  const signIn = useCallback(async () => {
+    if (!address || !chainId) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setIsSigningIn(true);
+      setSession(await signInWithEthereum(address, chainId));
+    } catch (err) {
+      console.error('Error signing in:', err);
+      toast.error(toAppError(err, 'Failed to sign in').message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address, chainId]);
+
+  const signOut = useCallback(() => {
+    endSession();
+    setSession(null);
+  }, []);
+
   const disconnectWallet = useCallback(() => {
-    setAddress(null);
-    setChainId(null);
-    setContract(null);
+    // Disconnecting signs out, and the next connection asks which wallet to use again
+    endSession();
+    setSession(null);
+    disconnectWalletSession();
+    setWallet(null);
     setCredentials([]);
-    setIsContractInitialized(false);
-    setContractError(null);
-  }, [] );
+    setIssuedCredentials([]);
+  }, []);
 
   useEffect(() => {
     if (address && contract) {
@@ -295,19 +325,68 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   }, [address, contract, loadCredentials]);
 
+  // Roles are read through the read-only client, which follows the wallet's network when it is supported
+  const rolesChainId = readNetwork.chainId;
+
+  useEffect(() => {
+    const cached = address ? getCachedRoles(address, rolesChainId) : null;
+    setRoles(cached);
+    setRolesError(null);
+    setIsResolvingRoles(!!address && !cached);
+    if (!address || cached) return;
+
+    let isCurrent = true;
+    resolveRoles(address, rolesChainId)
+      .then(resolved => {
+        if (isCurrent) setRoles(resolved);
+      })
+      .catch(err => {
+        console.error('Error resolving roles:', err);
+        if (isCurrent) setRolesError(toAppError(err, 'Failed to check your role').message);
+      })
+      .finally(() => {
+        if (isCurrent) setIsResolvingRoles(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [address, rolesChainId, rolesVersion]);
+
+  const refreshRoles = useCallback(() => {
+    if (address) {
+      invalidateRoles(address);
+    }
+  }, [address]);
+  const isAuthenticated = !!session && !!address && session.address.toLowerCase() === address.toLowerCase();
+
   const contextValue = useMemo(() => ({
     address,
     isConnecting,
     chainId,
+    network,
+    readNetwork,
     connectWallet,
     disconnectWallet,
-    switchToMumbai,
-    isMetaMaskInstalled,
+    switchNetwork,
+    walletProviders,
+    walletInfo: wallet?.info ?? null,
+    isWalletInstalled,
+    isRestoring,
+    session,
+    isAuthenticated,
+    isSigningIn,
+    signIn,
+    signOut,
+    roles,
+    isResolvingRoles,
+    rolesError,
+    refreshRoles,
     error,
     contract,
     isContractInitialized,
     contractError,
     credentials,
+    issuedCredentials,
     isUploading,
     uploadProgress,
     uploadAndMintCredential,
@@ -317,15 +396,30 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     address,
     isConnecting,
     chainId,
+    network,
+    readNetwork,
     connectWallet,
     disconnectWallet,
-    switchToMumbai,
-    isMetaMaskInstalled,
+    switchNetwork,
+    walletProviders,
+    wallet,
+    isWalletInstalled,
+    isRestoring,
+    session,
+    isAuthenticated,
+    isSigningIn,
+    signIn,
+    signOut,
+    roles,
+    isResolvingRoles,
+    rolesError,
+    refreshRoles,
     error,
     contract,
     isContractInitialized,
     contractError,
     credentials,
+    issuedCredentials,
     isUploading,
     uploadProgress,
     uploadAndMintCredential,
@@ -7,9 +7,10 @@ import './index.css';
 import { WalletProvider } from './contexts/WalletContext';
 import { CredentialsProvider } from './contexts/CredentialsContext';
 import { Toaster } from 'react-hot-toast';
+import { getSelectedNetwork } from './utils/networks';
 
-// Mumbai testnet chainId
-const activeChainId = 80001;
+// The network picked in the network switcher, or the default network
+const activeChainId = getSelectedNetwork().chainId;
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { UserPlus, UserMinus, ShieldCheck, KeyRound, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  getRoleMembers,
+  grantIssuer,
+  revokeIssuer,
+  grantAdmin,
+  revokeAdmin,
+  CredentialRole,
+} from '../services/contractService';
+import { invalidateRoles } from '../services/roleService';
+import { toAppError } from '../utils/errors';
+import { formatAddress } from '../utils/clipboard';
+
+const roleActions: Record<CredentialRole, {
+  grant: (account: string) => Promise<unknown>;
+  revoke: (account: string) => Promise<unknown>;
+}> = {
+  issuer: { grant: grantIssuer, revoke: revokeIssuer },
+  admin: { grant: grantAdmin, revoke: revokeAdmin },
+};
+
+const AdminPage = () => {
+  const { address, isContractInitialized } = useWallet();
+  const [issuers, setIssuers] = useState<string[]>([]);
+  const [admins, setAdmins] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newAccount, setNewAccount] = useState('');
+  const [newRole, setNewRole] = useState<CredentialRole>('issuer');
+  const [pendingAccount, setPendingAccount] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [issuerList, adminList] = await Promise.all([
+        getRoleMembers('issuer'),
+        getRoleMembers('admin'),
+      ]);
+      setIssuers(issuerList);
+      setAdmins(adminList);
+    } catch (err) {
+      console.error('Error loading role members:', err);
+      toast.error(toAppError(err, 'Failed to load issuers').message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isContractInitialized) {
+      loadMembers();
+    }
+  }, [isContractInitialized, loadMembers]);
+
+  const handleRoleChange = async (role: CredentialRole, account: string, action: 'grant' | 'revoke') => {
+    try {
+      setPendingAccount(account);
+      await roleActions[role][action](account);
+      // The account's cached roles are stale, including this admin's own after revoking them
+      invalidateRoles(account);
+      toast.success(`${role === 'admin' ? 'Admin' : 'Issuer'} role ${action === 'grant' ? 'granted to' : 'revoked from'} ${formatAddress(account)}`);
+      await loadMembers();
+    } catch (err) {
+      console.error(`Error trying to ${action} ${role} role:`, err);
+      toast.error(toAppError(err, 'Failed to update role').message);
+    } finally {
+      setPendingAccount(null);
+    }
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await handleRoleChange(newRole, newAccount.trim(), 'grant');
+    setNewAccount('');
+  };
+
+  const renderMembers = (role: CredentialRole, members: string[]) => (
+    <ul className="divide-y divide-gray-100">
+      {members.map((member) => {
+        const isSelf = member.toLowerCase() === address?.toLowerCase();
+        const isLastAdmin = role === 'admin' && members.length === 1;
+        return (
+          <li key={member} className="flex items-center justify-between py-3">
+            <span className="text-sm font-mono text-gray-900" title={member}>
+              {formatAddress(member)}
+              {isSelf && <span className="ml-2 text-xs text-gray-500 font-sans">(you)</span>}
+            </span>
+            <button
+              onClick={() => handleRoleChange(role, member, 'revoke')}
+              disabled={pendingAccount !== null || isLastAdmin}
+              title={isLastAdmin ? 'At least one admin is required' : undefined}
+              className="flex items-center text-sm text-red-600 hover:text-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UserMinus className="w-4 h-4 mr-1" />
+              Revoke
+            </button>
+          </li>
+        );
+      })}
+      {members.length === 0 && (
+        <li className="py-3 text-sm text-gray-500">No accounts hold this role.</li>
+      )}
+    </ul>
+  );
+
+  return (
+    <div className="py-8 bg-gray-50 min-h-screen">
+      <div className="container-custom">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+              Issuer Management
+            </h1>
+            <p className="text-gray-600">
+              Grant departments permission to issue credentials and manage administrators
+            </p>
+          </div>
+          <button
+            onClick={loadMembers}
+            disabled={isLoading}
+            className="btn-outline flex items-center mt-4 md:mt-0"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <form onSubmit={handleGrant} className="bg-white rounded-xl shadow-sm p-6 mb-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Grant Role</h2>
+          <div className="flex flex-col md:flex-row gap-4">
+            <input
+              type="text"
+              className="input font-mono"
+              placeholder="0x..."
+              value={newAccount}
+              onChange={(e) => setNewAccount(e.target.value)}
+            />
+            <select
+              className="input md:w-48"
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as CredentialRole)}
+            >
+              <option value="issuer">Issuer</option>
+              <option value="admin">Admin</option>
+            </select>
+            <button
+              type="submit"
+              disabled={!newAccount.trim() || pendingAccount !== null}
+              className="btn-primary flex items-center justify-center whitespace-nowrap disabled:opacity-50"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Grant
+            </button>
+          </div>
+        </form>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="flex items-center text-xl font-bold text-gray-900 mb-2">
+              <ShieldCheck className="w-5 h-5 mr-2 text-primary-600" />
+              Issuers
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Can mint credentials and revoke the ones they issued.
+            </p>
+            {renderMembers('issuer', issuers)}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="flex items-center text-xl font-bold text-gray-900 mb-2">
+              <KeyRound className="w-5 h-5 mr-2 text-primary-600" />
+              Admins
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Can manage issuers and admins and revoke any credential.
+            </p>
+            {renderMembers('admin', admins)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -0,0 +1,457 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { FileSpreadsheet, FileText, Upload, Send, CheckCircle, XCircle, AlertTriangle, Download } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  mintCredentialsBatch,
+  anchorMerkleRoot,
+  signCredential,
+  validateCredentialRequest,
+  BatchMintResult,
+  CredentialRequest,
+} from '../services/contractService';
+import { uploadToIPFS, uploadCredentialMetadata } from '../services/ipfsService';
+import { generatePDFPreview } from '../services/pdfService';
+import { parseCSV } from '../utils/csv';
+import { buildMerkleTree, MerkleProofFile } from '../utils/merkle';
+import { SignedCredential } from '../utils/signedCredential';
+import { toAppError } from '../utils/errors';
+import { formatAddress } from '../utils/clipboard';
+
+// Columns expected in the CSV header row
+const CSV_COLUMNS = ['address', 'title', 'description', 'document'] as const;
+
+interface CsvRow {
+  line: number;
+  to: string;
+  title: string;
+  description: string;
+  documentName: string;
+}
+
+interface BatchRow extends CsvRow {
+  file?: File;
+  errors: string[];
+}
+
+// Tokens mints one NFT per row; merkle anchors a single root and hands out proof files;
+// signed issues gas-free credentials signed by the issuer's wallet
+type IssuanceMode = 'tokens' | 'merkle' | 'signed';
+
+// File handed to the holder when no token is minted
+type HolderFile = MerkleProofFile | SignedCredential;
+
+const downloadHolderFile = (row: BatchRow, holderFile: HolderFile) => {
+  const blob = new Blob([JSON.stringify(holderFile, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${row.documentName.replace(/\.pdf$/i, '')}.${'signature' in holderFile ? 'credential' : 'proof'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BatchIssuePage = () => {
+  const [csvName, setCsvName] = useState('');
+  const [csvRows, setCsvRows] = useState<CsvRow[]>([]);
+  const [csvError, setCsvError] = useState('');
+  const [documents, setDocuments] = useState<Map<string, File>>(new Map());
+  const [issuer, setIssuer] = useState('');
+  const [mode, setMode] = useState<IssuanceMode>('tokens');
+  const [results, setResults] = useState<Record<number, BatchMintResult>>({});
+  const [holderFiles, setHolderFiles] = useState<Record<number, HolderFile>>({});
+  const [merkleRoot, setMerkleRoot] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progressMessage, setProgressMessage] = useState('');
+
+  const onCsvDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    setCsvName(file.name);
+    setCsvError('');
+    setCsvRows([]);
+    setResults({});
+    setHolderFiles({});
+    setMerkleRoot('');
+
+    const [header, ...rows] = parseCSV(await file.text());
+    const columns = (header ?? []).map(name => name.toLowerCase());
+    const missing = CSV_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      setCsvError(`The CSV header is missing required columns: ${missing.join(', ')}. Expected: ${CSV_COLUMNS.join(', ')}.`);
+      return;
+    }
+    if (rows.length === 0) {
+      setCsvError('The CSV file contains no credentials.');
+      return;
+    }
+
+    const valueOf = (row: string[], column: typeof CSV_COLUMNS[number]) => row[columns.indexOf(column)] ?? '';
+    setCsvRows(rows.map((row, index) => ({
+      line: index + 2,
+      to: valueOf(row, 'address'),
+      title: valueOf(row, 'title'),
+      description: valueOf(row, 'description'),
+      documentName: valueOf(row, 'document'),
+    })));
+  }, []);
+
+  const onDocumentsDrop = useCallback((acceptedFiles: File[]) => {
+    setDocuments(prev => {
+      const next = new Map(prev);
+      acceptedFiles.forEach(file => next.set(file.name, file));
+      return next;
+    });
+  }, []);
+
+  const csvDropzone = useDropzone({
+    onDrop: onCsvDrop,
+    accept: {
+      'text/csv': ['.csv']
+    },
+    maxFiles: 1,
+    onDropRejected: () => {
+      setCsvError('Please upload a valid CSV file.');
+    },
+  });
+
+  const documentsDropzone = useDropzone({
+    onDrop: onDocumentsDrop,
+    accept: {
+      'application/pdf': ['.pdf']
+    },
+  });
+
+  const rows: BatchRow[] = useMemo(() => {
+    const documentCounts = new Map<string, number>();
+    csvRows.forEach(row => documentCounts.set(row.documentName, (documentCounts.get(row.documentName) ?? 0) + 1));
+
+    return csvRows.map(row => {
+      const errors: string[] = [];
+      try {
+        validateCredentialRequest(
+          { to: row.to, title: row.title, description: row.description, issuer, ipfsHash: '' },
+          { requireIpfsHash: false }
+        );
+      } catch (err) {
+        errors.push(toAppError(err).message);
+      }
+
+      const file = documents.get(row.documentName);
+      if (!row.documentName) {
+        errors.push('Document file name is required');
+      } else if (!file) {
+        errors.push(`Document "${row.documentName}" has not been added`);
+      } else if ((documentCounts.get(row.documentName) ?? 0) > 1) {
+        errors.push(`Document "${row.documentName}" is used by more than one row`);
+      }
+
+      return { ...row, file, errors };
+    });
+  }, [csvRows, documents, issuer]);
+
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+  const mintedCount = Object.values(results).filter(result => result.status === 'minted').length
+    + Object.keys(holderFiles).length;
+  const canSubmit = rows.length > 0 && invalidCount === 0 && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    try {
+      setIsSubmitting(true);
+      setResults({});
+      setHolderFiles({});
+      setMerkleRoot('');
+
+      // Upload documents first; rows whose upload fails are reported and left out of the batch
+      const requests: CredentialRequest[] = [];
+      const rowIndexes: number[] = [];
+      for (let index = 0; index < rows.length; index++) {
+        const row = rows[index];
+        setProgressMessage(`Uploading document ${index + 1} of ${rows.length}...`);
+        try {
+          const ipfsHash = await uploadToIPFS(row.file!);
+          const request: CredentialRequest = { to: row.to, title: row.title, description: row.description, issuer, ipfsHash };
+
+          // Only minted tokens carry ERC-721 metadata; Merkle credentials are described by their proof file
+          if (mode === 'tokens') {
+            request.metadataURI = await uploadCredentialMetadata(
+              { ...request, issueDate: new Date() },
+              await generatePDFPreview(row.file!)
+            );
+          }
+          requests.push(request);
+          rowIndexes.push(index);
+        } catch (err) {
+          setResults(prev => ({
+            ...prev,
+            [index]: { index, status: 'failed', error: toAppError(err, 'Failed to upload document').message },
+          }));
+        }
+      }
+
+      if (requests.length === 0) {
+        toast.error('No documents could be uploaded');
+        return;
+      }
+
+      if (mode === 'merkle') {
+        const issueDate = Math.floor(Date.now() / 1000);
+        const tree = buildMerkleTree(requests.map(request => ({
+          holder: request.to,
+          title: request.title,
+          description: request.description,
+          issuer: request.issuer,
+          ipfsHash: request.ipfsHash,
+          issueDate,
+        })));
+
+        setProgressMessage('Anchoring the Merkle root. Confirm the transaction in your wallet...');
+        await anchorMerkleRoot(tree.root, issuer, requests.length);
+
+        setMerkleRoot(tree.root);
+        setHolderFiles(Object.fromEntries(tree.proofFiles.map((proofFile, index) => [rowIndexes[index], proofFile])));
+        toast.success(`Anchored ${requests.length} credentials. Send each holder their proof file.`);
+        return;
+      }
+
+      if (mode === 'signed') {
+        const issueDate = Math.floor(Date.now() / 1000);
+        for (let index = 0; index < requests.length; index++) {
+          const request = requests[index];
+          const rowIndex = rowIndexes[index];
+          setProgressMessage(`Signing credential ${index + 1} of ${requests.length}. Confirm the signature in your wallet...`);
+          try {
+            const signed = await signCredential({
+              holder: request.to,
+              title: request.title,
+              issuer: request.issuer,
+              ipfsHash: request.ipfsHash,
+              issueDate,
+            });
+            setHolderFiles(prev => ({ ...prev, [rowIndex]: signed }));
+          } catch (err) {
+            setResults(prev => ({
+              ...prev,
+              [rowIndex]: { index: rowIndex, status: 'failed', error: toAppError(err, 'Failed to sign credential').message },
+            }));
+          }
+        }
+        toast.success('Signing complete. Send each holder their credential file.');
+        return;
+      }
+
+      setProgressMessage('Minting credentials. Confirm each transaction in your wallet...');
+      const batchResults = await mintCredentialsBatch(requests, (chunkResults) => {
+        setResults(prev => {
+          const next = { ...prev };
+          chunkResults.forEach(result => {
+            const rowIndex = rowIndexes[result.index];
+            next[rowIndex] = { ...result, index: rowIndex };
+          });
+          return next;
+        });
+      });
+
+      const failed = batchResults.filter(result => result.status === 'failed').length;
+      if (failed === 0) {
+        toast.success(`Issued ${batchResults.length} credentials`);
+      } else {
+        toast.error(`${failed} of ${rows.length} credentials could not be issued`);
+      }
+    } catch (err) {
+      console.error('Error issuing batch:', err);
+      toast.error(toAppError(err, 'Failed to issue credentials').message);
+    } finally {
+      setIsSubmitting(false);
+      setProgressMessage('');
+    }
+  };
+
+  return (
+    <div className="py-8 bg-gray-50 min-h-screen">
+      <div className="container-custom">
+        <div className="mb-8">
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+            Batch Issuance
+          </h1>
+          <p className="text-gray-600">
+            Issue credentials to a whole cohort from a CSV file with columns <span className="font-mono">{CSV_COLUMNS.join(', ')}</span>
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">1. Recipients</h2>
+            <div
+              {...csvDropzone.getRootProps()}
+              className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors duration-200 ${
+                csvDropzone.isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-400 hover:bg-gray-50'
+              }`}
+            >
+              <input {...csvDropzone.getInputProps()} />
+              <FileSpreadsheet className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+              <p className="font-medium text-gray-900">
+                {csvName || 'Drag & drop the recipients CSV here'}
+              </p>
+              <p className="text-sm text-gray-500">
+                {csvRows.length > 0 ? `${csvRows.length} rows` : 'or click to browse files'}
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">2. Documents</h2>
+            <div
+              {...documentsDropzone.getRootProps()}
+              className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors duration-200 ${
+                documentsDropzone.isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-400 hover:bg-gray-50'
+              }`}
+            >
+              <input {...documentsDropzone.getInputProps()} />
+              <Upload className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+              <p className="font-medium text-gray-900">Drag & drop the credential PDFs here</p>
+              <p className="text-sm text-gray-500">
+                {documents.size > 0 ? `${documents.size} documents added` : 'File names must match the document column'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {csvError && (
+          <div className="mb-8 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+            <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+            <p>{csvError}</p>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+              <div className="md:w-1/2">
+                <label htmlFor="issuer" className="block text-sm font-medium text-gray-700 mb-1">
+                  Issuing Organization
+                </label>
+                <input
+                  id="issuer"
+                  type="text"
+                  className="input"
+                  placeholder="e.g., Department of Physics"
+                  value={issuer}
+                  onChange={(e) => setIssuer(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="md:w-1/4">
+                <label htmlFor="mode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Issuance Mode
+                </label>
+                <select
+                  id="mode"
+                  className="input"
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as IssuanceMode)}
+                  disabled={isSubmitting}
+                >
+                  <option value="tokens">One token per credential</option>
+                  <option value="merkle">Merkle root with proof files</option>
+                  <option value="signed">Signed off-chain (no gas)</option>
+                </select>
+              </div>
+              <button
+                onClick={handleSubmit}
+                disabled={!canSubmit}
+                className="btn-primary flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {mode === 'merkle' ? 'Anchor' : mode === 'signed' ? 'Sign' : 'Issue'} {rows.length} Credentials
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              {isSubmitting
+                ? progressMessage
+                : invalidCount > 0
+                  ? `${invalidCount} of ${rows.length} rows need attention before issuing.`
+                  : mintedCount > 0
+                    ? `${mintedCount} of ${rows.length} credentials issued.`
+                    : 'All rows are valid.'}
+            </p>
+
+            {merkleRoot && (
+              <p className="text-sm text-gray-600 mb-4 break-all">
+                Anchored Merkle root: <span className="font-mono text-gray-900">{merkleRoot}</span>
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-100">
+                    <th className="py-2 pr-4 font-medium">Line</th>
+                    <th className="py-2 pr-4 font-medium">Recipient</th>
+                    <th className="py-2 pr-4 font-medium">Title</th>
+                    <th className="py-2 pr-4 font-medium">Document</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map((row, index) => {
+                    const result = results[index];
+                    const holderFile = holderFiles[index];
+                    return (
+                      <tr key={row.line} className="align-top">
+                        <td className="py-3 pr-4 text-gray-500">{row.line}</td>
+                        <td className="py-3 pr-4 font-mono text-gray-900" title={row.to}>
+                          {row.to ? formatAddress(row.to) : '—'}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-900">{row.title || '—'}</td>
+                        <td className="py-3 pr-4 text-gray-600">
+                          <span className="flex items-center">
+                            <FileText className="w-4 h-4 mr-1 text-gray-400" />
+                            {row.documentName || '—'}
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          {row.errors.length > 0 ? (
+                            <ul className="text-error-600 space-y-1">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : holderFile ? (
+                            <button
+                              onClick={() => downloadHolderFile(row, holderFile)}
+                              className="flex items-center text-primary-600 hover:text-primary-700"
+                            >
+                              <Download className="w-4 h-4 mr-1" />
+                              {'signature' in holderFile ? 'Download credential' : 'Download proof'}
+                            </button>
+                          ) : result?.status === 'minted' ? (
+                            <span className="flex items-center text-success-700">
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Token #{result.tokenId}
+                            </span>
+                          ) : result?.status === 'failed' ? (
+                            <span className="flex items-start text-error-600">
+                              <XCircle className="w-4 h-4 mr-1 flex-shrink-0 mt-0.5" />
+                              {result.error}
+                            </span>
+                          ) : (
+                            <span className="text-gray-500">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchIssuePage;
@@ -1,34 +1,194 @@
-import React, { useState, useCallback } from 'react';
-import { Link } from 'react-router-dom';
-import { FileUp, Search, Plus, Brain, Share2, ExternalLink } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ethers } from 'ethers';
+import { FileUp, Search, Plus, Brain, Share2, ExternalLink, FileKey, Eye, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
 import { useCredentials, Credential } from '../contexts/CredentialsContext';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  verifySignedCredential,
+  getCredential,
+  getLatestTransactionStatus,
+  onTransactionsChange,
+  SignedCredentialStatus
+} from '../services/contractService';
+import { getIndexedCredentialsByOwner } from '../services/credentialIndexer';
+import ProtectedRoute from '../components/auth/ProtectedRoute';
+import { parseSignedCredential } from '../utils/signedCredential';
+import { toAppError } from '../utils/errors';
 import CredentialCard from '../components/credentials/CredentialCard';
 import AIInteraction from '../components/ai/AIInteraction';
+import RecentActivity from '../components/transactions/RecentActivity';
 import { CredentialsGridSkeleton } from '../components/ui/LoadingSkeleton';
-import { copyToClipboard } from '../utils/clipboard';
+import { copyToClipboard, formatAddress } from '../utils/clipboard';
+import { ExpiryStatus, expiryStatusLabels, getExpiryStatus } from '../utils/expiry';
+import { getExplorerUrl } from '../utils/networks';
 
-const DashboardPage = () => {
-  const { credentials, isLoading } = useCredentials();
+const signedCredentialErrors: Record<Exclude<SignedCredentialStatus, 'valid'>, string> = {
+  'invalid-signature': 'The credential signature is malformed.',
+  'wrong-contract': 'This credential was signed for a different network or contract.',
+  'unauthorized-issuer': 'This credential was not signed by an authorized issuer. It may have been altered.',
+};
+
+/**
+ * Load the credentials an address holds through the read-only client, so no wallet is needed
+ * @param owner The address, or null to load nothing
+ */
+const usePublicCredentials = (owner: string | null) => {
+  // Reloaded when reads move to another network
+  const { readNetwork } = useWallet();
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (owner === null) return;
+    if (!ethers.utils.isAddress(owner)) {
+      setCredentials([]);
+      setError(`"${owner}" is not a valid address.`);
+      return;
+    }
+
+    let isCancelled = false;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const indexed = await getIndexedCredentialsByOwner(owner);
+        const loaded = await Promise.all(indexed.map(async ({ tokenId, confirmations, requiredConfirmations }): Promise<Credential> => {
+          const details = await getCredential(tokenId);
+          return {
+            id: tokenId.toString(),
+            name: details.title,
+            issuer: details.issuer,
+            issueDate: details.issueDate.toISOString().slice(0, 10),
+            ipfsHash: details.ipfsHash,
+            tokenId: tokenId.toString(),
+            summary: details.description,
+            isLocked: details.isLocked,
+            expiresAt: details.expiresAt?.toISOString(),
+            status: details.status,
+            source: 'on-chain',
+            anchoring: {
+              state: confirmations >= requiredConfirmations ? 'final' : 'included',
+              confirmations,
+              requiredConfirmations,
+            },
+          };
+        }));
+        if (!isCancelled) setCredentials(loaded);
+      } catch (err) {
+        console.error('Error loading public credentials:', err);
+        if (!isCancelled) setError(toAppError(err, 'Failed to load credentials').message);
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      isCancelled = true;
+    };
+  }, [owner, readNetwork]);
+
+  return { credentials, isLoading, error };
+};
+
+/**
+ * Follow the mints of credentials minted from this browser, so they only show as anchored once
+ * they reach the network's confirmation depth
+ * @param credentials The holder's credentials
+ */
+const useMintConfirmations = (credentials: Credential[]): Credential[] => {
+  const [, setTransactionsVersion] = useState(0);
+
+  useEffect(() => onTransactionsChange(() => setTransactionsVersion(version => version + 1)), []);
+
+  return credentials.map(credential => {
+    // A sped-up mint is followed to the transaction that replaced it
+    const transaction = credential.txHash ? getLatestTransactionStatus(credential.txHash) : null;
+    if (!transaction) {
+      return credential;
+    }
+    const { status: state, confirmations, requiredConfirmations } = transaction;
+    return { ...credential, anchoring: { state, confirmations, requiredConfirmations } };
+  });
+};
+
+interface DashboardPageProps {
+  // Show this address's public credentials, read-only, instead of the connected wallet's
+  viewedAddress?: string;
+}
+
+const DashboardPage: React.FC<DashboardPageProps> = ({ viewedAddress }) => {
+  const isPublicView = viewedAddress !== undefined;
+  const ownCredentials = useCredentials();
+  const publicCredentials = usePublicCredentials(viewedAddress ?? null);
+  const ownCredentialsWithConfirmations = useMintConfirmations(ownCredentials.credentials);
+  const { credentials, isLoading } = isPublicView
+    ? publicCredentials
+    : { ...ownCredentials, credentials: ownCredentialsWithConfirmations };
+  const { addSignedCredential } = ownCredentials;
+  const { address, network, readNetwork, roles } = useWallet();
+  const navigate = useNavigate();
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ExpiryStatus | 'all'>('all');
   const [selectedCredential, setSelectedCredential] = useState<Credential | null>(null);
   const [showAIModal, setShowAIModal] = useState(false);
 
-  const handleCopyCredentialLink = useCallback((credentialId: string) => {
-    const url = `${window.location.origin}/verify/${credentialId}`;
+  const handleCopyCredentialLink = useCallback((tokenId: string) => {
+    const url = `${window.location.origin}/verify/${tokenId}`;
     copyToClipboard(url, 'Credential link copied to clipboard!');
   }, []);
 
+  const handleCopyDashboardLink = useCallback(() => {
+    if (!address) return;
+    const url = `${window.location.origin}/dashboard?address=${address}`;
+    copyToClipboard(url, 'Public dashboard link copied to clipboard!');
+  }, [address]);
+
   const handleViewOnExplorer = useCallback((txHash: string) => {
-    const explorerUrl = `https://mumbai.polygonscan.com/tx/${txHash}`;
+    const explorerUrl = getExplorerUrl(network ?? readNetwork, 'tx', txHash);
+    if (!explorerUrl) {
+      toast.error('This network has no block explorer');
+      return;
+    }
     window.open(explorerUrl, '_blank');
-  }, []);
+  }, [network, readNetwork]);
+
+  const handleImportSignedCredential = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const signed = parseSignedCredential(await file.text());
+      const { status } = await verifySignedCredential(signed);
+      if (status !== 'valid') {
+        toast.error(signedCredentialErrors[status]);
+        return;
+      }
+      addSignedCredential(signed);
+      toast.success(`Added "${signed.credential.title}"`);
+    } catch (err) {
+      console.error('Error importing signed credential:', err);
+      toast.error(toAppError(err, 'Failed to import credential').message);
+    }
+  };
 
   const filteredCredentials = credentials.filter((cred) =>
-    cred.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    cred.issuer.toLowerCase().includes(searchTerm.toLowerCase())
+    (cred.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      cred.issuer.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    (statusFilter === 'all' || getExpiryStatus(cred.expiresAt) === statusFilter)
   );
 
   const handleCredentialSelect = (credential: Credential) => {
+    // Visitors get the credential's verification page
+    if (isPublicView) {
+      navigate(`/verify/${credential.tokenId ?? credential.id}`);
+      return;
+    }
     setSelectedCredential(credential);
     setShowAIModal(true);
   };
@@ -41,21 +201,62 @@ const DashboardPage = () => {
         <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
           <div>
             <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
-              Your Credentials
+              {isPublicView ? `Credentials of ${formatAddress(viewedAddress)}` : 'Your Credentials'}
             </h1>
             <p className="text-gray-600">
-              Manage and verify your blockchain-secured learning credentials
+              {isPublicView
+                ? 'A public, read-only view of the credentials this address holds'
+                : 'Manage and verify your blockchain-secured learning credentials'}
             </p>
           </div>
-          <Link to="/upload" className="btn-primary flex items-center mt-4 md:mt-0">
-            <Plus className="w-4 h-4 mr-2" />
-            Add New Credential
-          </Link>
+          {isPublicView ? (
+            <div className="flex items-center text-sm text-gray-500 mt-4 md:mt-0" title={viewedAddress}>
+              <Eye className="w-4 h-4 mr-2" />
+              Read-only
+            </div>
+          ) : (
+            <div className="flex items-center gap-3 mt-4 md:mt-0">
+              <button
+                onClick={handleCopyDashboardLink}
+                className="btn-outline flex items-center"
+              >
+                <Share2 className="w-4 h-4 mr-2" />
+                Share Dashboard
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="btn-outline flex items-center"
+              >
+                <FileKey className="w-4 h-4 mr-2" />
+                Import Signed Credential
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportSignedCredential}
+              />
+              {roles?.issuer && (
+                <Link to="/upload" className="btn-primary flex items-center">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add New Credential
+                </Link>
+              )}
+            </div>
+          )}
         </div>
 
-        {/* Search */}
-        <div className="mb-8">
-          <div className="relative">
+        {isPublicView && publicCredentials.error && (
+          <div className="mb-8 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+            <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+            <p className="text-sm">{publicCredentials.error}</p>
+          </div>
+        )}
+
+        {/* Search and Filter */}
+        <div className="mb-8 flex flex-col md:flex-row gap-4">
+          <div className="relative flex-grow">
             <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
             <input
               type="text"
@@ -65,6 +266,17 @@ const DashboardPage = () => {
               onChange={(e) => setSearchTerm(e.target.value)}
             />
           </div>
+          <select
+            className="block md:w-48 px-3 py-2 border border-gray-300 rounded-lg"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ExpiryStatus | 'all')}
+            aria-label="Filter by status"
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(expiryStatusLabels) as ExpiryStatus[]).map((status) => (
+              <option key={status} value={status}>{expiryStatusLabels[status]}</option>
+            ))}
+          </select>
         </div>
 
         {/* Credentials Grid */}
@@ -76,24 +288,26 @@ const DashboardPage = () => {
               <div key={credential.id} className="relative group">
                 <CredentialCard
                   credential={credential}
-                  onSelect={handleCredentialSelect}
+                  onClick={() => handleCredentialSelect(credential)}
                 />
                 <div className="absolute top-3 right-3 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleCopyCredentialLink(credential.id);
-                    }}
-                    className="p-2 bg-white rounded-full shadow-md"
-                  >
-                    <Share2 className="w-4 h-4 text-gray-600" />
-                  </button>
+                  {credential.source !== 'signed' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleCopyCredentialLink(credential.tokenId ?? credential.id);
+                      }}
+                      className="p-2 bg-white rounded-full shadow-md"
+                    >
+                      <Share2 className="w-4 h-4 text-gray-600" />
+                    </button>
+                  )}
 
                   {credential.txHash && (
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleViewOnExplorer(credential.txHash);
+                        if (credential.txHash) handleViewOnExplorer(credential.txHash);
                       }}
                       className="p-2 bg-white rounded-full shadow-md"
                     >
@@ -113,10 +327,14 @@ const DashboardPage = () => {
             <p className="mt-2 text-gray-500">
               {searchTerm
                 ? `No credentials matching "${searchTerm}".`
-                : "You haven't uploaded any credentials yet."}
+                : statusFilter !== 'all'
+                  ? `No ${expiryStatusLabels[statusFilter].toLowerCase()} credentials.`
+                  : isPublicView
+                    ? 'This address holds no credentials.'
+                    : "You haven't uploaded any credentials yet."}
             </p>
 
-            {!searchTerm && (
+            {!isPublicView && roles?.issuer && !searchTerm && statusFilter === 'all' && (
               <div className="mt-6">
                 <Link
                   to="/upload"
@@ -130,22 +348,31 @@ const DashboardPage = () => {
           </div>
         )}
 
-        {/* AI Promo */}
-        <div className="mt-12 bg-gradient-to-r from-primary-50 to-secondary-50 rounded-xl p-8">
-          <div className="flex items-center">
-            <div className="bg-white rounded-full p-4 shadow-md mr-6">
-              <Brain className="h-8 w-8 text-primary-600" />
+        {!isPublicView && (
+          <>
+            {/* Recent Activity */}
+            <div className="mt-12">
+              <RecentActivity />
             </div>
-            <div>
-              <h2 className="text-xl font-semibold text-gray-900 mb-2">
-                AI-Powered Insights
-              </h2>
-              <p className="text-gray-600">
-                Get personalized learning insights based on your credentials.
-              </p>
+
+            {/* AI Promo */}
+            <div className="mt-12 bg-gradient-to-r from-primary-50 to-secondary-50 rounded-xl p-8">
+              <div className="flex items-center">
+                <div className="bg-white rounded-full p-4 shadow-md mr-6">
+                  <Brain className="h-8 w-8 text-primary-600" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                    AI-Powered Insights
+                  </h2>
+                  <p className="text-gray-600">
+                    Get personalized learning insights based on your credentials.
+                  </p>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
+          </>
+        )}
 
       </div>
 
@@ -161,4 +388,18 @@ const DashboardPage = () => {
   );
 };
 
-export default DashboardPage;
\ No newline at end of file
+// Anyone can view an address's public credentials with ?address=; your own dashboard needs a wallet
+const DashboardRoute = () => {
+  const [searchParams] = useSearchParams();
+  const viewedAddress = searchParams.get('address');
+
+  return viewedAddress !== null ? (
+    <DashboardPage viewedAddress={viewedAddress} />
+  ) : (
+    <ProtectedRoute>
+      <DashboardPage />
+    </ProtectedRoute>
+  );
+};
+
+export default DashboardRoute;
\ No newline at end of file
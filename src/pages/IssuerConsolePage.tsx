@@ -0,0 +1,78 @@
+import { Link } from 'react-router-dom';
+import { FilePlus, Layers, ShieldOff, ShieldCheck, ArrowRight } from 'lucide-react';
+import { useWallet } from '../contexts/WalletContext';
+
+const issuerTools = [
+  {
+    name: 'Issue a Credential',
+    description: 'Upload a document and mint a single credential to a holder',
+    path: '/upload',
+    icon: FilePlus,
+  },
+  {
+    name: 'Batch Issue',
+    description: 'Issue a whole cohort from a CSV as tokens, a Merkle root or signed files',
+    path: '/issuer/batch',
+    icon: Layers,
+  },
+  {
+    name: 'Revocations',
+    description: 'Revoke, suspend, reinstate or amend credentials and search past revocations',
+    path: '/issuer/revocations',
+    icon: ShieldOff,
+  },
+];
+
+// Landing page for issuers, linking the tools that need the issuer role
+const IssuerConsolePage = () => {
+  const { issuedCredentials, roles } = useWallet();
+  const activeCount = issuedCredentials.filter(credential => credential.status === 'active').length;
+
+  return (
+    <div className="py-8 bg-gray-50 min-h-screen">
+      <div className="container-custom">
+        <div className="mb-8">
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+            Issuer Console
+          </h1>
+          <p className="text-gray-600">
+            You have issued {issuedCredentials.length} credential{issuedCredentials.length === 1 ? '' : 's'},
+            {' '}{activeCount} of them active
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {issuerTools.map(tool => (
+            <Link
+              key={tool.path}
+              to={tool.path}
+              className="card p-6 flex flex-col hover:border-primary-300 transition-colors duration-200"
+            >
+              <tool.icon className="w-8 h-8 text-primary-600" />
+              <h2 className="mt-4 text-lg font-semibold text-gray-900">{tool.name}</h2>
+              <p className="mt-2 text-sm text-gray-600 flex-grow">{tool.description}</p>
+              <span className="mt-4 inline-flex items-center text-sm font-medium text-primary-600">
+                Open
+                <ArrowRight className="w-4 h-4 ml-1" />
+              </span>
+            </Link>
+          ))}
+        </div>
+
+        {roles?.admin && (
+          <div className="mt-8 bg-white rounded-xl shadow-sm p-6 flex items-center justify-between">
+            <div className="flex items-center">
+              <ShieldCheck className="w-6 h-6 text-primary-600 mr-3" />
+              <p className="text-gray-700">You are also an admin and can manage which accounts may issue.</p>
+            </div>
+            <Link to="/admin" className="btn-outline">
+              Manage Issuers
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IssuerConsolePage;
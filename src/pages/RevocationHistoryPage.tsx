@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, RefreshCw, ShieldOff, ExternalLink } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  getRevocationHistory,
+  revokeCredential,
+  estimateRevokeCredential,
+  suspendCredential,
+  reinstateCredential,
+  RevocationRecord,
+  TransactionFees,
+} from '../services/contractService';
+import { toAppError } from '../utils/errors';
+import { formatAddress } from '../utils/clipboard';
+import AmendCredentialForm from '../components/credentials/AmendCredentialForm';
+import FeeConfirmationDialog from '../components/transactions/FeeConfirmationDialog';
+
+type StatusAction = 'revoke' | 'suspend' | 'reinstate';
+
+const statusActions: Record<StatusAction, {
+  label: string;
+  pastTense: string;
+  run: (tokenId: number, reason: string, fees?: TransactionFees) => Promise<unknown>;
+}> = {
+  suspend: { label: 'Suspend', pastTense: 'suspended', run: suspendCredential },
+  reinstate: { label: 'Reinstate', pastTense: 'reinstated', run: (tokenId) => reinstateCredential(tokenId) },
+  revoke: { label: 'Revoke', pastTense: 'revoked', run: revokeCredential },
+};
+
+const RevocationHistoryPage = () => {
+  const { address, isContractInitialized } = useWallet();
+  const [revocations, setRevocations] = useState<RevocationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [tokenId, setTokenId] = useState('');
+  const [action, setAction] = useState<StatusAction>('suspend');
+  const [reason, setReason] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isConfirmingFees, setIsConfirmingFees] = useState(false);
+
+  const loadRevocations = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setRevocations(await getRevocationHistory());
+    } catch (err) {
+      console.error('Error loading revocation history:', err);
+      toast.error(toAppError(err, 'Failed to load revocation history').message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isContractInitialized) {
+      loadRevocations();
+    }
+  }, [isContractInitialized, loadRevocations]);
+
+  const changeStatus = async (fees?: TransactionFees) => {
+    try {
+      setIsUpdating(true);
+      await statusActions[action].run(Number(tokenId), reason.trim(), fees);
+      toast.success(`Credential #${tokenId} ${statusActions[action].pastTense}`);
+      setTokenId('');
+      setReason('');
+      if (action === 'revoke') {
+        await loadRevocations();
+      }
+    } catch (err) {
+      console.error(`Error trying to ${action} credential:`, err);
+      toast.error(toAppError(err, 'Failed to update credential status').message);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Revocation is permanent, so its fees are previewed before signing
+  const handleStatusChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (action === 'revoke') {
+      setIsConfirmingFees(true);
+    } else {
+      changeStatus();
+    }
+  };
+
+  const estimateRevocation = useCallback(
+    () => estimateRevokeCredential(Number(tokenId), reason.trim()),
+    [tokenId, reason]
+  );
+
+  const needsReason = action !== 'reinstate';
+
+  const filteredRevocations = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase().replace(/^#/, '');
+    return revocations.filter(revocation => {
+      if (onlyMine && revocation.revokedBy.toLowerCase() !== address?.toLowerCase()) {
+        return false;
+      }
+      return !term
+        || revocation.tokenId.toString() === term
+        || revocation.reason.toLowerCase().includes(term)
+        || revocation.revokedBy.toLowerCase().includes(term)
+        || revocation.txHash.toLowerCase() === term;
+    });
+  }, [revocations, searchTerm, onlyMine, address]);
+
+  return (
+    <div className="py-8 bg-gray-50 min-h-screen">
+      <div className="container-custom">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+              Revocation History
+            </h1>
+            <p className="text-gray-600">
+              Every credential revoked on-chain, with the reason recorded at the time
+            </p>
+          </div>
+          <button
+            onClick={loadRevocations}
+            disabled={isLoading}
+            className="btn-outline flex items-center mt-4 md:mt-0"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <form onSubmit={handleStatusChange} className="bg-white rounded-xl shadow-sm p-6 mb-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Change Credential Status</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Suspend a credential during an investigation and reinstate it afterwards. Revocation is permanent.
+          </p>
+          <div className="flex flex-col md:flex-row gap-4">
+            <select
+              className="input md:w-40"
+              value={action}
+              onChange={(e) => setAction(e.target.value as StatusAction)}
+            >
+              <option value="suspend">Suspend</option>
+              <option value="reinstate">Reinstate</option>
+              <option value="revoke">Revoke</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              className="input md:w-40"
+              placeholder="Token ID"
+              value={tokenId}
+              onChange={(e) => setTokenId(e.target.value)}
+            />
+            <input
+              type="text"
+              className="input"
+              placeholder={needsReason ? 'Reason, e.g. Under investigation' : 'No reason needed to reinstate'}
+              value={needsReason ? reason : ''}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={!needsReason}
+            />
+            <button
+              type="submit"
+              disabled={tokenId === '' || (needsReason && !reason.trim()) || isUpdating}
+              className="btn-primary flex items-center justify-center whitespace-nowrap disabled:opacity-50"
+            >
+              <ShieldOff className="w-4 h-4 mr-2" />
+              {isUpdating ? 'Updating...' : statusActions[action].label}
+            </button>
+          </div>
+        </form>
+
+        <FeeConfirmationDialog
+          isOpen={isConfirmingFees}
+          title="Confirm Revocation"
+          summary={`Revoke credential #${tokenId} with the reason "${reason.trim()}". This cannot be undone.`}
+          confirmLabel="Revoke"
+          estimate={estimateRevocation}
+          onConfirm={(fees) => {
+            setIsConfirmingFees(false);
+            changeStatus(fees);
+          }}
+          onCancel={() => setIsConfirmingFees(false)}
+        />
+
+        <AmendCredentialForm />
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+            <div className="relative flex-grow">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                className="input pl-9"
+                placeholder="Search by token ID, reason, revoker or transaction"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={onlyMine}
+                onChange={(e) => setOnlyMine(e.target.checked)}
+              />
+              Revoked by me
+            </label>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 pr-4 font-medium">Credential</th>
+                  <th className="py-2 pr-4 font-medium">Reason</th>
+                  <th className="py-2 pr-4 font-medium">Revoked By</th>
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 font-medium">Block</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filteredRevocations.map(revocation => (
+                  <tr key={revocation.txHash + revocation.tokenId} className="align-top">
+                    <td className="py-3 pr-4">
+                      <Link to={`/verify/${revocation.tokenId}`} className="flex items-center text-primary-600 hover:text-primary-700">
+                        #{revocation.tokenId}
+                        <ExternalLink className="w-3 h-3 ml-1" />
+                      </Link>
+                    </td>
+                    <td className="py-3 pr-4 text-gray-900">{revocation.reason || '—'}</td>
+                    <td className="py-3 pr-4 font-mono text-gray-900" title={revocation.revokedBy}>
+                      {formatAddress(revocation.revokedBy)}
+                      {revocation.revokedBy.toLowerCase() === address?.toLowerCase() && (
+                        <span className="ml-2 text-xs text-gray-500 font-sans">(you)</span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-600">{revocation.revokedAt.toLocaleString()}</td>
+                    <td className="py-3 text-gray-600 font-mono" title={revocation.txHash}>{revocation.blockNumber}</td>
+                  </tr>
+                ))}
+                {!isLoading && filteredRevocations.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-gray-500">
+                      {revocations.length === 0 ? 'No credentials have been revoked.' : 'No revocations match your search.'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevocationHistoryPage;
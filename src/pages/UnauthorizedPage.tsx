@@ -0,0 +1,76 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Lock, Wallet, RefreshCw } from 'lucide-react';
+import { useWallet } from '../contexts/WalletContext';
+import { WalletButton } from '../components/wallet/WalletButton';
+import { UserRole } from '../services/roleService';
+import { formatAddress } from '../utils/clipboard';
+
+interface UnauthorizedPageProps {
+  // The role, or any of the roles, the page needs; omitted when it only needs a connected wallet
+  requiredRole?: UserRole | UserRole[];
+}
+
+const roleDescriptions: Record<UserRole, string> = {
+  holder: 'a connected wallet',
+  issuer: 'the issuer role, which lets an account mint and manage credentials',
+  admin: 'the admin role, which lets an account manage issuers',
+};
+
+// Shown in place of a protected page, explaining what the page needs rather than redirecting away
+const UnauthorizedPage: React.FC<UnauthorizedPageProps> = ({ requiredRole }) => {
+  const { address, network, rolesError, refreshRoles, isResolvingRoles } = useWallet();
+  const required = requiredRole ? (Array.isArray(requiredRole) ? requiredRole : [requiredRole]) : [];
+
+  if (!address) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm p-8 max-w-md text-center">
+          <Wallet className="mx-auto h-12 w-12 text-primary-600" />
+          <h2 className="mt-4 text-xl font-bold text-gray-900">Connect your wallet</h2>
+          <p className="mt-2 text-gray-600">
+            This page shows information tied to your account, so it needs a connected wallet.
+          </p>
+          <div className="mt-6 flex justify-center">
+            <WalletButton />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-sm p-8 max-w-md text-center">
+        <Lock className="mx-auto h-12 w-12 text-warning-500" />
+        <h2 className="mt-4 text-xl font-bold text-gray-900">
+          {rolesError ? "Couldn't check your role" : 'Not authorized'}
+        </h2>
+        {rolesError ? (
+          <p className="mt-2 text-gray-600">{rolesError}</p>
+        ) : (
+          <p className="mt-2 text-gray-600">
+            This page needs {required.map(role => roleDescriptions[role]).join(' or ')}.
+            {' '}The account {formatAddress(address)} doesn't hold it on {network?.name ?? 'this network'}.
+            {' '}Ask an admin to grant it, or switch to an account that has it.
+          </p>
+        )}
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            onClick={refreshRoles}
+            disabled={isResolvingRoles}
+            className="btn-outline flex items-center disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isResolvingRoles ? 'animate-spin' : ''}`} />
+            Check Again
+          </button>
+          <Link to="/dashboard" className="btn-primary">
+            Go to Dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnauthorizedPage;
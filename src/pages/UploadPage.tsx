@@ -1,29 +1,51 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Upload, Check, FileText, Shield, AlertTriangle } from 'lucide-react';
+import { Upload, Check, FileText, Shield, AlertTriangle, Layers } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import { useCredentials } from '../contexts/CredentialsContext';
+import { useWallet } from '../contexts/WalletContext';
 import UploadSteps from '../components/upload/UploadSteps';
 import CredentialForm from '../components/upload/CredentialForm';
-import { uploadToIPFS } from '../services/ipfsService';
-import { mintNFT } from '../services/web3Service';
+import FeeConfirmationDialog from '../components/transactions/FeeConfirmationDialog';
+import { uploadToIPFS, uploadCredentialMetadata } from '../services/ipfsService';
+import {
+  mintCredential,
+  estimateMintCredential,
+  getLatestTransactionStatus,
+  recoverMintTransaction,
+  onTransactionsChange,
+  TransactionFees,
+  TransactionStatus
+} from '../services/contractService';
 import { parsePDF, generatePDFPreview } from '../services/pdfService';
+import { toAppError } from '../utils/errors';
 
 interface CredentialFormData {
   name: string;
   issuer: string;
   issueDate: string;
+  expiresAt?: string;
+}
+
+// A credential whose document is on IPFS, waiting for its mint to be confirmed
+interface PendingMint {
+  data: CredentialFormData;
+  description: string;
+  expiresAt?: Date;
+  metadataURI: string;
 }
 
 const UploadPage = () => {
   const navigate = useNavigate();
   const { addCredential, setIsLoading } = useCredentials();
+  const { address, network } = useWallet();
   const [currentStep, setCurrentStep] = useState(1);
   const [file, setFile] = useState<File | null>(null);
   const [formData, setFormData] = useState<CredentialFormData>({
     name: '',
     issuer: '',
     issueDate: '',
+    expiresAt: '',
   });
   const [ipfsHash, setIpfsHash] = useState<string>('');
   const [tokenId, setTokenId] = useState<string>('');
@@ -31,6 +53,71 @@ const UploadPage = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [extractedText, setExtractedText] = useState<string>('');
   const [previewUrl, setPreviewUrl] = useState<string>('');
+  const [pendingMint, setPendingMint] = useState<PendingMint | null>(null);
+  const [mintTxHash, setMintTxHash] = useState<string>('');
+  const [mintTransaction, setMintTransaction] = useState<TransactionStatus | null>(null);
+
+  // Follow the mint, through any replacement, until it is deep enough that a reorg can't undo it
+  useEffect(() => {
+    if (!mintTxHash) return;
+    let isCancelled = false;
+    let search: 'not-started' | 'searching' | 'done' = 'not-started';
+
+    const giveUp = (transaction: TransactionStatus | null) => {
+      const reason = transaction?.status === 'failed'
+        ? 'The mint transaction reverted.'
+        : transaction?.reorgs
+          ? 'A chain reorganization removed the mint and it did not make it back onto the chain.'
+          : 'The mint did not make it onto the chain.';
+      setError(`${reason} Submit the details again to mint your credential.`);
+      setMintTxHash('');
+      setCurrentStep(2);
+    };
+
+    // The mint was replaced or dropped without the replacement being seen, e.g. a speed-up sent from the
+    // wallet: look for the document's mint on chain, once, rather than waiting forever
+    const searchForMint = async (transaction: TransactionStatus | null) => {
+      if (search === 'searching') return;
+      if (search === 'done') {
+        giveUp(transaction);
+        return;
+      }
+      search = 'searching';
+      try {
+        const found = await recoverMintTransaction(transaction?.hash ?? mintTxHash, ipfsHash);
+        search = 'done';
+        if (isCancelled) return;
+        if (found) {
+          update();
+        } else {
+          giveUp(transaction);
+        }
+      } catch (err) {
+        search = 'done';
+        console.error('Error looking for the mint transaction:', err);
+        if (!isCancelled) giveUp(transaction);
+      }
+    };
+
+    const update = () => {
+      const transaction = getLatestTransactionStatus(mintTxHash);
+      setMintTransaction(transaction);
+      if (!transaction || transaction.status === 'replaced' || transaction.status === 'dropped') {
+        searchForMint(transaction);
+      } else if (transaction.status === 'final') {
+        setCurrentStep(5);
+      } else if (transaction.status === 'failed') {
+        giveUp(transaction);
+      }
+    };
+
+    update();
+    const unsubscribe = onTransactionsChange(update);
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [mintTxHash, ipfsHash]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -57,6 +144,7 @@ const UploadPage = () => {
     await processCredential(data);
   };
 
+  // Upload the document and its metadata, then preview the minting fees before signing
   const processCredential = async (data: CredentialFormData) => {
     if (!file) return;
 
@@ -76,15 +164,53 @@ const UploadPage = () => {
       const hash = await uploadToIPFS(file);
       setIpfsHash(hash);
 
-      // Mint NFT
-      const id = await mintNFT({
-        name: data.name,
-        issuer: data.issuer,
-        issueDate: data.issueDate,
-        ipfsHash: hash,
-        extractedText,
-        previewUrl,
-      });
+      // Pin the metadata the credential's tokenURI points to
+      const description = extractedText.trim().substring(0, 200) || `${data.name} issued by ${data.issuer}`;
+      const expiresAt = data.expiresAt ? new Date(data.expiresAt) : undefined;
+      const metadataURI = await uploadCredentialMetadata(
+        { title: data.name, description, issuer: data.issuer, issueDate: new Date(data.issueDate), ipfsHash: hash, expiresAt },
+        previewUrl
+      );
+
+      setPendingMint({ data, description, expiresAt, metadataURI });
+    } catch (err) {
+      console.error('Error processing credential:', err);
+      setError('An error occurred while processing your credential. Please try again.');
+      setCurrentStep(2);
+    } finally {
+      setIsProcessing(false);
+      setIsLoading(false);
+    }
+  };
+
+  const estimateMint = useCallback(() => {
+    if (!address || !pendingMint) {
+      return Promise.reject(new Error('Please connect your wallet first'));
+    }
+    const { data, description, expiresAt, metadataURI } = pendingMint;
+    return estimateMintCredential(address, data.name, description, data.issuer, ipfsHash, expiresAt, metadataURI);
+  }, [address, pendingMint, ipfsHash]);
+
+  const mintPendingCredential = async (fees?: TransactionFees) => {
+    if (!address || !pendingMint) return;
+    const { data, description, expiresAt, metadataURI } = pendingMint;
+
+    try {
+      setPendingMint(null);
+      setIsProcessing(true);
+      setIsLoading(true);
+
+      const minted = await mintCredential(
+        address,
+        data.name,
+        description,
+        data.issuer,
+        ipfsHash,
+        expiresAt,
+        metadataURI,
+        fees
+      );
+      const id = minted.tokenId.toString();
       setTokenId(id);
 
       // Add to credentials context
@@ -93,17 +219,20 @@ const UploadPage = () => {
         name: data.name,
         issuer: data.issuer,
         issueDate: data.issueDate,
-        ipfsHash: hash,
+        expiresAt: data.expiresAt || undefined,
+        ipfsHash,
         tokenId: id,
         summary: extractedText.substring(0, 200),
         previewUrl,
+        txHash: minted.txHash,
       };
 
       addCredential(newCredential);
+      setMintTxHash(minted.txHash);
       setCurrentStep(4);
     } catch (err) {
-      console.error('Error processing credential:', err);
-      setError('An error occurred while processing your credential. Please try again.');
+      console.error('Error minting credential:', err);
+      setError(toAppError(err, 'Failed to mint credential').message);
       setCurrentStep(2);
     } finally {
       setIsProcessing(false);
@@ -111,6 +240,12 @@ const UploadPage = () => {
     }
   };
 
+  const cancelMint = () => {
+    setPendingMint(null);
+    setError('Minting was cancelled. Submit the details again to mint your credential.');
+    setCurrentStep(2);
+  };
+
   const goToDashboard = () => {
     navigate('/dashboard');
   };
@@ -130,6 +265,16 @@ const UploadPage = () => {
 
           <UploadSteps currentStep={currentStep} />
 
+          <FeeConfirmationDialog
+            isOpen={pendingMint !== null}
+            title="Confirm Minting"
+            summary={`Mint "${formData.name}" as a verification NFT to your wallet.`}
+            confirmLabel="Mint Credential"
+            estimate={estimateMint}
+            onConfirm={mintPendingCredential}
+            onCancel={cancelMint}
+          />
+
           <div className="bg-white rounded-xl shadow-sm p-6 md:p-8 mt-8">
             {error && (
               <div className="mb-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
@@ -187,13 +332,59 @@ const UploadPage = () => {
             )}
 
             {currentStep === 4 && (
+              <div className="text-center py-8">
+                <div className="w-16 h-16 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <Layers className="w-8 h-8 text-primary-600 animate-pulse" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900 mb-2">Confirming Your Credential</h2>
+                <p className="text-gray-600 max-w-md mx-auto">
+                  {mintTransaction?.status === 'included'
+                    ? `Your credential was minted in block ${mintTransaction.blockNumber}. `
+                    : 'Your credential is waiting to be included in a block. '}
+                  It is anchored once {mintTransaction?.requiredConfirmations ?? 'enough'} blocks
+                  {' '}on {network?.name ?? 'the network'} confirm it, so a chain reorganization can no longer undo it.
+                </p>
+
+                {mintTransaction && (
+                  <div className="max-w-md mx-auto mt-6">
+                    <div className="flex justify-between text-sm text-gray-500 mb-1">
+                      <span>Confirmations</span>
+                      <span>{mintTransaction.confirmations}/{mintTransaction.requiredConfirmations}</span>
+                    </div>
+                    <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-primary-600 transition-all duration-500"
+                        style={{ width: `${Math.min(100, (mintTransaction.confirmations / mintTransaction.requiredConfirmations) * 100)}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                )}
+
+                {(mintTransaction?.reorgs ?? 0) > 0 && (
+                  <div className="max-w-md mx-auto mt-6 bg-warning-50 text-warning-700 p-4 rounded-lg flex items-start text-left">
+                    <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+                    <p>
+                      A chain reorganization removed the mint from its block, so its confirmations started over.
+                      {' '}Your credential will be anchored once it is confirmed again.
+                    </p>
+                  </div>
+                )}
+
+                <p className="text-sm text-gray-500 mt-6">
+                  You can leave this page; the dashboard shows the credential as confirming until it is anchored.
+                </p>
+              </div>
+            )}
+
+            {currentStep === 5 && (
               <div className="text-center py-6">
                 <div className="w-16 h-16 bg-success-100 rounded-full flex items-center justify-center mx-auto mb-6">
                   <Check className="w-8 h-8 text-success-600" />
                 </div>
-                <h2 className="text-xl font-bold text-gray-900 mb-2">Credential Verified!</h2>
+                <h2 className="text-xl font-bold text-gray-900 mb-2">Credential Anchored!</h2>
                 <p className="text-gray-600 mb-6 max-w-md mx-auto">
-                  Your credential has been successfully uploaded to IPFS and verified with a blockchain NFT.
+                  Your credential has been uploaded to IPFS and its verification NFT is
+                  {' '}{mintTransaction?.confirmations ?? 'enough'} blocks deep on the blockchain, past the reach of a reorganization.
                 </p>
 
                 <div className="bg-gray-50 rounded-lg p-6 mb-6 text-left">
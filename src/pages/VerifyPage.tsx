@@ -0,0 +1,362 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ShieldCheck, ShieldX, ShieldAlert, AlertTriangle, Building, Calendar, Clock, User, FileText, FileJson, ExternalLink, Lock, Activity, History, ArrowRight } from 'lucide-react';
+import {
+  getCredential,
+  getCredentialOwner,
+  getRevocation,
+  getTokenURI,
+  getCredentialVersions,
+  CredentialDetails,
+  CredentialVersion,
+  RevocationDetails,
+} from '../services/contractService';
+import { getIPFSGatewayUrl } from '../services/ipfsService';
+import { toAppError } from '../utils/errors';
+import { formatAddress } from '../utils/clipboard';
+import DocumentVerifier from '../components/verify/DocumentVerifier';
+import ProofVerifier from '../components/verify/ProofVerifier';
+import ExpiryBadge from '../components/credentials/ExpiryBadge';
+import StatusBadge from '../components/credentials/StatusBadge';
+import { useWallet } from '../contexts/WalletContext';
+import { getExpiryStatus } from '../utils/expiry';
+import { diffCredentialVersions } from '../utils/credentialDiff';
+
+interface VerifiedCredential extends CredentialDetails {
+  owner: string;
+  revocation: RevocationDetails | null;
+  metadataURI: string | null;
+  versions: CredentialVersion[];
+}
+
+const VerifyPage = () => {
+  const { tokenId } = useParams<{ tokenId: string }>();
+  // Verification is repeated when reads move to another network
+  const { readNetwork } = useWallet();
+  const [credential, setCredential] = useState<VerifiedCredential | null>(null);
+  const [isLoading, setIsLoading] = useState(tokenId !== undefined);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (tokenId === undefined) return;
+
+    let cancelled = false;
+
+    const verifyCredential = async () => {
+      setIsLoading(true);
+      setError('');
+      setCredential(null);
+
+      try {
+        const id = Number(tokenId);
+        const [details, owner, metadataURI] = await Promise.all([
+          getCredential(id),
+          getCredentialOwner(id),
+          getTokenURI(id),
+        ]);
+        const isAmended = details.previousVersion !== null || details.currentVersion !== id;
+        const [revocation, versions] = await Promise.all([
+          details.status === 'revoked' ? getRevocation(id) : null,
+          isAmended ? getCredentialVersions(id) : [],
+        ]);
+        if (!cancelled) {
+          setCredential({ ...details, owner, revocation, metadataURI, versions });
+        }
+      } catch (err) {
+        console.error('Error verifying credential:', err);
+        if (!cancelled) {
+          setError(toAppError(err, 'Failed to verify credential').message);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    verifyCredential();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId, readNetwork]);
+
+  const formatDate = (date: Date) => {
+    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
+    return date.toLocaleDateString(undefined, options);
+  };
+
+  return (
+    <div className="py-8 bg-gray-50 min-h-screen">
+      <div className="container-custom">
+        <div className="max-w-3xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Credential Verification</h1>
+            <p className="text-gray-600">
+              {tokenId !== undefined
+                ? `Checking credential #${tokenId} against the blockchain record`
+                : 'Drop a credential PDF to check it against the blockchain record'}
+            </p>
+          </div>
+
+          {tokenId === undefined ? (
+            <>
+              <div className="bg-white rounded-xl shadow-sm p-6 md:p-8">
+                <DocumentVerifier />
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm p-6 md:p-8 mt-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-2">Check a Proof File</h2>
+                <p className="text-gray-600 mb-6">
+                  Credentials issued in bulk come with a proof file instead of a token. Drop it here to check it against the anchored batch.
+                </p>
+                <ProofVerifier />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="bg-white rounded-xl shadow-sm p-6 md:p-8">
+                {isLoading && (
+                  <div className="text-center py-8">
+                    <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary-600 mx-auto mb-6"></div>
+                    <p className="text-gray-600">Reading credential from the blockchain...</p>
+                  </div>
+                )}
+
+                {!isLoading && error && (
+                  <div className="text-center py-6">
+                    <div className="w-16 h-16 bg-error-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                      <AlertTriangle className="w-8 h-8 text-error-600" />
+                    </div>
+                    <h2 className="text-xl font-bold text-gray-900 mb-2">Unable to Verify</h2>
+                    <p className="text-gray-600 max-w-md mx-auto">{error}</p>
+                  </div>
+                )}
+
+                {!isLoading && credential && (
+                  <div>
+                    {credential.status === 'revoked' ? (
+                      <div className="mb-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+                        <ShieldX className="w-6 h-6 mr-3 flex-shrink-0" />
+                        <div>
+                          <p className="font-bold">Revoked</p>
+                          <p className="text-sm">This credential has been revoked by its issuer and is no longer valid.</p>
+                          {credential.revocation && (
+                            <p className="text-sm mt-2">
+                              Revoked on {formatDate(credential.revocation.revokedAt)} by{' '}
+                              <span className="font-mono" title={credential.revocation.revokedBy}>
+                                {formatAddress(credential.revocation.revokedBy)}
+                              </span>
+                              {credential.revocation.reason && <>: "{credential.revocation.reason}"</>}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ) : credential.status === 'superseded' ? (
+                      <div className="mb-6 bg-warning-50 text-warning-700 p-4 rounded-lg flex items-start">
+                        <History className="w-6 h-6 mr-3 flex-shrink-0" />
+                        <div>
+                          <p className="font-bold">Superseded</p>
+                          <p className="text-sm">This credential has been replaced by an amended version and is no longer valid.</p>
+                          <Link
+                            to={`/verify/${credential.currentVersion}`}
+                            className="inline-flex items-center text-sm font-medium mt-2 hover:underline"
+                          >
+                            View the current version (#{credential.currentVersion})
+                            <ArrowRight className="w-4 h-4 ml-1" />
+                          </Link>
+                        </div>
+                      </div>
+                    ) : credential.status === 'suspended' ? (
+                      <div className="mb-6 bg-warning-50 text-warning-700 p-4 rounded-lg flex items-start">
+                        <ShieldAlert className="w-6 h-6 mr-3 flex-shrink-0" />
+                        <div>
+                          <p className="font-bold">Suspended</p>
+                          <p className="text-sm">This credential has been temporarily suspended by its issuer and is not valid until it is reinstated.</p>
+                        </div>
+                      </div>
+                    ) : getExpiryStatus(credential.expiresAt) === 'expired' ? (
+                      <div className="mb-6 bg-error-50 text-error-700 p-4 rounded-lg flex items-start">
+                        <Clock className="w-6 h-6 mr-3 flex-shrink-0" />
+                        <div>
+                          <p className="font-bold">Expired</p>
+                          <p className="text-sm">This credential was valid until {formatDate(credential.expiresAt!)} and has since expired.</p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mb-6 bg-success-50 text-success-700 p-4 rounded-lg flex items-start">
+                        <ShieldCheck className="w-6 h-6 mr-3 flex-shrink-0" />
+                        <div>
+                          <p className="font-bold">Valid</p>
+                          <p className="text-sm">This credential is recorded on the blockchain and has not been suspended, revoked or expired.</p>
+                        </div>
+                      </div>
+                    )}
+
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">{credential.title}</h2>
+                    {credential.description && (
+                      <p className="text-gray-600 mb-6">{credential.description}</p>
+                    )}
+
+                    <div className="bg-gray-50 rounded-lg p-6 space-y-4">
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center text-sm font-medium text-gray-500">
+                          <Activity className="w-4 h-4 mr-2" />
+                          Status
+                        </span>
+                        <StatusBadge status={credential.status} />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center text-sm font-medium text-gray-500">
+                          <Building className="w-4 h-4 mr-2" />
+                          Issuer
+                        </span>
+                        <span className="text-sm text-gray-900">{credential.issuer}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center text-sm font-medium text-gray-500">
+                          <Calendar className="w-4 h-4 mr-2" />
+                          Issue Date
+                        </span>
+                        <span className="text-sm text-gray-900">{formatDate(credential.issueDate)}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center text-sm font-medium text-gray-500">
+                          <Clock className="w-4 h-4 mr-2" />
+                          Expires
+                        </span>
+                        <span className="flex items-center text-sm text-gray-900">
+                          {credential.expiresAt ? formatDate(credential.expiresAt) : 'Never'}
+                          <span className="ml-2">
+                            <ExpiryBadge status={getExpiryStatus(credential.expiresAt)} />
+                          </span>
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center text-sm font-medium text-gray-500">
+                          <User className="w-4 h-4 mr-2" />
+                          Owner
+                        </span>
+                        <span className="text-sm text-primary-600 font-mono" title={credential.owner}>
+                          {formatAddress(credential.owner)}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center text-sm font-medium text-gray-500">
+                          <Lock className="w-4 h-4 mr-2" />
+                          Transferable
+                        </span>
+                        <span className="text-sm text-gray-900">
+                          {credential.isLocked ? 'No (soulbound to owner)' : 'Yes'}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center text-sm font-medium text-gray-500">
+                          <FileText className="w-4 h-4 mr-2" />
+                          Document
+                        </span>
+                        <a
+                          href={getIPFSGatewayUrl(credential.ipfsHash)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center text-sm text-primary-600 hover:text-primary-700 font-mono"
+                        >
+                          {credential.ipfsHash.substring(0, 18)}...
+                          <ExternalLink className="w-4 h-4 ml-1" />
+                        </a>
+                      </div>
+                      {credential.metadataURI && (
+                        <div className="flex items-center justify-between">
+                          <span className="flex items-center text-sm font-medium text-gray-500">
+                            <FileJson className="w-4 h-4 mr-2" />
+                            Metadata
+                          </span>
+                          <a
+                            href={getIPFSGatewayUrl(credential.metadataURI.replace('ipfs://', ''))}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+                          >
+                            View token metadata
+                            <ExternalLink className="w-4 h-4 ml-1" />
+                          </a>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {credential && credential.versions.length > 1 && (
+                <div className="bg-white rounded-xl shadow-sm p-6 md:p-8 mt-8">
+                  <h2 className="text-xl font-bold text-gray-900 mb-2">Version History</h2>
+                  <p className="text-gray-600 mb-6">
+                    This credential was amended by its issuer. Each version replaced the one before it.
+                  </p>
+                  <ol className="space-y-4">
+                    {credential.versions.map((version, index) => {
+                      const changes = index > 0 ? diffCredentialVersions(credential.versions[index - 1], version) : [];
+                      const isViewing = version.tokenId === Number(tokenId);
+                      return (
+                        <li
+                          key={version.tokenId}
+                          className={`rounded-lg p-4 ${isViewing ? 'bg-primary-50 border border-primary-200' : 'bg-gray-50'}`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center">
+                              {isViewing ? (
+                                <span className="font-medium text-gray-900">#{version.tokenId}</span>
+                              ) : (
+                                <Link to={`/verify/${version.tokenId}`} className="font-medium text-primary-600 hover:text-primary-700">
+                                  #{version.tokenId}
+                                </Link>
+                              )}
+                              <span className="ml-3 text-sm text-gray-500">
+                                {index === 0 ? 'Original' : `Amendment ${index}`}, issued {formatDate(version.issueDate)}
+                              </span>
+                            </div>
+                            <StatusBadge status={version.status} />
+                          </div>
+                          {changes.length > 0 && (
+                            <dl className="mt-3 space-y-1 text-sm">
+                              {changes.map(change => (
+                                <div key={change.field} className="flex flex-wrap items-center gap-x-2">
+                                  <dt className="font-medium text-gray-500">{change.label}:</dt>
+                                  <dd className="text-error-600 line-through break-all">{change.before}</dd>
+                                  <ArrowRight className="w-3 h-3 text-gray-400" />
+                                  <dd className="text-success-700 break-all">{change.after}</dd>
+                                </div>
+                              ))}
+                            </dl>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              )}
+
+              {credential && (
+                <div className="bg-white rounded-xl shadow-sm p-6 md:p-8 mt-8">
+                  <h2 className="text-xl font-bold text-gray-900 mb-2">Check a Document</h2>
+                  <p className="text-gray-600 mb-4">
+                    Received a PDF for this credential? Drop it here to confirm it is the registered original.
+                  </p>
+                  <DocumentVerifier expectedTokenId={Number(tokenId)} />
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="text-center mt-6">
+            <Link to="/" className="text-sm font-medium text-primary-600 hover:text-primary-700">
+              Learn more about EduCred Chain
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyPage;
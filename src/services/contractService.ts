@@ -1,64 +1,133 @@
 import { ethers } from 'ethers';
-import { AppError, ValidationError, toAppError } from '../utils/errors';
-
-declare global {
-  interface Window {
-    ethereum?: {
-      isMetaMask?: boolean;
-      request: (request: { method: string; params?: any[] }) => Promise<any>;
-      on: (event: string, callback: (...args: any[]) => void) => void;
-      removeListener: (event: string, callback: (...args: any[]) => void) => void;
-    };
-  }
-}
+import {
+  ValidationError,
+  ContractError,
+  CredentialNotFoundError,
+  CredentialStatusError,
+  CredentialRevokedError,
+  DocumentAlreadyRegisteredError,
+  NotIssuerError,
+  NotAdminError,
+  toAppError
+} from '../utils/errors';
+import {
+  EduCredToken,
+  EduCredTokenFunctions,
+  EduCredTokenMethod,
+  EduCredTokenRevert,
+  CredentialRequestStruct,
+  EDU_CRED_TOKEN_ABI,
+  connectEduCredToken
+} from '../contracts/EduCredToken';
+import { MerkleProofFile, hashCredentialRecord, processMerkleProof } from '../utils/merkle';
+import {
+  OffChainCredential,
+  SignedCredential,
+  SIGNED_CREDENTIAL_VERSION,
+  SIGNED_CREDENTIAL_DOMAIN_NAME,
+  SIGNED_CREDENTIAL_DOMAIN_VERSION,
+  SIGNED_CREDENTIAL_TYPES
+} from '../utils/signedCredential';
+import { NetworkConfig, getContractAddress, getNetworkByChainId } from '../utils/networks';
+import { getDeploymentBlock } from '../utils/deployments';
+import {
+  TransactionStatus,
+  recordTransaction,
+  recordReplacement,
+  replaceTransaction,
+  getLatestReplacement,
+  getTransaction,
+  getTransactions,
+  clearFinishedTransactions
+} from './transactionManager';
+import { getWalletSession, onWalletSessionChange, connectWallet } from './walletSession';
+
+export type { TransactionStatus, TransactionState } from './transactionManager';
+export { onTransactionsChange } from './transactionManager';
 
-// Contract address from environment variables
-const getContractAddress = (): string => {
-  const address = import.meta.env.VITE_CONTRACT_ADDRESS?.trim();
-  if (!address) {
-    throw new ValidationError('Contract address is not configured. Please set VITE_CONTRACT_ADDRESS in your .env file.');
+// Relayer endpoint and trusted forwarder for gasless transactions, if configured
+const getRelayerConfig = (): { relayerUrl: string; forwarderAddress: string } | null => {
+  const relayerUrl = import.meta.env.VITE_RELAYER_URL?.trim();
+  const forwarderAddress = import.meta.env.VITE_FORWARDER_ADDRESS?.trim();
+  if (!relayerUrl || !forwarderAddress) {
+    return null;
   }
-  return address;
+  return { relayerUrl: relayerUrl.replace(/\/+$/, ''), forwarderAddress };
 };
 
-// Contract ABI for the functions we need
-const EDU_CRED_ABI = [
-  'function mintCredential(address,string,string,string,string) external',
-  'function getCredential(uint256) external view returns (string,string,string,uint256,string,bool)',
-  'function revokeCredential(uint256,string) external',
-  'function balanceOf(address) external view returns (uint256)',
-  'function tokenOfOwnerByIndex(address,uint256) external view returns (uint256)'
-];
+// Decodes the contract's custom errors from revert data; the ABI is generated from the
+// Hardhat artifact by contracts/scripts/generate-client.js
+const tokenInterface = new ethers.utils.Interface(EDU_CRED_TOKEN_ABI);
 
-// Contract instance and provider state
-let contract: ethers.Contract | null = null;
-let provider: ethers.providers.Web3Provider | null = null;
-let signer: ethers.Signer | null = null;
-let currentAccount: string | null = null;
-let walletChangeListeners: Array<() => void> = [];
-
-// Transaction tracking state
-const transactionStatuses = new Map<string, {
-  hash: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  confirmations: number;
-  gasUsed?: string;
-  error?: string;
-  timestamp: number;
-}>();
+// Blocks requested per eth_getLogs call, within the range limits of public RPC endpoints
+export const LOG_CHUNK_SIZE = 2_000;
+
+// ERC-2771 forwarder functions used to build and sign forward requests
+const FORWARDER_ABI = [
+  'function nonces(address) view returns (uint256)'
+];
 
-// Internal function to clear contract state
-const clearContractState = () => {
-  contract = null;
-  signer = null;
-  currentAccount = null;
+// EIP-712 domain and type of EduCredForwarder's forward requests
+const FORWARDER_DOMAIN_NAME = 'EduCredForwarder';
+const FORWARDER_DOMAIN_VERSION = '1';
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' }
+  ]
 };
 
-// Notify all listeners about wallet/account changes
-const notifyWalletChange = () => {
-  walletChangeListeners.forEach(listener => listener());
+// How long a signed forward request stays valid for the relayer to submit
+const FORWARD_REQUEST_TTL_SECONDS = 60 * 60;
+
+// Role identifiers as defined in EduCredToken
+const ROLES = {
+  admin: ethers.utils.id('ADMIN_ROLE'),
+  issuer: ethers.utils.id('ISSUER_ROLE')
+} as const;
+
+export type CredentialRole = keyof typeof ROLES;
+
+// Credential lifecycle states, in the order of the contract's CredentialStatus enum
+export const CREDENTIAL_STATUSES = ['active', 'suspended', 'revoked', 'superseded'] as const;
+
+export type CredentialStatus = typeof CREDENTIAL_STATUSES[number];
+
+// Batch minting limits: the contract caps batch size, and chunks are split further
+// until their estimated gas fits comfortably inside a block
+const MAX_BATCH_SIZE = 100;
+const MAX_BATCH_GAS = ethers.BigNumber.from(10_000_000);
+
+// Fee tiers offered before sending, cheapest first
+export const FEE_TIERS = ['slow', 'normal', 'fast'] as const;
+
+export type FeeTier = typeof FEE_TIERS[number];
+
+// Each tier pays a percentile of the priority fees in recent blocks, but never less than
+// a share of the node's suggested priority fee, which covers chains with a minimum tip
+const FEE_TIER_SETTINGS: Record<FeeTier, { rewardPercentile: number; minSuggestedPercent: number }> = {
+  slow: { rewardPercentile: 10, minSuggestedPercent: 100 },
+  normal: { rewardPercentile: 50, minSuggestedPercent: 110 },
+  fast: { rewardPercentile: 90, minSuggestedPercent: 125 }
 };
 
+// Recent blocks the priority fee percentiles are taken over
+const FEE_HISTORY_BLOCKS = 10;
+
+// The signer client, account and wallet network live in the wallet session store
+
+// Read-only client on a JSON-RPC provider from the network registry; needs no wallet
+let readOnlyContract: EduCredToken | null = null;
+let readOnlyNetwork: NetworkConfig | null = null;
+
+// Gasless mode: null follows whether a relayer is configured
+let gaslessMode: boolean | null = null;
+
 // Input validation helpers
 const validateAddress = (address: string, fieldName: string = 'Address'): void => {
   if (!address || typeof address !== 'string') {
@@ -90,6 +159,15 @@ const validateTokenId = (tokenId: number): void => {
   }
 };
 
+const validateExpiryDate = (expiresAt: Date): void => {
+  if (!(expiresAt instanceof Date) || isNaN(expiresAt.getTime())) {
+    throw new ValidationError('Expiry date must be a valid date');
+  }
+  if (expiresAt.getTime() <= Date.now()) {
+    throw new ValidationError('Expiry date must be in the future');
+  }
+};
+
 const validateIpfsHash = (ipfsHash: string): void => {
   if (!ipfsHash || typeof ipfsHash !== 'string') {
     throw new ValidationError('IPFS hash is required and must be a string');
@@ -100,151 +178,367 @@ const validateIpfsHash = (ipfsHash: string): void => {
   }
 };
 
-// Custom error class for contract-related errors
-export class ContractError extends AppError {
-  constructor(message: string, public readonly method?: string, details?: unknown) {
-    super(
-      `Contract operation failed${method ? ` (${method})` : ''}: ${message}`,
-      'CONTRACT_ERROR',
-      500,
-      details
-    );
+const validateBytes32 = (value: string, fieldName: string): void => {
+  if (!value || !ethers.utils.isHexString(value, 32)) {
+    throw new ValidationError(`${fieldName} must be a 32-byte hex string`);
   }
-}
+};
 
-// Transaction status interface
-export interface TransactionStatus {
-  hash: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  confirmations: number;
-  gasUsed?: string;
-  error?: string;
-  timestamp: number;
-}
+const validateMetadataUri = (metadataURI: string): void => {
+  if (!metadataURI || typeof metadataURI !== 'string' || !metadataURI.startsWith('ipfs://')) {
+    throw new ValidationError('Metadata URI must be an ipfs:// URI');
+  }
+  validateIpfsHash(metadataURI.slice('ipfs://'.length));
+};
 
-// Helper function to track transaction status
-const trackTransaction = async (tx: ethers.ContractTransaction): Promise<TransactionStatus> => {
-  const status: TransactionStatus = {
-    hash: tx.hash,
-    status: 'pending',
-    confirmations: 0,
-    timestamp: Date.now()
-  };
-  
-  transactionStatuses.set(tx.hash, status);
-  
+// Find the revert data in an error; ethers and wallets nest the JSON-RPC error at different depths
+const findRevertData = (error: unknown, depth = 0): string | null => {
+  if (typeof error !== 'object' || error === null || depth > 4) {
+    return null;
+  }
+  const nested = error as { data?: unknown; error?: unknown; originalError?: unknown };
+  if (typeof nested.data === 'string' && ethers.utils.isHexString(nested.data) && nested.data.length >= 10) {
+    return nested.data;
+  }
+  return findRevertData(nested.data, depth + 1)
+    ?? findRevertData(nested.error, depth + 1)
+    ?? findRevertData(nested.originalError, depth + 1);
+};
+
+// Decode the custom error a contract call reverted with, or null if it did not revert with one
+const decodeRevert = (error: unknown): EduCredTokenRevert | null => {
+  const data = findRevertData(error);
+  if (!data) {
+    return null;
+  }
   try {
-    const receipt = await tx.wait();
-    
-    // Update status with receipt information
-    status.status = 'confirmed';
-    status.confirmations = receipt.confirmations || 0;
-    status.gasUsed = receipt.gasUsed?.toString();
-    
-    transactionStatuses.set(tx.hash, status);
-    
-    // Clean up old transactions (older than 1 hour)
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    for (const [hash, txStatus] of transactionStatuses.entries()) {
-      if (txStatus.timestamp < oneHourAgo) {
-        transactionStatuses.delete(hash);
-      }
-    }
-    
-    return status;
-  } catch (error) {
-    status.status = 'failed';
-    status.error = error instanceof Error ? error.message : 'Unknown error';
-    transactionStatuses.set(tx.hash, status);
-    return status;
+    const { name, args } = tokenInterface.parseError(data);
+    return { name, args } as unknown as EduCredTokenRevert;
+  } catch {
+    return null;
   }
 };
 
+// Map a decoded revert to the ContractError subclass for its cause
+const fromRevert = (revert: EduCredTokenRevert, method: string, error: unknown): ContractError => {
+  switch (revert.name) {
+    case 'CredentialNotFound':
+    case 'ERC721NonexistentToken':
+      return new CredentialNotFoundError('Credential not found', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'CredentialNotActive': {
+      const status = CREDENTIAL_STATUSES[revert.args.status];
+      const details = { tokenId: revert.args.tokenId.toNumber(), status };
+      return status === 'revoked'
+        ? new CredentialRevokedError('This credential has been revoked', method, details, revert)
+        : new CredentialStatusError(`Only active credentials can be changed; this one is ${status}`, method, details, revert);
+    }
+    case 'CredentialAlreadyRevoked':
+      return new CredentialRevokedError('This credential has already been revoked', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'CredentialIsSuperseded':
+      return new CredentialStatusError('This credential has been replaced by an amended version', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'CredentialNotSuspended':
+      return new CredentialStatusError('Only suspended credentials can be reinstated', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'CredentialNotRevoked':
+      return new CredentialStatusError('This credential has not been revoked', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'CredentialIsLocked':
+      return new CredentialStatusError('This credential is locked to its holder', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'CredentialAlreadyLocked':
+      return new CredentialStatusError('This credential is already locked', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'CredentialNotLocked':
+      return new CredentialStatusError('This credential is not locked', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'DocumentAlreadyRegistered':
+      return new DocumentAlreadyRegisteredError('This document is already registered to another credential', method, { ipfsHash: revert.args.ipfsHash }, revert);
+    case 'AccessControlUnauthorizedAccount':
+      return revert.args.neededRole === ROLES.issuer
+        ? new NotIssuerError('Connected wallet is not an authorized issuer', method, { account: revert.args.account }, revert)
+        : new NotAdminError('Connected wallet is not an admin', method, { account: revert.args.account }, revert);
+    case 'NotCredentialIssuer':
+      return new NotIssuerError('Only an admin, or the issuer who minted this credential while still an issuer, can change it', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'NotMerkleRootAnchorer':
+      return new NotIssuerError('Only the issuer who anchored this batch or an admin can revoke it', method, { root: revert.args.root }, revert);
+    case 'BurnNotApproved':
+      return new NotAdminError('Burning this credential requires admin approval', method, { tokenId: revert.args.tokenId.toNumber() }, revert);
+    case 'OwnableUnauthorizedAccount':
+      return new NotAdminError('Connected wallet is not the contract owner', method, { account: revert.args.account }, revert);
+    case 'ExpiryNotInFuture':
+      return new ContractError('Expiry date must be in the future', method, { expiresAt: revert.args.expiresAt.toNumber() }, revert);
+    case 'MerkleRootAlreadyAnchored':
+      return new ContractError('This batch has already been anchored', method, { root: revert.args.root }, revert);
+    case 'MerkleRootNotAnchored':
+      return new ContractError('This batch has not been anchored', method, { root: revert.args.root }, revert);
+    default:
+      return new ContractError(`Transaction reverted with ${revert.name}`, method, error, revert);
+  }
+};
 
 /**
- * Initialize or reinitialize the contract with the current provider and signer
- * @param forceReconnect Force reconnection even if already connected
- * @returns The contract instance
+ * Convert an error thrown by a contract call into a ContractError. Custom error reverts are
+ * decoded into the matching subclass, e.g. CredentialNotFoundError or NotIssuerError.
+ * @param error The error thrown by the call, gas estimate or transaction
+ * @param method The service method, for the error message
+ * @param defaultMessage Message used when the error carries none
  */
-export const initContract = async (forceReconnect = false): Promise<ethers.Contract> => {
-  // If already initialized and not forcing reconnect, return existing instance
-  if (contract && signer && !forceReconnect) {
-    return contract;
+const toContractError = (error: unknown, method: string, defaultMessage: string): ContractError => {
+  if (error instanceof ContractError) {
+    return error;
   }
 
-  if (typeof window.ethereum === 'undefined') {
-    clearContractState();
-    throw new ValidationError('MetaMask is not installed. Please install MetaMask to continue.');
+  const revert = decodeRevert(error);
+  if (revert) {
+    return fromRevert(revert, method, error);
   }
 
-  try {
-    // Request account access if needed
-    const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
-    if (!accounts || accounts.length === 0) {
-      clearContractState();
-      throw new ValidationError('No accounts found. Please connect your wallet.');
-    }
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === 'ACTION_REJECTED' || code === 4001) {
+    return new ContractError('Transaction was rejected by user', method);
+  }
+  if (code === 'TRANSACTION_REPLACED' && (error as { cancelled?: boolean }).cancelled) {
+    return new ContractError('Transaction was cancelled', method);
+  }
+  return new ContractError(toAppError(error, defaultMessage).message, method, error);
+};
 
-    const newAccount = accounts[0].toLowerCase();
-    
-    // If account changed, update the signer and contract
-    if (newAccount !== currentAccount || forceReconnect) {
-      provider = new ethers.providers.Web3Provider(window.ethereum);
-      signer = provider.getSigner();
-      currentAccount = newAccount;
-      
-      contract = new ethers.Contract(
-        getContractAddress(),
-        EDU_CRED_ABI,
-        signer
-      );
-      
-      // Notify about the account change
-      notifyWalletChange();
-    }
-    
-    if (!contract) {
-      throw new ContractError('Failed to initialize contract', 'initContract');
+// On-chain credential details interface
+export interface CredentialDetails {
+  title: string;
+  description: string;
+  issuer: string;
+  issueDate: Date;
+  ipfsHash: string;
+  status: CredentialStatus;
+  isLocked: boolean;
+  expiresAt: Date | null;
+  previousVersion: number | null;
+  currentVersion: number;
+}
+
+// One version in a credential's supersession chain
+export interface CredentialVersion extends CredentialDetails {
+  tokenId: number;
+}
+
+// Corrected fields for the replacement of an amended credential
+export interface CredentialAmendment {
+  title: string;
+  description: string;
+  issuer: string;
+  ipfsHash: string;
+  expiresAt?: Date;
+  metadataURI?: string;
+}
+
+// Input for minting a credential as part of a batch
+export interface CredentialRequest {
+  to: string;
+  title: string;
+  description: string;
+  issuer: string;
+  ipfsHash: string;
+  expiresAt?: Date;
+  metadataURI?: string;
+}
+
+// Per-request outcome of a batch mint
+export interface BatchMintResult {
+  index: number;
+  status: 'minted' | 'failed';
+  tokenId?: number;
+  txHash?: string;
+  error?: string;
+}
+
+// A minted credential and the transaction that minted it, which is the replacement after a speed-up
+export interface MintResult {
+  tokenId: number;
+  txHash: string;
+}
+
+// Result of checking a document against the on-chain index
+export type DocumentVerificationStatus = 'match' | 'mismatch' | 'unknown';
+
+export interface DocumentVerificationResult {
+  status: DocumentVerificationStatus;
+  tokenId: number | null;
+  credential: CredentialDetails | null;
+}
+
+// Why, when and by whom a credential was revoked
+export interface RevocationDetails {
+  tokenId: number;
+  reason: string;
+  revokedAt: Date;
+  revokedBy: string;
+}
+
+// A revocation as found in the CredentialRevoked event log
+export interface RevocationRecord extends RevocationDetails {
+  txHash: string;
+  blockNumber: number;
+}
+
+// Anchoring details of a Merkle root of off-chain credentials
+export interface MerkleRootDetails {
+  root: string;
+  issuer: string;
+  anchoredBy: string;
+  anchoredAt: Date;
+  credentialCount: number;
+  isRevoked: boolean;
+}
+
+// Result of checking a Merkle proof file against the anchored root
+export type MerkleVerificationStatus = 'valid' | 'invalid-proof' | 'unanchored' | 'revoked';
+
+export interface MerkleVerificationResult {
+  status: MerkleVerificationStatus;
+  leaf: string;
+  anchor: MerkleRootDetails | null;
+}
+
+// Result of checking a signed off-chain credential
+export type SignedCredentialStatus = 'valid' | 'invalid-signature' | 'wrong-contract' | 'unauthorized-issuer';
+
+export interface SignedCredentialVerificationResult {
+  status: SignedCredentialStatus;
+  signer: string | null;
+}
+
+// EIP-1559 fees a transaction is sent with, in wei per gas
+export interface TransactionFees {
+  maxFeePerGas: ethers.BigNumber;
+  maxPriorityFeePerGas: ethers.BigNumber;
+}
+
+export interface FeeTierEstimate extends TransactionFees {
+  // Cost at the current base fee, and the most the transaction can cost, in wei
+  expectedCost: ethers.BigNumber;
+  maxCost: ethers.BigNumber;
+  // The same costs in the chain's native currency, e.g. "0.0042"
+  expectedCostNative: string;
+  maxCostNative: string;
+}
+
+export interface FeeEstimate {
+  method: string;
+  gasLimit: ethers.BigNumber;
+  baseFeePerGas: ethers.BigNumber;
+  nativeCurrency: string;
+  tiers: Record<FeeTier, FeeTierEstimate>;
+  // In gasless mode the relayer pays, so the costs are what it would cost the relayer
+  isGasless: boolean;
+}
+
+// Decode a receipt's logs into contract events, as ethers does for transactions sent through a contract
+const decodeEvents = (
+  contract: ethers.Contract,
+  receipt: ethers.providers.TransactionReceipt
+): ethers.ContractReceipt => {
+  const events = receipt.logs.map((log) => {
+    const event = { ...log } as ethers.Event;
+    // Relayed receipts also carry the forwarder's own logs, which the token's ABI cannot decode
+    if (log.address.toLowerCase() === contract.address.toLowerCase()) {
+      try {
+        const parsed = contract.interface.parseLog(log);
+        event.event = parsed.name;
+        event.eventSignature = parsed.signature;
+        event.args = parsed.args;
+      } catch {
+        // Not an event in our ABI
+      }
     }
+    return event;
+  });
+  return { ...receipt, events };
+};
+
+// Record a transaction in the transaction manager and wait for it to be included. A speed-up, even one
+// sent from the wallet, is recorded and followed to the replacement's receipt; a cancelled transaction
+// throws. Events are decoded here for every receipt, since relayed and replacement receipts come back
+// with raw logs only. The transaction manager keeps following it until it reaches the network's
+// confirmation depth.
+const trackTransaction = async (
+  contract: EduCredToken,
+  tx: ethers.providers.TransactionResponse,
+  method: string
+): Promise<ethers.ContractReceipt> => {
+  recordTransaction(contract.provider, tx, method);
 
-    return contract;
+  let receipt: ethers.providers.TransactionReceipt;
+  try {
+    receipt = await tx.wait();
   } catch (error) {
-    clearContractState();
-    const appError = toAppError(error, 'Failed to initialize contract');
-    
-    if ((error as any).code === 4001) {
-      // User rejected the request
-      throw new ContractError('User denied account access', 'initContract');
-    } else if ((error as any).code === -32002) {
-      // Request already pending
-      throw new ContractError('Request already pending. Please check your wallet.', 'initContract');
-    } else if ((error as any).code === -32603) {
-      // Internal error
-      throw new ContractError('Internal JSON-RPC error', 'initContract', error);
+    const replaced = error as {
+      code?: unknown;
+      cancelled?: boolean;
+      replacement?: ethers.providers.TransactionResponse;
+      receipt?: ethers.providers.TransactionReceipt;
+    };
+    if (replaced.code === 'TRANSACTION_REPLACED' && replaced.replacement) {
+      recordReplacement(contract.provider, tx.hash, replaced.replacement, method, replaced.cancelled ? 'cancel' : 'speed-up');
     }
-    
-    throw new ContractError(appError.message, 'initContract', error);
+    if (replaced.code !== 'TRANSACTION_REPLACED' || replaced.cancelled || !replaced.receipt) {
+      throw error;
+    }
+    receipt = replaced.receipt;
   }
+  return decodeEvents(contract, receipt);
 };
 
 /**
- * Get the current contract instance
+ * Connect the chosen wallet through the wallet session store and return its signer client
+ * @param forceReconnect Force reconnection even if already connected
  * @returns The contract instance
+ * @throws {ValidationError} If no wallet is selected, or the wallet's network is unsupported or has no deployment
+ * @throws {ContractError} If the user rejects the request
+ */
+export const initContract = async (forceReconnect = false): Promise<EduCredToken> => {
+  const current = getWalletSession();
+  if (current.contract && !forceReconnect) {
+    return current.contract;
+  }
+
+  const { contract, contractError } = await connectWallet();
+  if (!contract) {
+    throw contractError ?? new ContractError('Failed to initialize contract', 'initContract');
+  }
+  return contract;
+};
+
+/**
+ * Get the signer client for writes
+ * @returns The contract instance connected to the wallet's signer
  * @throws {ContractError} If contract is not initialized
  */
-export const getContract = (): ethers.Contract => {
+export const getContract = (): EduCredToken => {
+  const { contract } = getWalletSession();
   if (!contract) {
     throw new ContractError('Contract not initialized. Call initContract() first.', 'getContract');
   }
   return contract;
 };
 
+/**
+ * Get the read-only client. It calls the contract through a JSON-RPC provider from the
+ * network registry rather than the wallet, so credentials can be browsed and verified
+ * without a wallet; once one is connected, reads follow the wallet's network.
+ * @returns A contract instance connected to a JSON-RPC provider
+ */
+export const getReadOnlyContract = (): EduCredToken => {
+  const network = getWalletSession().readNetwork;
+  if (!readOnlyContract || readOnlyNetwork?.chainId !== network.chainId) {
+    const rpcProvider = new ethers.providers.JsonRpcProvider(network.rpcUrls[0], network.chainId);
+    readOnlyContract = connectEduCredToken(getContractAddress(network), rpcProvider);
+    readOnlyNetwork = network;
+  }
+  return readOnlyContract;
+};
+
 /**
  * Get the current signer's address
  * @returns The current account address or null if not connected
  */
 export const getCurrentAccount = (): string | null => {
-  return currentAccount;
+  return getWalletSession().account;
 };
 
 /**
@@ -252,51 +546,15 @@ export const getCurrentAccount = (): string | null => {
  * @returns boolean indicating if wallet is connected
  */
 export const isWalletConnected = (): boolean => {
-  return !!currentAccount;
+  return !!getWalletSession().account;
 };
 
 /**
- * Add a listener for wallet/account changes
+ * Add a listener for wallet, account and network changes
  * @param listener Callback function to be called on changes
  * @returns Function to remove the listener
  */
-export const onWalletChange = (listener: () => void): (() => void) => {
-  walletChangeListeners.push(listener);
-  
-  // Set up ethereum event listeners if not already done
-  if (walletChangeListeners.length === 1) {
-    const handleAccountsChanged = (accounts: string[]) => {
-      if (accounts.length === 0) {
-        // Wallet disconnected
-        clearContractState();
-      } else if (accounts[0].toLowerCase() !== currentAccount?.toLowerCase()) {
-        // Account changed
-        initContract(true).catch(console.error);
-      }
-      notifyWalletChange();
-    };
-
-    const handleChainChanged = () => {
-      // Reload the page when network changes
-      window.location.reload();
-    };
-
-    window.ethereum?.on('accountsChanged', handleAccountsChanged);
-    window.ethereum?.on('chainChanged', handleChainChanged);
-    
-    // Return cleanup function
-    return () => {
-      window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
-      window.ethereum?.removeListener('chainChanged', handleChainChanged);
-      walletChangeListeners = walletChangeListeners.filter(l => l !== listener);
-    };
-  }
-  
-  // Return cleanup function
-  return () => {
-    walletChangeListeners = walletChangeListeners.filter(l => l !== listener);
-  };
-};
+export const onWalletChange = (listener: () => void): (() => void) => onWalletSessionChange(listener);
 
 /**
  * Get transaction status by hash
@@ -304,140 +562,1128 @@ export const onWalletChange = (listener: () => void): (() => void) => {
  * @returns Transaction status or null if not found
  */
 export const getTransactionStatus = (hash: string): TransactionStatus | null => {
-  return transactionStatuses.get(hash) || null;
+  return getTransaction(hash);
+};
+
+/**
+ * Get the status of whichever transaction took a tracked transaction's place, e.g. after a speed-up
+ * @param hash Transaction hash
+ * @returns The latest replacement's status, the transaction's own if it wasn't replaced, or null if not found
+ */
+export const getLatestTransactionStatus = (hash: string): TransactionStatus | null => {
+  return getLatestReplacement(hash);
 };
 
 /**
- * Get all tracked transactions
- * @returns Array of all transaction statuses
+ * Get all tracked transactions, including those sent before a reload
+ * @returns Array of all transaction statuses, newest first
  */
 export const getAllTransactions = (): TransactionStatus[] => {
-  return Array.from(transactionStatuses.values()).sort((a, b) => b.timestamp - a.timestamp);
+  return getTransactions();
 };
 
 /**
- * Clear transaction history
+ * Clear transaction history; transactions short of their confirmation depth are kept and still watched
  */
 export const clearTransactionHistory = (): void => {
-  transactionStatuses.clear();
+  clearFinishedTransactions();
 };
 
-// Mint a new credential
-export const mintCredential = async (
+/**
+ * Resend a pending transaction with the same nonce and higher fees
+ * @param hash The pending transaction
+ * @returns The replacement transaction's status
+ */
+export const speedUpTransaction = async (hash: string): Promise<TransactionStatus> => {
+  const { signer } = getWalletSession();
+  if (!signer) {
+    throw new ContractError('Wallet not connected. Please connect your wallet first.', 'speedUpTransaction');
+  }
+  try {
+    return await replaceTransaction(signer, hash, 'speed-up');
+  } catch (error) {
+    throw toContractError(error, 'speedUpTransaction', 'Failed to speed up transaction');
+  }
+};
+
+/**
+ * Cancel a pending transaction by replacing it with an empty transfer to yourself
+ * @param hash The pending transaction
+ * @returns The cancelling transaction's status
+ */
+export const cancelTransaction = async (hash: string): Promise<TransactionStatus> => {
+  const { signer } = getWalletSession();
+  if (!signer) {
+    throw new ContractError('Wallet not connected. Please connect your wallet first.', 'cancelTransaction');
+  }
+  try {
+    return await replaceTransaction(signer, hash, 'cancel');
+  } catch (error) {
+    throw toContractError(error, 'cancelTransaction', 'Failed to cancel transaction');
+  }
+};
+
+/**
+ * Check whether a relayer and forwarder are configured for gasless transactions
+ * @returns boolean indicating if gasless mode can be enabled
+ */
+export const isGaslessAvailable = (): boolean => {
+  return getRelayerConfig() !== null;
+};
+
+/**
+ * Check whether credential transactions are signed as forward requests and sent through
+ * the relayer. Defaults to on when a relayer is configured.
+ * @returns boolean indicating if gasless mode is on
+ */
+export const isGaslessMode = (): boolean => {
+  return gaslessMode ?? isGaslessAvailable();
+};
+
+/**
+ * Turn gasless mode on or off
+ * @param enabled Whether to send credential transactions through the relayer
+ * @throws {ValidationError} If enabling without a configured relayer
+ */
+export const setGaslessMode = (enabled: boolean): void => {
+  if (enabled && !isGaslessAvailable()) {
+    throw new ValidationError('Gasless mode requires VITE_RELAYER_URL and VITE_FORWARDER_ADDRESS in your .env file.');
+  }
+  gaslessMode = enabled;
+};
+
+// Sign an ERC-2771 forward request for a contract call and hand it to the relayer, which pays the gas
+const relayTransaction = async (
+  contract: ethers.Contract,
+  method: string,
+  args: unknown[]
+): Promise<ethers.providers.TransactionResponse> => {
+  const config = getRelayerConfig();
+  if (!config) {
+    throw new ValidationError('Relayer is not configured. Please set VITE_RELAYER_URL and VITE_FORWARDER_ADDRESS in your .env file.');
+  }
+
+  const forwarder = new ethers.Contract(config.forwarderAddress, FORWARDER_ABI, contract.provider);
+  const from = await contract.signer.getAddress();
+
+  // Estimating the direct call surfaces contract errors before anything is signed;
+  // the margin covers the forwarder's own overhead
+  const estimatedGas: ethers.BigNumber = await contract.estimateGas[method](...args);
+  const [nonce, { chainId }] = await Promise.all([
+    forwarder.nonces(from) as Promise<ethers.BigNumber>,
+    contract.provider.getNetwork()
+  ]);
+
+  const request = {
+    from,
+    to: contract.address,
+    value: 0,
+    gas: estimatedGas.mul(120).div(100),
+    nonce,
+    deadline: Math.floor(Date.now() / 1000) + FORWARD_REQUEST_TTL_SECONDS,
+    data: contract.interface.encodeFunctionData(method, args)
+  };
+  const domain = {
+    name: FORWARDER_DOMAIN_NAME,
+    version: FORWARDER_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: config.forwarderAddress
+  };
+  const signature = await (contract.signer as ethers.providers.JsonRpcSigner)
+    ._signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+
+  // The forwarder's execute() takes the request without its nonce, which it tracks itself
+  const response = await fetch(`${config.relayerUrl}/relay`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      request: {
+        from: request.from,
+        to: request.to,
+        value: '0',
+        gas: request.gas.toString(),
+        deadline: request.deadline,
+        data: request.data,
+        signature
+      }
+    })
+  });
+  const body: { txHash?: string; error?: string } = await response.json().catch(() => ({}));
+  if (!response.ok || !body.txHash) {
+    throw new Error(`Relayer rejected the request: ${body.error ?? response.statusText}`);
+  }
+
+  const tx = await contract.provider.getTransaction(body.txHash);
+  if (!tx) {
+    throw new Error(`Relayed transaction ${body.txHash} was not found`);
+  }
+  return tx;
+};
+
+// Send a contract transaction from the connected wallet, or through the relayer in gasless mode
+const sendTransaction = <Method extends EduCredTokenMethod>(
+  contract: EduCredToken,
+  method: Method,
+  ...args: Parameters<EduCredTokenFunctions[Method]>
+): Promise<ethers.providers.TransactionResponse> => {
+  if (isGaslessMode()) {
+    // Fee overrides don't apply when the relayer pays
+    const inputCount = contract.interface.getFunction(method).inputs.length;
+    return relayTransaction(contract, method, args.slice(0, inputCount));
+  }
+  const send = contract[method] as (...params: unknown[]) => Promise<ethers.providers.TransactionResponse>;
+  return send(...args);
+};
+
+// Overrides that send a transaction with the fees picked from an estimate, if any
+const feeOverrides = (fees?: TransactionFees): [] | [ethers.Overrides] =>
+  fees ? [{ maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }] : [];
+
+// Median of each column of eth_feeHistory rewards, one column per requested percentile
+const medianRewards = (rewards: string[][], columns: number): ethers.BigNumber[] =>
+  Array.from({ length: columns }, (_, column) => {
+    const values = rewards
+      .map(row => ethers.BigNumber.from(row[column] ?? 0))
+      .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+    return values.length > 0 ? values[Math.floor(values.length / 2)] : ethers.constants.Zero;
+  });
+
+// Priority fees paid in recent blocks at each tier's percentile, or zeros if the node has no fee history
+const getRecentPriorityFees = async (rpc: ethers.providers.JsonRpcProvider): Promise<ethers.BigNumber[]> => {
+  const percentiles = FEE_TIERS.map(tier => FEE_TIER_SETTINGS[tier].rewardPercentile);
+  try {
+    const history: { reward?: string[][] } = await rpc.send('eth_feeHistory', [
+      ethers.utils.hexValue(FEE_HISTORY_BLOCKS),
+      'latest',
+      percentiles
+    ]);
+    return medianRewards(history.reward ?? [], percentiles.length);
+  } catch {
+    return percentiles.map(() => ethers.constants.Zero);
+  }
+};
+
+// The node's suggested priority fee, falling back to ethers' default
+const getSuggestedPriorityFee = async (rpc: ethers.providers.JsonRpcProvider): Promise<ethers.BigNumber> => {
+  try {
+    return ethers.BigNumber.from(await rpc.send('eth_maxPriorityFeePerGas', []));
+  } catch {
+    const { maxPriorityFeePerGas } = await rpc.getFeeData();
+    return maxPriorityFeePerGas ?? ethers.constants.Zero;
+  }
+};
+
+/**
+ * Estimate the gas and EIP-1559 fees of a contract transaction without sending it
+ * @returns Gas limit, base fee and the fees and cost of each fee tier
+ */
+const estimateTransaction = async <Method extends EduCredTokenMethod>(
+  contract: EduCredToken,
+  method: Method,
+  ...args: Parameters<EduCredTokenFunctions[Method]>
+): Promise<FeeEstimate> => {
+  const rpc = contract.provider as ethers.providers.JsonRpcProvider;
+  const estimateGas = contract.estimateGas[method] as (...params: unknown[]) => Promise<ethers.BigNumber>;
+
+  // Estimating first surfaces contract errors, e.g. a missing role, before any fee lookups
+  const gasLimit = await estimateGas(...args);
+  const [block, recentPriorityFees, suggestedPriorityFee, { chainId }] = await Promise.all([
+    rpc.getBlock('latest'),
+    getRecentPriorityFees(rpc),
+    getSuggestedPriorityFee(rpc),
+    rpc.getNetwork()
+  ]);
+  // Chains without EIP-1559 only have a gas price
+  const baseFeePerGas = block.baseFeePerGas ?? await rpc.getGasPrice();
+
+  const tiers = {} as Record<FeeTier, FeeTierEstimate>;
+  FEE_TIERS.forEach((tier, index) => {
+    const minPriorityFee = suggestedPriorityFee.mul(FEE_TIER_SETTINGS[tier].minSuggestedPercent).div(100);
+    const maxPriorityFeePerGas = recentPriorityFees[index].gt(minPriorityFee) ? recentPriorityFees[index] : minPriorityFee;
+    // Like ethers, leave room for the base fee to double before the transaction is included
+    const maxFeePerGas = baseFeePerGas.mul(2).add(maxPriorityFeePerGas);
+    const expectedCost = gasLimit.mul(baseFeePerGas.add(maxPriorityFeePerGas));
+    const maxCost = gasLimit.mul(maxFeePerGas);
+    tiers[tier] = {
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      expectedCost,
+      maxCost,
+      expectedCostNative: ethers.utils.formatEther(expectedCost),
+      maxCostNative: ethers.utils.formatEther(maxCost)
+    };
+  });
+
+  return {
+    method,
+    gasLimit,
+    baseFeePerGas,
+    nativeCurrency: getNetworkByChainId(chainId)?.nativeCurrency.symbol ?? 'ETH',
+    tiers,
+    isGasless: isGaslessMode()
+  };
+};
+
+// Validate mintCredential's inputs and convert them to the contract's arguments
+const toMintCredentialArgs = (
   to: string,
   title: string,
   description: string,
   issuer: string,
-  ipfsHash: string
-): Promise<ethers.ContractReceipt> => {
-  // Validate all inputs
-  validateAddress(to, 'Recipient address');
-  validateNonEmptyString(title, 'Title');
-  validateNonEmptyString(description, 'Description');
-  validateNonEmptyString(issuer, 'Issuer');
-  validateIpfsHash(ipfsHash);
-  
+  ipfsHash: string,
+  expiresAt?: Date,
+  metadataURI?: string
+): [string, string, string, string, string, number, string] => {
+  validateCredentialRequest({ to, title, description, issuer, ipfsHash, expiresAt, metadataURI });
+
+  // The contract uses 0 for credentials that never expire and '' for credentials without metadata
+  const expiresAtSeconds = expiresAt ? Math.floor(expiresAt.getTime() / 1000) : 0;
+  return [to, title, description, issuer, ipfsHash, expiresAtSeconds, metadataURI ?? ''];
+};
+
+/**
+ * Estimate the gas and fees of minting a credential, to preview them before signing
+ * @returns The fee estimate; pass a tier's fees to mintCredential to send with them
+ */
+export const estimateMintCredential = async (
+  to: string,
+  title: string,
+  description: string,
+  issuer: string,
+  ipfsHash: string,
+  expiresAt?: Date,
+  metadataURI?: string
+): Promise<FeeEstimate> => {
+  const args = toMintCredentialArgs(to, title, description, issuer, ipfsHash, expiresAt, metadataURI);
+
   const contract = getContract();
   try {
-    const tx = await contract.mintCredential(to, title, description, issuer, ipfsHash);
-    
-    // Track the transaction
-    await trackTransaction(tx);
-    
-    const receipt = await tx.wait();
-    return receipt;
+    return await estimateTransaction(contract, 'mintCredential(address,string,string,string,string,uint256,string)', ...args);
   } catch (error) {
-    const appError = toAppError(error, 'Failed to mint credential');
-    if (appError.message.includes('user rejected transaction')) {
-      throw new ContractError('Transaction was rejected by user', 'mintCredential');
-    }
-    throw new ContractError(appError.message, 'mintCredential', error);
+    throw toContractError(error, 'mintCredential', 'Failed to estimate minting fees');
   }
 };
 
-// Get credential details
-export const getCredential = async (tokenId: number) => {
-  // Validate input
-  validateTokenId(tokenId);
+/**
+ * Mint a new credential, optionally with fees picked from estimateMintCredential
+ * @returns The token ID of the minted credential and the hash of the transaction that minted it
+ */
+export const mintCredential = async (
+  to: string,
+  title: string,
+  description: string,
+  issuer: string,
+  ipfsHash: string,
+  expiresAt?: Date,
+  metadataURI?: string,
+  fees?: TransactionFees
+): Promise<MintResult> => {
+  // Validate all inputs
+  const args = toMintCredentialArgs(to, title, description, issuer, ipfsHash, expiresAt, metadataURI);
   
   const contract = getContract();
   try {
-    const [title, description, issuer, issueDate, ipfsHash, isRevoked] = await contract.getCredential(tokenId);
+    const tx = await sendTransaction(
+      contract,
+      'mintCredential(address,string,string,string,string,uint256,string)',
+      ...args,
+      ...feeOverrides(fees)
+    );
     
-    if (!title || !issuer) {
-      throw new ContractError('Credential not found', 'getCredential', { tokenId });
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, 'mintCredential');
+    const minted = receipt.events?.find(event => event.event === 'CredentialMinted');
+    if (!minted) {
+      throw new Error('Mint event not found in transaction receipt');
     }
-    
     return {
-      title,
-      description,
-      issuer,
-      issueDate: new Date(issueDate.toNumber() * 1000),
-      ipfsHash,
-      isRevoked
+      tokenId: (minted.args?.tokenId as ethers.BigNumber).toNumber(),
+      txHash: receipt.transactionHash
     };
   } catch (error) {
-    const appError = toAppError(error, 'Failed to get credential');
-    if (appError.message.includes('invalid token ID') || appError.message.includes('nonexistent token')) {
-      throw new ContractError('Credential not found', 'getCredential', { tokenId });
-    }
-    throw new ContractError(appError.message, 'getCredential', error);
+    throw toContractError(error, 'mintCredential', 'Failed to mint credential');
   }
 };
 
-// Revoke a credential
-export const revokeCredential = async (tokenId: number, reason: string): Promise<ethers.ContractReceipt> => {
-  // Validate inputs
-  validateTokenId(tokenId);
-  validateNonEmptyString(reason, 'Revocation reason');
-  
-  const contract = getContract();
-  try {
-    const tx = await contract.revokeCredential(tokenId, reason);
-    
-    // Track the transaction
-    await trackTransaction(tx);
-    
-    const receipt = await tx.wait();
-    return receipt;
-  } catch (error) {
-    const appError = toAppError(error, 'Failed to revoke credential');
-    if (appError.message.includes('not owner')) {
-      throw new ContractError('Only the credential owner can revoke it', 'revokeCredential', { tokenId });
-    }
-    throw new ContractError(appError.message, 'revokeCredential', error);
+/**
+ * Validate a credential request using the same rules as mintCredential
+ * @param request The credential request to validate
+ * @param options.requireIpfsHash Set to false to validate a request before its document is uploaded
+ * @throws {ValidationError} If any field is invalid
+ */
+export const validateCredentialRequest = (
+  request: CredentialRequest,
+  { requireIpfsHash = true }: { requireIpfsHash?: boolean } = {}
+): void => {
+  validateAddress(request.to, 'Recipient address');
+  validateNonEmptyString(request.title, 'Title');
+  validateNonEmptyString(request.description, 'Description');
+  validateNonEmptyString(request.issuer, 'Issuer');
+  if (requireIpfsHash) {
+    validateIpfsHash(request.ipfsHash);
   }
-};
+  if (request.expiresAt) {
+    validateExpiryDate(request.expiresAt);
+  }
+  if (request.metadataURI) {
+    validateMetadataUri(request.metadataURI);
+  }
+};
+
+// Split batch requests into chunks whose estimated gas fits in MAX_BATCH_GAS
+const splitIntoGasSizedChunks = async <T extends { args: CredentialRequestStruct }>(
+  contract: EduCredToken,
+  entries: T[]
+): Promise<T[][]> => {
+  const fits = entries.length === 1 || (
+    entries.length <= MAX_BATCH_SIZE &&
+    (await contract.estimateGas.mintBatch(entries.map(entry => entry.args))).lte(MAX_BATCH_GAS)
+  );
+  if (fits) {
+    return [entries];
+  }
+
+  const middle = Math.ceil(entries.length / 2);
+  return [
+    ...(await splitIntoGasSizedChunks(contract, entries.slice(0, middle))),
+    ...(await splitIntoGasSizedChunks(contract, entries.slice(middle)))
+  ];
+};
+
+/**
+ * Mint many credentials with as few transactions as possible
+ * @param requests Credentials to mint
+ * @param onChunkComplete Called with the results of each chunk as soon as it is mined
+ * @returns One result per request, in the same order as the requests
+ */
+export const mintCredentialsBatch = async (
+  requests: CredentialRequest[],
+  onChunkComplete?: (results: BatchMintResult[]) => void
+): Promise<BatchMintResult[]> => {
+  if (requests.length === 0) {
+    throw new ValidationError('At least one credential is required');
+  }
+  // Validate every request before sending anything
+  requests.forEach((request, index) => {
+    try {
+      validateCredentialRequest(request);
+    } catch (error) {
+      throw new ValidationError(`Row ${index + 1}: ${toAppError(error).message}`, { index });
+    }
+  });
+
+  const contract = getContract();
+  const entries = requests.map((request, index) => ({
+    index,
+    args: {
+      to: request.to,
+      title: request.title,
+      description: request.description,
+      issuer: request.issuer,
+      ipfsHash: request.ipfsHash,
+      // The contract uses 0 for credentials that never expire and '' for credentials without metadata
+      expiresAt: request.expiresAt ? Math.floor(request.expiresAt.getTime() / 1000) : 0,
+      metadataURI: request.metadataURI ?? ''
+    }
+  }));
+
+  let chunks: Array<typeof entries>;
+  try {
+    // Estimating gas also surfaces reverts (e.g. a document that is already registered) before anything is sent
+    chunks = await splitIntoGasSizedChunks(contract, entries);
+  } catch (error) {
+    throw toContractError(error, 'mintCredentialsBatch', 'Failed to estimate batch gas');
+  }
+
+  const results: BatchMintResult[] = [];
+  for (const chunk of chunks) {
+    let chunkResults: BatchMintResult[];
+    try {
+      const tx = await sendTransaction(contract, 'mintBatch', chunk.map(entry => entry.args));
 
-// Get all tokens owned by an address
-export const getTokensByOwner = async (owner: string): Promise<number[]> => {
+      // Track the transaction
+      const receipt = await trackTransaction(contract, tx, 'mintCredentialsBatch');
+      const mintedIds = (receipt.events ?? [])
+        .filter(event => event.event === 'CredentialMinted')
+        .map(event => (event.args?.tokenId as ethers.BigNumber).toNumber());
+
+      chunkResults = chunk.map((entry, position) => ({
+        index: entry.index,
+        status: 'minted',
+        tokenId: mintedIds[position],
+        txHash: receipt.transactionHash
+      }));
+    } catch (error) {
+      const { message } = toContractError(error, 'mintCredentialsBatch', 'Failed to mint batch');
+      chunkResults = chunk.map(entry => ({ index: entry.index, status: 'failed', error: message }));
+    }
+
+    results.push(...chunkResults);
+    onChunkComplete?.(chunkResults);
+  }
+
+  return results.sort((a, b) => a.index - b.index);
+};
+
+// Get credential details
+export const getCredential = async (tokenId: number): Promise<CredentialDetails> => {
   // Validate input
-  validateAddress(owner, 'Owner address');
+  validateTokenId(tokenId);
   
-  const contract = getContract();
+  const contract = getReadOnlyContract();
   try {
-    const balance = await contract.balanceOf(owner);
-    const tokens: number[] = [];
+    const [
+      [title, description, issuer, issueDate, ipfsHash, status, expiresAt],
+      isLocked,
+      [isAmendment, previousVersion],
+      currentVersion
+    ] = await Promise.all([
+      contract.getCredential(tokenId),
+      contract.locked(tokenId),
+      contract.getPreviousVersion(tokenId),
+      contract.getCurrentVersion(tokenId)
+    ]);
     
-    // Process tokens in batches to avoid gas issues with large collections
-    const batchSize = 20; // Adjust based on your needs
-    const balanceNum = balance.toNumber();
+    if (!title || !issuer) {
+      throw new CredentialNotFoundError('Credential not found', 'getCredential', { tokenId });
+    }
     
-    for (let i = 0; i < balanceNum; i += batchSize) {
-      const batchEnd = Math.min(i + batchSize, balanceNum);
-      const batchPromises = [];
-      
-      for (let j = i; j < batchEnd; j++) {
-        batchPromises.push(contract.tokenOfOwnerByIndex(owner, j));
-      }
-      
-      const batchResults = await Promise.all(batchPromises);
-      tokens.push(...batchResults.map((id: ethers.BigNumber) => id.toNumber()));
+    return {
+      title,
+      description,
+      issuer,
+      issueDate: new Date(issueDate.toNumber() * 1000),
+      ipfsHash,
+      status: CREDENTIAL_STATUSES[status],
+      isLocked,
+      expiresAt: expiresAt.isZero() ? null : new Date(expiresAt.toNumber() * 1000),
+      previousVersion: isAmendment ? previousVersion.toNumber() : null,
+      currentVersion: currentVersion.toNumber()
+    };
+  } catch (error) {
+    throw toContractError(error, 'getCredential', 'Failed to get credential');
+  }
+};
+
+// Check whether a credential is active and not expired
+export const isCredentialValid = async (tokenId: number): Promise<boolean> => {
+  // Validate input
+  validateTokenId(tokenId);
+
+  const contract = getReadOnlyContract();
+  try {
+    return await contract.isValid(tokenId);
+  } catch (error) {
+    throw toContractError(error, 'isCredentialValid', 'Failed to check credential validity');
+  }
+};
+
+// Look up the token registered for a document's IPFS hash
+export const getTokenIdByIpfsHash = async (ipfsHash: string): Promise<number | null> => {
+  // Validate input
+  validateIpfsHash(ipfsHash);
+
+  const contract = getReadOnlyContract();
+  try {
+    const [found, tokenId] = await contract.getTokenIdByIpfsHash(ipfsHash);
+    return found ? tokenId.toNumber() : null;
+  } catch (error) {
+    throw toContractError(error, 'getTokenIdByIpfsHash', 'Failed to look up document');
+  }
+};
+
+/**
+ * Find the transaction that minted a document after the tracked mint was replaced or dropped without the
+ * replacement being seen, e.g. a speed-up sent from the wallet, and follow it to finality in its place
+ * @param hash The tracked mint transaction
+ * @param ipfsHash IPFS hash (CID) of the minted document
+ * @returns The minting transaction, or null if the document wasn't minted in the recent blocks
+ */
+export const recoverMintTransaction = async (hash: string, ipfsHash: string): Promise<TransactionStatus | null> => {
+  const tokenId = await getTokenIdByIpfsHash(ipfsHash);
+  if (tokenId === null) {
+    return null;
+  }
+
+  const contract = getReadOnlyContract();
+  try {
+    // A replacement is mined close to when the original was sent, so one log window back is enough
+    const latestBlock = await contract.provider.getBlockNumber();
+    const [minted] = await contract.queryFilter(
+      contract.filters.CredentialMinted(tokenId),
+      Math.max(0, latestBlock - LOG_CHUNK_SIZE + 1),
+      latestBlock
+    );
+    if (!minted) {
+      return null;
+    }
+    const tx = await contract.provider.getTransaction(minted.transactionHash);
+    return recordReplacement(contract.provider, hash, tx, 'mintCredential');
+  } catch (error) {
+    throw toContractError(error, 'recoverMintTransaction', 'Failed to find the mint transaction');
+  }
+};
+
+/**
+ * Check a document against the on-chain ipfsHash index
+ * @param ipfsHash IPFS hash (CID) computed from the document
+ * @param expectedTokenId Token the document is claimed to belong to, if known
+ * @returns 'match' when the document is registered (to the expected token, if given),
+ * 'mismatch' when it does not belong to the expected token, 'unknown' when it is not registered
+ */
+export const verifyCredentialDocument = async (
+  ipfsHash: string,
+  expectedTokenId?: number
+): Promise<DocumentVerificationResult> => {
+  if (expectedTokenId !== undefined) {
+    validateTokenId(expectedTokenId);
+  }
+
+  const tokenId = await getTokenIdByIpfsHash(ipfsHash);
+  if (tokenId === null) {
+    return {
+      status: expectedTokenId === undefined ? 'unknown' : 'mismatch',
+      tokenId: null,
+      credential: null
+    };
+  }
+
+  const credential = await getCredential(tokenId);
+  return {
+    status: expectedTokenId === undefined || expectedTokenId === tokenId ? 'match' : 'mismatch',
+    tokenId,
+    credential
+  };
+};
+
+// Anchor the Merkle root of a cohort of credentials issued off-chain
+export const anchorMerkleRoot = async (
+  root: string,
+  issuer: string,
+  credentialCount: number
+): Promise<ethers.ContractReceipt> => {
+  // Validate inputs
+  validateBytes32(root, 'Merkle root');
+  validateNonEmptyString(issuer, 'Issuer');
+  if (!Number.isInteger(credentialCount) || credentialCount <= 0) {
+    throw new ValidationError('Credential count must be a positive integer');
+  }
+
+  const contract = getContract();
+  try {
+    const tx = await sendTransaction(contract, 'anchorMerkleRoot', root, issuer, credentialCount);
+
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, 'anchorMerkleRoot');
+    return receipt;
+  } catch (error) {
+    throw toContractError(error, 'anchorMerkleRoot', 'Failed to anchor Merkle root');
+  }
+};
+
+// Revoke every credential under a Merkle root, or a single credential when a leaf is given
+export const revokeMerkleCredential = async (
+  root: string,
+  reason: string,
+  leaf?: string
+): Promise<ethers.ContractReceipt> => {
+  const method = leaf === undefined ? 'revokeMerkleRoot' : 'revokeMerkleCredential';
+
+  // Validate inputs
+  validateBytes32(root, 'Merkle root');
+  if (leaf !== undefined) {
+    validateBytes32(leaf, 'Merkle leaf');
+  }
+  validateNonEmptyString(reason, 'Revocation reason');
+
+  const contract = getContract();
+  try {
+    const tx = leaf === undefined
+      ? await sendTransaction(contract, method, root, reason)
+      : await sendTransaction(contract, method, root, leaf, reason);
+
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, method);
+    return receipt;
+  } catch (error) {
+    throw toContractError(error, method, 'Failed to revoke credential');
+  }
+};
+
+// Get the anchoring details of a Merkle root, or null if it was never anchored
+export const getMerkleRoot = async (root: string): Promise<MerkleRootDetails | null> => {
+  // Validate input
+  validateBytes32(root, 'Merkle root');
+
+  const contract = getReadOnlyContract();
+  try {
+    const [issuer, anchoredBy, anchoredAt, credentialCount, isRevoked] = await contract.getMerkleRoot(root);
+    return {
+      root,
+      issuer,
+      anchoredBy,
+      anchoredAt: new Date(anchoredAt.toNumber() * 1000),
+      credentialCount: credentialCount.toNumber(),
+      isRevoked
+    };
+  } catch (error) {
+    const contractError = toContractError(error, 'getMerkleRoot', 'Failed to get Merkle root');
+    if (contractError.revert?.name === 'MerkleRootNotAnchored') {
+      return null;
+    }
+    throw contractError;
+  }
+};
+
+/**
+ * Check a holder's proof file against the anchored Merkle root and its revocation state
+ * @param proofFile Parsed proof file (see parseMerkleProofFile)
+ * @returns 'valid' when the record is in an anchored, unrevoked batch, 'invalid-proof' when the
+ * record or proof was altered, 'unanchored' when the root is not on-chain, 'revoked' when the
+ * batch or this credential was revoked
+ */
+export const verifyMerkleCredential = async (proofFile: MerkleProofFile): Promise<MerkleVerificationResult> => {
+  const leaf = hashCredentialRecord(proofFile.credential);
+
+  // The proof is checked locally so altered records are rejected without a network call
+  if (processMerkleProof(leaf, proofFile.proof) !== proofFile.root.toLowerCase()) {
+    return { status: 'invalid-proof', leaf, anchor: null };
+  }
+
+  const anchor = await getMerkleRoot(proofFile.root);
+  if (!anchor) {
+    return { status: 'unanchored', leaf, anchor: null };
+  }
+
+  const contract = getReadOnlyContract();
+  try {
+    const isLeafRevoked: boolean = await contract.isMerkleCredentialRevoked(proofFile.root, leaf);
+    return {
+      status: anchor.isRevoked || isLeafRevoked ? 'revoked' : 'valid',
+      leaf,
+      anchor
+    };
+  } catch (error) {
+    throw toContractError(error, 'isMerkleCredentialRevoked', 'Failed to check revocation state');
+  }
+};
+
+/**
+ * Issue a credential off-chain by signing it as EIP-712 typed data with the connected wallet.
+ * No transaction is sent; the holder keeps the returned signed credential.
+ * @param credential The credential to sign
+ * @returns The signed credential, bound to this contract and chain
+ */
+export const signCredential = async (credential: OffChainCredential): Promise<SignedCredential> => {
+  // Validate all inputs
+  validateAddress(credential.holder, 'Holder address');
+  validateNonEmptyString(credential.title, 'Title');
+  validateNonEmptyString(credential.issuer, 'Issuer');
+  validateIpfsHash(credential.ipfsHash);
+  if (!Number.isInteger(credential.issueDate) || credential.issueDate <= 0) {
+    throw new ValidationError('Issue date must be a positive Unix timestamp');
+  }
+
+  const contract = getContract();
+  try {
+    const { chainId } = await contract.provider.getNetwork();
+    const domain = {
+      name: SIGNED_CREDENTIAL_DOMAIN_NAME,
+      version: SIGNED_CREDENTIAL_DOMAIN_VERSION,
+      chainId,
+      verifyingContract: contract.address
+    };
+    const signature = await (contract.signer as ethers.providers.JsonRpcSigner)
+      ._signTypedData(domain, SIGNED_CREDENTIAL_TYPES, credential);
+
+    return { version: SIGNED_CREDENTIAL_VERSION, domain, credential, signature };
+  } catch (error) {
+    throw toContractError(error, 'signCredential', 'Failed to sign credential');
+  }
+};
+
+/**
+ * Check a signed off-chain credential: recover the signer and check that it currently holds
+ * the issuer role on EduCredToken. Removing an issuer therefore invalidates their signatures.
+ * @param signed Parsed signed credential (see parseSignedCredential)
+ * @returns 'valid' when signed by a current issuer, 'invalid-signature' when the signature is malformed,
+ * 'wrong-contract' when signed for another contract or chain, 'unauthorized-issuer' when the recovered
+ * signer is not an issuer. An altered record recovers a different signer and so is unauthorized.
+ */
+export const verifySignedCredential = async (signed: SignedCredential): Promise<SignedCredentialVerificationResult> => {
+  let signer: string;
+  try {
+    signer = ethers.utils.verifyTypedData(signed.domain, SIGNED_CREDENTIAL_TYPES, signed.credential, signed.signature);
+  } catch {
+    return { status: 'invalid-signature', signer: null };
+  }
+
+  const contract = getReadOnlyContract();
+  try {
+    const { chainId } = await contract.provider.getNetwork();
+    if (
+      signed.domain.chainId !== chainId ||
+      signed.domain.verifyingContract.toLowerCase() !== contract.address.toLowerCase()
+    ) {
+      return { status: 'wrong-contract', signer };
     }
+
+    const isAuthorized: boolean = await contract.hasRole(ROLES.issuer, signer);
+    return { status: isAuthorized ? 'valid' : 'unauthorized-issuer', signer };
+  } catch (error) {
+    throw toContractError(error, 'verifySignedCredential', 'Failed to verify signed credential');
+  }
+};
+
+// Send an admin transaction that targets a single credential
+const sendCredentialAdminTransaction = async (
+  method: 'lockCredential' | 'unlockCredential' | 'approveBurn' | 'burnCredential',
+  tokenId: number
+): Promise<ethers.ContractReceipt> => {
+  // Validate input
+  validateTokenId(tokenId);
+
+  const contract = getContract();
+  try {
+    const tx = await sendTransaction(contract, method, tokenId);
+
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, method);
+    return receipt;
+  } catch (error) {
+    throw toContractError(error, method, `Failed to ${method}`);
+  }
+};
+
+// Lock a credential so its holder cannot transfer it
+export const lockCredential = (tokenId: number): Promise<ethers.ContractReceipt> =>
+  sendCredentialAdminTransaction('lockCredential', tokenId);
+
+// Unlock a credential so its holder can move it to another wallet
+export const unlockCredential = (tokenId: number): Promise<ethers.ContractReceipt> =>
+  sendCredentialAdminTransaction('unlockCredential', tokenId);
+
+// Approve the holder of a credential to burn it
+export const approveBurn = (tokenId: number): Promise<ethers.ContractReceipt> =>
+  sendCredentialAdminTransaction('approveBurn', tokenId);
+
+// Burn a credential (admins, or holders with an approved burn)
+export const burnCredential = (tokenId: number): Promise<ethers.ContractReceipt> =>
+  sendCredentialAdminTransaction('burnCredential', tokenId);
+
+// Get the current holder of a credential
+export const getCredentialOwner = async (tokenId: number): Promise<string> => {
+  // Validate input
+  validateTokenId(tokenId);
+
+  const contract = getReadOnlyContract();
+  try {
+    return await contract.ownerOf(tokenId);
+  } catch (error) {
+    throw toContractError(error, 'getCredentialOwner', 'Failed to get credential owner');
+  }
+};
+
+/**
+ * Estimate the gas and fees of revoking a credential, to preview them before signing
+ * @returns The fee estimate; pass a tier's fees to revokeCredential to send with them
+ */
+export const estimateRevokeCredential = async (tokenId: number, reason: string): Promise<FeeEstimate> => {
+  validateTokenId(tokenId);
+  validateNonEmptyString(reason, 'Revocation reason');
+
+  const contract = getContract();
+  try {
+    return await estimateTransaction(contract, 'revokeCredential', tokenId, reason);
+  } catch (error) {
+    throw toContractError(error, 'revokeCredential', 'Failed to estimate revocation fees');
+  }
+};
+
+// Revoke a credential, optionally with fees picked from estimateRevokeCredential
+export const revokeCredential = async (
+  tokenId: number,
+  reason: string,
+  fees?: TransactionFees
+): Promise<ethers.ContractReceipt> => {
+  // Validate inputs
+  validateTokenId(tokenId);
+  validateNonEmptyString(reason, 'Revocation reason');
+  
+  const contract = getContract();
+  try {
+    const tx = await sendTransaction(contract, 'revokeCredential', tokenId, reason, ...feeOverrides(fees));
     
-    return tokens;
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, 'revokeCredential');
+    return receipt;
+  } catch (error) {
+    throw toContractError(error, 'revokeCredential', 'Failed to revoke credential');
+  }
+};
+
+// Move a credential between the active and suspended states
+const updateCredentialStatus = async (
+  method: 'suspendCredential' | 'reinstateCredential',
+  tokenId: number,
+  reason?: string
+): Promise<ethers.ContractReceipt> => {
+  // Validate inputs
+  validateTokenId(tokenId);
+  if (method === 'suspendCredential') {
+    validateNonEmptyString(reason as string, 'Suspension reason');
+  }
+
+  const contract = getContract();
+  try {
+    const tx = method === 'suspendCredential'
+      ? await sendTransaction(contract, method, tokenId, reason as string)
+      : await sendTransaction(contract, method, tokenId);
+
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, method);
+    return receipt;
+  } catch (error) {
+    throw toContractError(error, method, `Failed to ${method}`);
+  }
+};
+
+// Temporarily suspend a credential, e.g. during an investigation
+export const suspendCredential = (tokenId: number, reason: string): Promise<ethers.ContractReceipt> =>
+  updateCredentialStatus('suspendCredential', tokenId, reason);
+
+// Return a suspended credential to the active state
+export const reinstateCredential = (tokenId: number): Promise<ethers.ContractReceipt> =>
+  updateCredentialStatus('reinstateCredential', tokenId);
+
+/**
+ * Replace an active credential with a corrected version minted to the same holder.
+ * The original is marked as superseded and points to its replacement.
+ * @param oldTokenId The credential to amend
+ * @param amendment The corrected fields; ipfsHash may be the original document's
+ * @returns The token ID of the replacement
+ */
+export const amendCredential = async (
+  oldTokenId: number,
+  amendment: CredentialAmendment
+): Promise<number> => {
+  // Validate all inputs
+  validateTokenId(oldTokenId);
+  validateNonEmptyString(amendment.title, 'Title');
+  validateNonEmptyString(amendment.description, 'Description');
+  validateNonEmptyString(amendment.issuer, 'Issuer');
+  validateIpfsHash(amendment.ipfsHash);
+  if (amendment.expiresAt) {
+    validateExpiryDate(amendment.expiresAt);
+  }
+  if (amendment.metadataURI) {
+    validateMetadataUri(amendment.metadataURI);
+  }
+
+  const contract = getContract();
+  try {
+    const expiresAtSeconds = amendment.expiresAt ? Math.floor(amendment.expiresAt.getTime() / 1000) : 0;
+    const tx = await sendTransaction(
+      contract,
+      'amendCredential',
+      oldTokenId,
+      amendment.title,
+      amendment.description,
+      amendment.issuer,
+      amendment.ipfsHash,
+      expiresAtSeconds,
+      amendment.metadataURI ?? ''
+    );
+
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, 'amendCredential');
+    const amended = receipt.events?.find(event => event.event === 'CredentialAmended');
+    if (!amended) {
+      throw new Error('Amendment event not found in transaction receipt');
+    }
+    return (amended.args?.newTokenId as ethers.BigNumber).toNumber();
+  } catch (error) {
+    throw toContractError(error, 'amendCredential', 'Failed to amend credential');
+  }
+};
+
+/**
+ * Get every version of a credential, from the original to the current one
+ * @param tokenId Any version in the chain
+ * @returns The versions, oldest first
+ */
+export const getCredentialVersions = async (tokenId: number): Promise<CredentialVersion[]> => {
+  // Walk back from the current version; each version has at most one predecessor
+  const current = await getCredential(tokenId);
+  const versions: CredentialVersion[] = [];
+  let version: CredentialVersion | null = current.currentVersion === tokenId
+    ? { ...current, tokenId }
+    : { ...await getCredential(current.currentVersion), tokenId: current.currentVersion };
+
+  while (version) {
+    versions.unshift(version);
+    const previousVersion: number | null = version.previousVersion;
+    version = previousVersion === null
+      ? null
+      : { ...await getCredential(previousVersion), tokenId: previousVersion };
+  }
+  return versions;
+};
+
+// Get why, when and by whom a credential was revoked, or null if it has not been revoked
+export const getRevocation = async (tokenId: number): Promise<RevocationDetails | null> => {
+  // Validate input
+  validateTokenId(tokenId);
+
+  const contract = getReadOnlyContract();
+  try {
+    const [reason, revokedAt, revokedBy] = await contract.getRevocation(tokenId);
+    return {
+      tokenId,
+      reason,
+      revokedAt: new Date(revokedAt.toNumber() * 1000),
+      revokedBy
+    };
+  } catch (error) {
+    const contractError = toContractError(error, 'getRevocation', 'Failed to get revocation');
+    if (contractError.revert?.name === 'CredentialNotRevoked') {
+      return null;
+    }
+    throw contractError;
+  }
+};
+
+/**
+ * Read revocations from the CredentialRevoked event log, newest first
+ * @param options.tokenId Only return the revocation of this credential
+ * @param options.fromBlock First block to search, defaults to the contract's deployment block, from the deployment manifest or `VITE_DEPLOYMENT_BLOCK`
+ * @returns One record per revocation, including the transaction that revoked it
+ */
+export const getRevocationHistory = async (
+  options: { tokenId?: number; fromBlock?: number } = {}
+): Promise<RevocationRecord[]> => {
+  const { tokenId } = options;
+  if (tokenId !== undefined) {
+    validateTokenId(tokenId);
+  }
+
+  const contract = getReadOnlyContract();
+  const { chainId } = await contract.provider.getNetwork();
+  const startBlock = options.fromBlock ?? getDeploymentBlock(chainId, contract.address);
+  try {
+    const filter = contract.filters.CredentialRevoked(tokenId ?? null);
+    const latestBlock = await contract.provider.getBlockNumber();
+
+    // Public RPC endpoints reject large block ranges, so the log is read in windows
+    const events: ethers.Event[] = [];
+    for (let fromBlock = startBlock; fromBlock <= latestBlock; fromBlock += LOG_CHUNK_SIZE) {
+      const toBlock = Math.min(fromBlock + LOG_CHUNK_SIZE - 1, latestBlock);
+      events.push(...await contract.queryFilter(filter, fromBlock, toBlock));
+    }
+
+    // The log carries the reason; the revoker and timestamp come from the on-chain record
+    const records = await Promise.all(events.map(async (event) => {
+      const eventTokenId = (event.args!.tokenId as ethers.BigNumber).toNumber();
+      const revocation = await getRevocation(eventTokenId);
+      return {
+        tokenId: eventTokenId,
+        reason: event.args!.reason as string,
+        revokedAt: revocation?.revokedAt ?? new Date((await event.getBlock()).timestamp * 1000),
+        revokedBy: revocation?.revokedBy ?? (await event.getTransaction()).from,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber
+      };
+    }));
+
+    return records.sort((a, b) => b.blockNumber - a.blockNumber);
+  } catch (error) {
+    throw toContractError(error, 'getRevocationHistory', 'Failed to load revocation history');
+  }
+};
+
+// Get the ERC-721 metadata URI of a credential, or null if it was minted without metadata
+export const getTokenURI = async (tokenId: number): Promise<string | null> => {
+  // Validate input
+  validateTokenId(tokenId);
+
+  const contract = getReadOnlyContract();
+  try {
+    const uri: string = await contract.tokenURI(tokenId);
+    return uri || null;
+  } catch (error) {
+    throw toContractError(error, 'getTokenURI', 'Failed to get token URI');
+  }
+};
+
+// Grant or revoke a role for an account
+const updateRole = async (
+  role: CredentialRole,
+  account: string,
+  action: 'grant' | 'revoke',
+  method: string
+): Promise<ethers.ContractReceipt> => {
+  // Validate input
+  validateAddress(account, 'Account address');
+
+  const contract = getContract();
+  try {
+    const tx = await sendTransaction(contract, action === 'grant' ? 'grantRole' : 'revokeRole', ROLES[role], account);
+
+    // Track the transaction
+    const receipt = await trackTransaction(contract, tx, method);
+    return receipt;
+  } catch (error) {
+    throw toContractError(error, method, `Failed to ${action} ${role} role`);
+  }
+};
+
+// Check whether an account holds a role
+const hasRole = async (role: CredentialRole, account: string, method: string): Promise<boolean> => {
+  // Validate input
+  validateAddress(account, 'Account address');
+
+  const contract = getReadOnlyContract();
+  try {
+    return await contract.hasRole(ROLES[role], account);
+  } catch (error) {
+    throw toContractError(error, method, `Failed to check ${role} role`);
+  }
+};
+
+// Grant the issuer role to an account
+export const grantIssuer = (account: string): Promise<ethers.ContractReceipt> =>
+  updateRole('issuer', account, 'grant', 'grantIssuer');
+
+// Revoke the issuer role from an account
+export const revokeIssuer = (account: string): Promise<ethers.ContractReceipt> =>
+  updateRole('issuer', account, 'revoke', 'revokeIssuer');
+
+// Check whether an account may mint credentials
+export const isIssuer = (account: string): Promise<boolean> =>
+  hasRole('issuer', account, 'isIssuer');
+
+// Grant the admin role to an account
+export const grantAdmin = (account: string): Promise<ethers.ContractReceipt> =>
+  updateRole('admin', account, 'grant', 'grantAdmin');
+
+// Revoke the admin role from an account
+export const revokeAdmin = (account: string): Promise<ethers.ContractReceipt> =>
+  updateRole('admin', account, 'revoke', 'revokeAdmin');
+
+// Check whether an account may manage issuers
+export const isAdmin = (account: string): Promise<boolean> =>
+  hasRole('admin', account, 'isAdmin');
+
+// Get all accounts holding a role
+export const getRoleMembers = async (role: CredentialRole): Promise<string[]> => {
+  const contract = getReadOnlyContract();
+  try {
+    const count: ethers.BigNumber = await contract.getRoleMemberCount(ROLES[role]);
+    const members = await Promise.all(
+      Array.from({ length: count.toNumber() }, (_, index) => contract.getRoleMember(ROLES[role], index))
+    );
+    return members;
   } catch (error) {
-    const appError = toAppError(error, 'Failed to get tokens by owner');
-    throw new ContractError(appError.message, 'getTokensByOwner', { owner, error });
+    throw toContractError(error, 'getRoleMembers', `Failed to get ${role} accounts`);
   }
 };
@@ -0,0 +1,254 @@
+import { ethers } from 'ethers';
+import { createStore, get, set, del } from 'idb-keyval';
+import { ValidationError, ContractError, toAppError } from '../utils/errors';
+import { getReadOnlyContract, LOG_CHUNK_SIZE } from './contractService';
+import { getDeploymentBlock } from '../utils/deployments';
+import { getNetworkByChainId } from '../utils/networks';
+
+// Bump when the stored shape changes; older indexes are discarded and rebuilt
+const INDEX_VERSION = 1;
+
+// Block hashes kept to detect reorgs; a reorg deeper than these triggers a full rescan
+const MAX_CHECKPOINTS = 32;
+
+const INDEXED_EVENTS = ['Transfer', 'CredentialMinted', 'CredentialRevoked'] as const;
+
+export type IndexedEventType = typeof INDEXED_EVENTS[number];
+
+interface IndexedEventBase {
+  tokenId: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+// A decoded contract log, as persisted in IndexedDB
+export type IndexedEvent =
+  | IndexedEventBase & { type: 'Transfer'; from: string; to: string }
+  | IndexedEventBase & { type: 'CredentialMinted'; to: string; issuedBy: string }
+  | IndexedEventBase & { type: 'CredentialRevoked'; reason: string };
+
+// Current state of a token, derived from its events
+export interface IndexedCredential {
+  tokenId: number;
+  owner: string | null;
+  issuedBy: string | null;
+  isRevoked: boolean;
+  // Blocks scanned since the mint, counting the mint's own block
+  confirmations: number;
+  // The network's confirmation depth; the mint can still be reorged away until confirmations reach it
+  requiredConfirmations: number;
+}
+
+interface BlockCheckpoint {
+  number: number;
+  hash: string;
+}
+
+interface CredentialIndex {
+  version: number;
+  deploymentBlock: number;
+  // Most recent last; the last checkpoint is the last block scanned
+  checkpoints: BlockCheckpoint[];
+  events: IndexedEvent[];
+}
+
+const indexStore = createStore('educred-indexer', 'credential-index');
+
+// Syncs in progress by index key, shared by concurrent callers for the same chain and contract
+const activeSyncs = new Map<string, Promise<CredentialIndex>>();
+
+const createIndex = (deploymentBlock: number): CredentialIndex => ({
+  version: INDEX_VERSION,
+  deploymentBlock,
+  checkpoints: [],
+  events: []
+});
+
+// One index per chain and contract
+const getIndexKey = (chainId: number, address: string): string =>
+  `${chainId}:${address.toLowerCase()}`;
+
+const decodeLog = (contract: ethers.Contract, log: ethers.providers.Log): IndexedEvent => {
+  const { name, args } = contract.interface.parseLog(log);
+  const base = {
+    tokenId: (args.tokenId as ethers.BigNumber).toNumber(),
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    transactionHash: log.transactionHash
+  };
+
+  switch (name as IndexedEventType) {
+    case 'Transfer':
+      return { ...base, type: 'Transfer', from: args.from, to: args.to };
+    case 'CredentialMinted':
+      return { ...base, type: 'CredentialMinted', to: args.to, issuedBy: args.issuedBy };
+    default:
+      return { ...base, type: 'CredentialRevoked', reason: args.reason };
+  }
+};
+
+/**
+ * Drop everything indexed after the newest checkpoint that is still on the canonical chain
+ * @param provider Provider to read block hashes from
+ * @param index The stored index
+ * @returns The index, rewound if a reorg replaced any checkpointed block
+ */
+const rewindReorgedBlocks = async (
+  provider: ethers.providers.Provider,
+  index: CredentialIndex
+): Promise<CredentialIndex> => {
+  const checkpoints = [...index.checkpoints];
+  while (checkpoints.length > 0) {
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    const block = await provider.getBlock(checkpoint.number);
+    if (block?.hash === checkpoint.hash) {
+      break;
+    }
+    checkpoints.pop();
+  }
+
+  if (checkpoints.length === index.checkpoints.length) {
+    return index;
+  }
+  if (checkpoints.length === 0) {
+    return createIndex(index.deploymentBlock);
+  }
+
+  const lastValidBlock = checkpoints[checkpoints.length - 1].number;
+  return {
+    ...index,
+    checkpoints,
+    events: index.events.filter(event => event.blockNumber <= lastValidBlock)
+  };
+};
+
+const syncIndex = async (
+  contract: ethers.Contract,
+  key: string,
+  deploymentBlock: number
+): Promise<CredentialIndex> => {
+  const provider = contract.provider;
+
+  const stored = await get<CredentialIndex>(key, indexStore);
+  let index = stored?.version === INDEX_VERSION && stored.deploymentBlock === deploymentBlock
+    ? await rewindReorgedBlocks(provider, stored)
+    : createIndex(deploymentBlock);
+
+  const topics = [INDEXED_EVENTS.map(name => contract.interface.getEventTopic(name))];
+  const latestBlock = await provider.getBlockNumber();
+  const lastCheckpoint = index.checkpoints[index.checkpoints.length - 1];
+  let fromBlock = lastCheckpoint ? lastCheckpoint.number + 1 : deploymentBlock;
+
+  while (fromBlock <= latestBlock) {
+    const toBlock = Math.min(fromBlock + LOG_CHUNK_SIZE - 1, latestBlock);
+    const [logs, block] = await Promise.all([
+      provider.getLogs({ address: contract.address, topics, fromBlock, toBlock }),
+      provider.getBlock(toBlock)
+    ]);
+
+    index = {
+      ...index,
+      checkpoints: [...index.checkpoints, { number: toBlock, hash: block.hash }].slice(-MAX_CHECKPOINTS),
+      events: [...index.events, ...logs.filter(log => !log.removed).map(log => decodeLog(contract, log))]
+    };
+
+    // Persist after every chunk so an interrupted scan resumes where it stopped
+    await set(key, index, indexStore);
+    fromBlock = toBlock + 1;
+  }
+
+  return index;
+};
+
+/**
+ * Bring the credential index up to date with the chain. Scans new Transfer, CredentialMinted
+ * and CredentialRevoked logs since the last sync, after rewinding any blocks replaced by a reorg.
+ * @returns The current state of every credential ever minted, by token ID
+ * @throws {ValidationError} If the deployment block isn't recorded outside a local Hardhat node
+ */
+export const syncCredentialIndex = async (): Promise<IndexedCredential[]> => {
+  const contract = getReadOnlyContract();
+  const { chainId } = await contract.provider.getNetwork();
+  const key = getIndexKey(chainId, contract.address);
+  const deploymentBlock = getDeploymentBlock(chainId, contract.address);
+
+  let sync = activeSyncs.get(key);
+  if (!sync) {
+    sync = syncIndex(contract, key, deploymentBlock).finally(() => {
+      activeSyncs.delete(key);
+    });
+    activeSyncs.set(key, sync);
+  }
+
+  let index: CredentialIndex;
+  try {
+    index = await sync;
+  } catch (error) {
+    const appError = toAppError(error, 'Failed to index credentials');
+    throw new ContractError(appError.message, 'syncCredentialIndex', error);
+  }
+
+  const lastScannedBlock = index.checkpoints[index.checkpoints.length - 1]?.number ?? index.deploymentBlock;
+  const requiredConfirmations = getNetworkByChainId(chainId)?.confirmations ?? 1;
+
+  const credentials = new Map<number, IndexedCredential>();
+  const credentialFor = (tokenId: number) => {
+    let credential = credentials.get(tokenId);
+    if (!credential) {
+      credential = { tokenId, owner: null, issuedBy: null, isRevoked: false, confirmations: 0, requiredConfirmations };
+      credentials.set(tokenId, credential);
+    }
+    return credential;
+  };
+
+  for (const event of index.events) {
+    const credential = credentialFor(event.tokenId);
+    if (event.type === 'Transfer') {
+      credential.owner = event.to === ethers.constants.AddressZero ? null : event.to;
+    } else if (event.type === 'CredentialMinted') {
+      credential.issuedBy = event.issuedBy;
+      credential.confirmations = lastScannedBlock - event.blockNumber + 1;
+    } else {
+      credential.isRevoked = true;
+    }
+  }
+
+  return Array.from(credentials.values()).sort((a, b) => a.tokenId - b.tokenId);
+};
+
+const findIndexedCredentials = async (
+  account: string,
+  field: 'owner' | 'issuedBy'
+): Promise<IndexedCredential[]> => {
+  if (!ethers.utils.isAddress(account)) {
+    throw new ValidationError(`Invalid ${field === 'owner' ? 'owner' : 'issuer'} address: ${account}`);
+  }
+
+  // Burned credentials have no owner and are left out
+  const credentials = await syncCredentialIndex();
+  return credentials
+    .filter(credential => credential.owner !== null && credential[field]?.toLowerCase() === account.toLowerCase());
+};
+
+// Get the credentials an address currently holds, with how deeply each mint is confirmed
+export const getIndexedCredentialsByOwner = (owner: string): Promise<IndexedCredential[]> =>
+  findIndexedCredentials(owner, 'owner');
+
+// Get the IDs of the credentials an address currently holds
+export const getIndexedTokensByOwner = async (owner: string): Promise<number[]> =>
+  (await findIndexedCredentials(owner, 'owner')).map(credential => credential.tokenId);
+
+// Get the IDs of the credentials an address minted
+export const getIndexedTokensByIssuer = async (issuer: string): Promise<number[]> =>
+  (await findIndexedCredentials(issuer, 'issuedBy')).map(credential => credential.tokenId);
+
+/**
+ * Delete the stored index for the current chain and contract; the next sync rescans
+ * from the deployment block
+ */
+export const clearCredentialIndex = async (): Promise<void> => {
+  const contract = getReadOnlyContract();
+  const { chainId } = await contract.provider.getNetwork();
+  await del(getIndexKey(chainId, contract.address), indexStore);
+};
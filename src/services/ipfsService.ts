@@ -10,6 +10,22 @@ if (!NFT_STORAGE_KEY) {
 // Create an NFT.Storage client
 const client = NFT_STORAGE_KEY ? new NFTStorage({ token: NFT_STORAGE_KEY }) : null;
 
+/**
+ * Compute the IPFS content identifier (CID) of a file locally, without uploading it.
+ * Produces the same CID that uploadToIPFS returns for the same file.
+ * @param file The file to hash
+ * @returns The IPFS hash (CID) of the file
+ */
+export const computeIPFSCid = async (file: Blob): Promise<string> => {
+  try {
+    const { cid } = await NFTStorage.encodeBlob(file);
+    return cid.toString();
+  } catch (error) {
+    console.error('Error computing IPFS CID:', error);
+    throw new Error('Failed to compute the IPFS hash of the file.');
+  }
+};
+
 /**
  * Upload a file to IPFS using NFT.Storage
  * @param file The file to upload
@@ -22,24 +38,89 @@ export const uploadToIPFS = async (file: File, onProgress?: (progress: { loaded:
   }
 
   try {
-    const metadata = await client.store({
-      name: file.name,
-      description: 'Educational credential document',
-      image: file,
-    }, { onStoredChunk: (size) => {
+    // Encode locally so the returned CID is the document's own CID, which
+    // verifiers can recompute with computeIPFSCid
+    const { cid, car } = await NFTStorage.encodeBlob(file);
+    await client.storeCar(car, { onStoredChunk: (size) => {
       if (onProgress) {
         onProgress({ loaded: size, total: file.size });
       }
     }});
 
     // Return the IPFS hash (CID)
-    return metadata.url.replace('ipfs://', '');
+    return cid.toString();
   } catch (error) {
     console.error('Error uploading to IPFS:', error);
     throw new Error('Failed to upload to IPFS. Please check your connection and try again.');
   }
 };
 
+// Credential details recorded in its ERC-721 metadata JSON
+export interface CredentialMetadataDetails {
+  title: string;
+  description: string;
+  issuer: string;
+  issueDate: Date;
+  ipfsHash: string;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Build the ERC-721 metadata JSON for a credential, following the OpenSea metadata standard.
+ * The status attribute records the status at issuance; the contract remains the source of truth.
+ * @param details The credential details
+ * @param imageCid IPFS CID of the credential's preview image
+ * @returns The metadata object
+ */
+export const buildCredentialMetadata = (details: CredentialMetadataDetails, imageCid: string) => {
+  const toUnixSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+  return {
+    name: details.title,
+    description: details.description,
+    image: `ipfs://${imageCid}`,
+    external_url: getIPFSGatewayUrl(details.ipfsHash),
+    attributes: [
+      { trait_type: 'Issuer', value: details.issuer },
+      { trait_type: 'Issue Date', display_type: 'date', value: toUnixSeconds(details.issueDate) },
+      ...(details.expiresAt
+        ? [{ trait_type: 'Expiry Date', display_type: 'date', value: toUnixSeconds(details.expiresAt) }]
+        : []),
+      { trait_type: 'Status', value: 'Active' },
+      { trait_type: 'Document CID', value: details.ipfsHash },
+    ],
+  };
+};
+
+/**
+ * Pin a credential's preview image and ERC-721 metadata JSON to IPFS
+ * @param details The credential details
+ * @param previewDataUrl Preview image data URL, as returned by generatePDFPreview
+ * @returns The ipfs:// URI of the metadata JSON, to be recorded on-chain at mint
+ */
+export const uploadCredentialMetadata = async (
+  details: CredentialMetadataDetails,
+  previewDataUrl: string
+): Promise<string> => {
+  const image = await (await fetch(previewDataUrl)).blob();
+  const imageCid = await uploadToIPFS(new File([image], 'preview.jpg', { type: image.type }));
+
+  const metadata = buildCredentialMetadata(details, imageCid);
+  const metadataCid = await uploadToIPFS(
+    new File([JSON.stringify(metadata, null, 2)], 'metadata.json', { type: 'application/json' })
+  );
+  return `ipfs://${metadataCid}`;
+};
+
+/**
+ * Build a public gateway URL for an IPFS CID
+ * @param cid The IPFS content identifier (CID)
+ * @returns The gateway URL
+ */
+export const getIPFSGatewayUrl = (cid: string): string => {
+  return `https://ipfs.io/ipfs/${cid}`;
+};
+
 /**
  * Retrieve a file from IPFS
  * @param cid The IPFS content identifier (CID)
@@ -48,8 +129,7 @@ export const uploadToIPFS = async (file: File, onProgress?: (progress: { loaded:
 export const retrieveFromIPFS = async (cid: string): Promise<ArrayBuffer> => {
   try {
     // Use a public IPFS gateway
-    const gatewayUrl = `https://ipfs.io/ipfs/${cid}`;
-    const response = await fetch(gatewayUrl);
+    const response = await fetch(getIPFSGatewayUrl(cid));
     
     if (!response.ok) {
       throw new Error(`Failed to fetch from IPFS: ${response.statusText}`);
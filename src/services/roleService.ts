@@ -0,0 +1,90 @@
+import { CredentialRole, isAdmin, isIssuer } from './contractService';
+
+// Holders are any connected account; issuers and admins hold the matching contract role
+export type UserRole = 'holder' | CredentialRole;
+
+export type AccountRoles = Record<CredentialRole, boolean>;
+
+// Resolved roles, keyed by chain and lowercased address, so each account is only looked up once per chain
+const roleCache = new Map<string, AccountRoles>();
+const pendingLookups = new Map<string, Promise<AccountRoles>>();
+let roleListeners: Array<() => void> = [];
+
+const getCacheKey = (address: string, chainId: number) => `${chainId}:${address.toLowerCase()}`;
+
+const notifyRolesChange = () => {
+  roleListeners.forEach(listener => listener());
+};
+
+/**
+ * Get an account's roles if they were already resolved
+ * @param address The account
+ * @param chainId The chain the roles were read from
+ * @returns The roles, or null if they haven't been resolved yet
+ */
+export const getCachedRoles = (address: string, chainId: number): AccountRoles | null =>
+  roleCache.get(getCacheKey(address, chainId)) ?? null;
+
+/**
+ * Resolve an account's roles from the contract. Results are cached, and concurrent lookups
+ * for the same account share one request.
+ * @param address The account
+ * @param chainId The chain the read-only client is on
+ * @returns Whether the account is an issuer and an admin
+ * @throws {ContractError} If the contract can't be read
+ */
+export const resolveRoles = async (address: string, chainId: number): Promise<AccountRoles> => {
+  const key = getCacheKey(address, chainId);
+  const cached = roleCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let lookup = pendingLookups.get(key);
+  if (!lookup) {
+    lookup = Promise.all([isIssuer(address), isAdmin(address)])
+      .then(([issuer, admin]) => {
+        const roles = { issuer, admin };
+        roleCache.set(key, roles);
+        return roles;
+      })
+      .finally(() => pendingLookups.delete(key));
+    pendingLookups.set(key, lookup);
+  }
+  return lookup;
+};
+
+/**
+ * Forget cached roles so they are read from the contract again, e.g. after a role was granted
+ * @param address The account to forget, or every account if omitted
+ */
+export const invalidateRoles = (address?: string): void => {
+  if (address) {
+    const suffix = `:${address.toLowerCase()}`;
+    [...roleCache.keys()].filter(key => key.endsWith(suffix)).forEach(key => roleCache.delete(key));
+  } else {
+    roleCache.clear();
+  }
+  notifyRolesChange();
+};
+
+/**
+ * Check whether an account's roles allow a page
+ * @param roles The account's roles
+ * @param required The role, or any of the roles, the page needs
+ * @returns True if the account holds a required role
+ */
+export const hasRequiredRole = (roles: AccountRoles, required: UserRole | UserRole[]): boolean =>
+  (Array.isArray(required) ? required : [required]).some(role => role === 'holder' || roles[role]);
+
+/**
+ * Register a listener called when cached roles are invalidated
+ * @param listener Function to call on changes
+ * @returns Function to unregister the listener
+ */
+export const onRolesChange = (listener: () => void): (() => void) => {
+  roleListeners.push(listener);
+  return () => {
+    roleListeners = roleListeners.filter(l => l !== listener);
+  };
+};
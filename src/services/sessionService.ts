@@ -0,0 +1,214 @@
+import { ethers } from 'ethers';
+import { ValidationError, AuthenticationError } from '../utils/errors';
+import { SIWE_VERSION, SiweMessage, formatSiweMessage, generateNonce, parseSiweMessage } from '../utils/siwe';
+import { getEthereumProvider } from './walletProviders';
+
+// A Sign-In with Ethereum session: the signed message is kept and checked again on every read
+export interface Session {
+  address: string;
+  chainId: number;
+  message: string;
+  signature: string;
+  expiresAt: number;
+}
+
+// Sessions are kept in local storage so they survive a reload
+const SESSION_KEY = 'educred.session';
+
+// Nonces of signed-out sessions, kept until those sessions would have expired so they can't be restored
+const REVOKED_SESSIONS_KEY = 'educred.revokedSessions';
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Longer timer delays overflow and fire at once
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Tolerated difference between the wallet's and the browser's clocks
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const SIGN_IN_STATEMENT =
+  'Sign in to EduCred Chain. This proves you control this address; it sends no transaction and costs no gas.';
+
+let sessionListeners: Array<() => void> = [];
+
+// Fires when the stored session expires, so listeners drop it without waiting for a reload
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const notifySessionChange = () => {
+  sessionListeners.forEach(listener => listener());
+};
+
+const scheduleExpiry = (session: Session | null) => {
+  if (expiryTimer) {
+    clearTimeout(expiryTimer);
+  }
+  const delay = session ? Math.min(Math.max(0, session.expiresAt - Date.now()), MAX_TIMER_DELAY_MS) : 0;
+  expiryTimer = session ? setTimeout(notifySessionChange, delay) : null;
+};
+
+const loadRevokedSessions = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(REVOKED_SESSIONS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const revokeNonce = (nonce: string, expiresAt: number) => {
+  const now = Date.now();
+  const revoked = Object.fromEntries(
+    Object.entries(loadRevokedSessions()).filter(([, until]) => until > now)
+  );
+  revoked[nonce] = expiresAt;
+  localStorage.setItem(REVOKED_SESSIONS_KEY, JSON.stringify(revoked));
+};
+
+/**
+ * Check a session entirely in the browser: the message must be a Sign-In with Ethereum message
+ * for this site, signed by the session's address, within its validity window and not signed out
+ * @param session The stored session
+ * @returns The signed message
+ * @throws {AuthenticationError} If the session is invalid or expired
+ */
+const verifySession = (session: Session): SiweMessage => {
+  let message: SiweMessage;
+  try {
+    message = parseSiweMessage(session.message);
+  } catch (error) {
+    throw new AuthenticationError((error as Error).message);
+  }
+
+  if (message.domain !== window.location.host || new URL(message.uri).origin !== window.location.origin) {
+    throw new AuthenticationError('Session was signed for another site');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.utils.verifyMessage(session.message, session.signature);
+  } catch {
+    throw new AuthenticationError('Session signature is malformed');
+  }
+  if (signer !== message.address || message.address.toLowerCase() !== session.address.toLowerCase()) {
+    throw new AuthenticationError('Session was not signed by its address');
+  }
+
+  const now = Date.now();
+  if (Date.parse(message.issuedAt) > now + CLOCK_SKEW_MS) {
+    throw new AuthenticationError('Session was issued in the future');
+  }
+  if (message.notBefore && Date.parse(message.notBefore) > now) {
+    throw new AuthenticationError('Session is not valid yet');
+  }
+  if (!message.expirationTime || Date.parse(message.expirationTime) <= now) {
+    throw new AuthenticationError('Session has expired');
+  }
+  if (loadRevokedSessions()[message.nonce]) {
+    throw new AuthenticationError('Session was signed out');
+  }
+  return message;
+};
+
+const loadSession = (): Session | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the current session, if it is still valid. Invalid and expired sessions are removed, and
+ * session listeners are called once the returned session expires.
+ * @returns The session, or null if signed out
+ */
+export const getSession = (): Session | null => {
+  const session = loadSession();
+  if (!session) {
+    return null;
+  }
+  try {
+    verifySession(session);
+    scheduleExpiry(session);
+    return session;
+  } catch (error) {
+    console.warn('Discarding session:', (error as Error).message);
+    localStorage.removeItem(SESSION_KEY);
+    scheduleExpiry(null);
+    return null;
+  }
+};
+
+/**
+ * Sign in with the chosen wallet: it signs an EIP-4361 message, which is verified locally
+ * and stored as a session that expires after a day
+ * @param address The account to sign in with
+ * @param chainId The wallet's chain
+ * @returns The new session
+ * @throws {ValidationError} If no wallet is selected
+ * @throws {AuthenticationError} If the signature doesn't verify
+ */
+export const signIn = async (address: string, chainId: number): Promise<Session> => {
+  const ethereum = getEthereumProvider();
+  if (!ethereum) {
+    throw new ValidationError('No wallet selected. Please connect a wallet to continue.');
+  }
+
+  const issuedAt = new Date();
+  const expiresAt = issuedAt.getTime() + SESSION_TTL_MS;
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address: ethers.utils.getAddress(address),
+    statement: SIGN_IN_STATEMENT,
+    uri: window.location.origin,
+    version: SIWE_VERSION,
+    chainId,
+    nonce: generateNonce(),
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(expiresAt).toISOString(),
+  });
+
+  const signer = new ethers.providers.Web3Provider(ethereum).getSigner(address);
+  const signature = await signer.signMessage(message);
+
+  const session: Session = { address: ethers.utils.getAddress(address), chainId, message, signature, expiresAt };
+  verifySession(session);
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  scheduleExpiry(session);
+  notifySessionChange();
+  return session;
+};
+
+// Sign out: the session is removed and its nonce revoked, so a copy of it no longer verifies
+export const signOut = (): void => {
+  const session = loadSession();
+  if (session) {
+    try {
+      const { nonce } = parseSiweMessage(session.message);
+      revokeNonce(nonce, session.expiresAt);
+    } catch {
+      // A malformed session can't verify anyway
+    }
+  }
+  localStorage.removeItem(SESSION_KEY);
+  scheduleExpiry(null);
+  notifySessionChange();
+};
+
+/**
+ * Register a listener called on sign-in, sign-out and expiry, including sign-ins and sign-outs in other tabs
+ * @param listener Function to call on changes
+ * @returns Function to unregister the listener
+ */
+export const onSessionChange = (listener: () => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SESSION_KEY) {
+      listener();
+    }
+  };
+  sessionListeners.push(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    sessionListeners = sessionListeners.filter(l => l !== listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
@@ -0,0 +1,448 @@
+import { ethers } from 'ethers';
+import { ValidationError } from '../utils/errors';
+import { getNetworkByChainId } from '../utils/networks';
+
+// Submitted transactions wait for a block, included ones for their network's confirmation depth
+export type TransactionState = 'submitted' | 'included' | 'final' | 'failed' | 'replaced' | 'dropped';
+
+// A same-nonce transaction sent to replace a pending one
+export type ReplacementKind = 'speed-up' | 'cancel';
+
+export interface TransactionStatus {
+  hash: string;
+  status: TransactionState;
+  // Contract method the transaction calls, e.g. 'revokeCredential'
+  method: string;
+  from: string;
+  nonce: number;
+  chainId: number;
+  confirmations: number;
+  // Confirmations needed before the transaction is final
+  requiredConfirmations: number;
+  // The block the transaction was included in; cleared when a reorg removes that block
+  blockNumber?: number;
+  blockHash?: string;
+  // How many times a reorg removed the transaction from the chain after it was included
+  reorgs?: number;
+  gasUsed?: string;
+  error?: string;
+  timestamp: number;
+  // Set on speed-up and cancel transactions
+  kind?: ReplacementKind;
+  replaces?: string;
+  // Set once a replaced transaction's replacement is known to be mined
+  replacedBy?: string;
+}
+
+// What is needed to send a replacement with the same nonce, as JSON-safe strings
+interface ReplaceableRequest {
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+}
+
+interface StoredTransaction extends TransactionStatus {
+  request: ReplaceableRequest;
+}
+
+// Transactions are kept in local storage so pending ones are watched again after a reload.
+// Bump the version when the stored shape changes; transactions stored under an older key are ignored.
+const TRANSACTIONS_KEY = 'educred.transactions.v2';
+
+// Finished transactions are kept for a day, and at most this many transactions overall
+const FINISHED_TRANSACTION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_STORED_TRANSACTIONS = 50;
+
+const POLL_INTERVAL_MS = 4_000;
+
+// Polling slows down while the node keeps failing, up to this interval
+const MAX_POLL_INTERVAL_MS = 60_000;
+
+// Unknown chains, e.g. a transaction recorded while on a network since removed from the registry
+const DEFAULT_REQUIRED_CONFIRMATIONS = 1;
+
+const getRequiredConfirmations = (chainId: number): number =>
+  getNetworkByChainId(chainId)?.confirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS;
+
+// Polls a transaction can be missing from the node, with its nonce unused, before it counts as dropped
+const DROPPED_AFTER_MISSED_POLLS = 15;
+
+// Nodes only accept a replacement that raises both fees by at least 10%
+const REPLACEMENT_FEE_PERCENT = 130;
+
+const CANCEL_GAS_LIMIT = 21_000;
+
+const loadTransactions = (): StoredTransaction[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TRANSACTIONS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+let transactions: StoredTransaction[] = loadTransactions();
+let transactionListeners: Array<() => void> = [];
+
+// Watchers of pending transactions, shared by everyone waiting on the same hash
+const watchers = new Map<string, Promise<StoredTransaction | undefined>>();
+
+// Provider pending transactions are polled with. Watchers read it on every poll, since a wallet
+// provider stops working once the wallet switches networks and a new one replaces it.
+let watchProvider: ethers.providers.Provider | null = null;
+
+const isFinished = (transaction: TransactionStatus) =>
+  transaction.status !== 'submitted' && transaction.status !== 'included';
+
+const saveTransactions = () => {
+  const cutoff = Date.now() - FINISHED_TRANSACTION_TTL_MS;
+  transactions = transactions
+    .filter(transaction => !isFinished(transaction) || transaction.timestamp >= cutoff)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_STORED_TRANSACTIONS);
+
+  try {
+    localStorage.setItem(TRANSACTIONS_KEY, JSON.stringify(transactions));
+  } catch (error) {
+    console.error('Error saving transactions:', error);
+  }
+  transactionListeners.forEach(listener => listener());
+};
+
+const findTransaction = (hash: string): StoredTransaction | undefined =>
+  transactions.find(transaction => transaction.hash === hash);
+
+const updateTransaction = (hash: string, changes: Partial<StoredTransaction>): StoredTransaction | undefined => {
+  transactions = transactions.map(transaction =>
+    transaction.hash === hash ? { ...transaction, ...changes } : transaction
+  );
+  saveTransactions();
+  return findTransaction(hash);
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Other transactions sent from the same account with the same nonce
+const findSiblings = (transaction: StoredTransaction): StoredTransaction[] =>
+  transactions.filter(other =>
+    other.hash !== transaction.hash
+    && other.chainId === transaction.chainId
+    && other.nonce === transaction.nonce
+    && other.from.toLowerCase() === transaction.from.toLowerCase()
+  );
+
+// The watch provider, if it is connected to the given chain
+const getProviderOnChain = async (chainId: number): Promise<ethers.providers.Provider | null> => {
+  const provider = watchProvider;
+  if (!provider) {
+    return null;
+  }
+  const network = await provider.getNetwork();
+  return network.chainId === chainId ? provider : null;
+};
+
+const watch = async (hash: string): Promise<StoredTransaction | undefined> => {
+  let missedPolls = 0;
+  let failedPolls = 0;
+
+  for (;;) {
+    const transaction = findTransaction(hash);
+    if (!transaction || isFinished(transaction)) {
+      return transaction;
+    }
+
+    try {
+      // While the wallet is on another chain the transaction can't be checked, so just wait
+      const provider = await getProviderOnChain(transaction.chainId);
+      if (provider) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (receipt) {
+          if (receipt.status === 0) {
+            return updateTransaction(hash, {
+              status: 'failed',
+              confirmations: receipt.confirmations,
+              blockNumber: receipt.blockNumber,
+              blockHash: receipt.blockHash,
+              gasUsed: receipt.gasUsed.toString(),
+              error: 'Transaction reverted'
+            });
+          }
+
+          // Included in a different block than last seen: the old one was reorged away and the transaction mined again
+          const reincluded = transaction.blockHash !== undefined && transaction.blockHash !== receipt.blockHash;
+          const isFinal = receipt.confirmations >= transaction.requiredConfirmations;
+          const updated = updateTransaction(hash, {
+            status: isFinal ? 'final' : 'included',
+            confirmations: receipt.confirmations,
+            blockNumber: receipt.blockNumber,
+            blockHash: receipt.blockHash,
+            reorgs: reincluded ? (transaction.reorgs ?? 0) + 1 : transaction.reorgs,
+            gasUsed: receipt.gasUsed.toString(),
+            error: undefined
+          });
+          if (isFinal) {
+            return updated;
+          }
+          missedPolls = 0;
+        } else if (transaction.status === 'included') {
+          // The receipt is gone, so a reorg removed the block it was in; it may be mined again or dropped
+          updateTransaction(hash, {
+            status: 'submitted',
+            confirmations: 0,
+            blockNumber: undefined,
+            blockHash: undefined,
+            reorgs: (transaction.reorgs ?? 0) + 1,
+            error: 'A chain reorganization removed this transaction from its block; waiting for it to be included again'
+          });
+          continue;
+        } else {
+          const [minedNonce, pending] = await Promise.all([
+            provider.getTransactionCount(transaction.from, 'latest'),
+            provider.getTransaction(hash)
+          ]);
+
+          if (minedNonce > transaction.nonce) {
+            // The nonce is used, so either this transaction was mined since the receipt check, or another replaced it
+            if (await provider.getTransactionReceipt(hash)) {
+              continue;
+            }
+            let replacedBy: string | undefined;
+            for (const sibling of findSiblings(transaction)) {
+              if (await provider.getTransactionReceipt(sibling.hash)) {
+                replacedBy = sibling.hash;
+                break;
+              }
+            }
+            return updateTransaction(hash, { status: 'replaced', replacedBy });
+          }
+
+          missedPolls = pending ? 0 : missedPolls + 1;
+          if (missedPolls >= DROPPED_AFTER_MISSED_POLLS) {
+            return updateTransaction(hash, { status: 'dropped', error: 'Transaction was dropped by the network' });
+          }
+        }
+      }
+      failedPolls = 0;
+    } catch (error) {
+      // Node errors are usually temporary, so keep watching and back off until they clear
+      failedPolls += 1;
+      console.warn(`Error checking transaction ${hash}, retrying:`, error);
+    }
+
+    await delay(Math.min(POLL_INTERVAL_MS * 2 ** failedPolls, MAX_POLL_INTERVAL_MS));
+  }
+};
+
+/**
+ * Watch a transaction until it reaches its network's confirmation depth, fails, or is replaced or dropped
+ * @param hash The transaction hash
+ * @returns The transaction's final state
+ */
+export const watchTransaction = (hash: string): Promise<StoredTransaction | undefined> => {
+  let watcher = watchers.get(hash);
+  if (!watcher) {
+    watcher = watch(hash).finally(() => {
+      watchers.delete(hash);
+    });
+    watchers.set(hash, watcher);
+  }
+  return watcher;
+};
+
+/**
+ * Record a sent transaction and start watching it
+ * @param provider Provider the transaction was sent with; pending transactions are polled with it from now on
+ * @param tx The sent transaction
+ * @param method Contract method the transaction calls
+ * @param replacement Set when the transaction replaces another one
+ * @returns The recorded transaction
+ */
+export const recordTransaction = (
+  provider: ethers.providers.Provider,
+  tx: ethers.providers.TransactionResponse,
+  method: string,
+  replacement?: { kind: ReplacementKind; replaces: string }
+): TransactionStatus => {
+  const transaction: StoredTransaction = {
+    hash: tx.hash,
+    status: 'submitted',
+    method,
+    from: tx.from,
+    nonce: tx.nonce,
+    chainId: tx.chainId,
+    confirmations: 0,
+    requiredConfirmations: getRequiredConfirmations(tx.chainId),
+    timestamp: Date.now(),
+    ...replacement,
+    request: {
+      to: tx.to ?? ethers.constants.AddressZero,
+      data: tx.data,
+      value: tx.value.toString(),
+      gasLimit: tx.gasLimit.toString(),
+      maxFeePerGas: tx.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+      gasPrice: tx.maxFeePerGas ? undefined : tx.gasPrice?.toString()
+    }
+  };
+
+  transactions = [transaction, ...transactions.filter(other => other.hash !== tx.hash)];
+  saveTransactions();
+  watchProvider = provider;
+  watchTransaction(tx.hash).catch(error => {
+    console.error(`Error watching transaction ${tx.hash}:`, error);
+  });
+  return transaction;
+};
+
+/**
+ * Record a transaction that replaced a tracked one without going through replaceTransaction, e.g. a
+ * speed-up sent from the wallet, and start watching it in the replaced transaction's place
+ * @param provider Provider on the transactions' chain
+ * @param replaces The replaced transaction
+ * @param tx The replacement
+ * @param method Contract method the replaced transaction calls
+ * @param kind Whether the replacement resends the call or cancels it
+ * @returns The recorded replacement
+ */
+export const recordReplacement = (
+  provider: ethers.providers.Provider,
+  replaces: string,
+  tx: ethers.providers.TransactionResponse,
+  method: string,
+  kind: ReplacementKind = 'speed-up'
+): TransactionStatus => {
+  if (tx.hash === replaces) {
+    // It wasn't replaced after all, only missed being mined: watch it again if it was given up on
+    const transaction = findTransaction(tx.hash);
+    if (!transaction) {
+      return recordTransaction(provider, tx, method);
+    }
+    if (transaction.status === 'dropped') {
+      watchProvider = provider;
+      updateTransaction(tx.hash, { status: 'submitted', error: undefined });
+      watchTransaction(tx.hash).catch(error => {
+        console.error(`Error watching transaction ${tx.hash}:`, error);
+      });
+    }
+    return findTransaction(tx.hash) ?? transaction;
+  }
+  const replacement = findTransaction(tx.hash) ?? recordTransaction(provider, tx, method, { kind, replaces });
+  if (findTransaction(replaces)) {
+    updateTransaction(replaces, { status: 'replaced', replacedBy: tx.hash });
+  }
+  return replacement;
+};
+
+/**
+ * Poll with a new provider, e.g. after a reload or a network switch, and resume watching the
+ * unfinished transactions of its chain
+ * @param provider Provider on the current chain
+ */
+export const resumePendingTransactions = async (provider: ethers.providers.Provider): Promise<void> => {
+  watchProvider = provider;
+  const { chainId } = await provider.getNetwork();
+  transactions
+    .filter(transaction => !isFinished(transaction) && transaction.chainId === chainId)
+    .forEach(transaction => {
+      watchTransaction(transaction.hash).catch(error => {
+        console.error(`Error watching transaction ${transaction.hash}:`, error);
+      });
+    });
+};
+
+// Raise a fee past the node's replacement threshold, or to the current fee if that is higher
+const bumpFee = (fee: string, currentFee?: ethers.BigNumber | null): ethers.BigNumber => {
+  const bumped = ethers.BigNumber.from(fee).mul(REPLACEMENT_FEE_PERCENT).div(100);
+  return currentFee && currentFee.gt(bumped) ? currentFee : bumped;
+};
+
+/**
+ * Send a same-nonce replacement for a pending transaction: a speed-up resends the same call
+ * with higher fees, a cancel sends nothing to the sender's own address with higher fees
+ * @param signer Signer of the account that sent the pending transaction
+ * @param hash The pending transaction
+ * @param kind Whether to speed up or cancel it
+ * @returns The recorded replacement
+ * @throws {ValidationError} If the transaction isn't pending or was sent from another account
+ */
+export const replaceTransaction = async (
+  signer: ethers.Signer,
+  hash: string,
+  kind: ReplacementKind
+): Promise<TransactionStatus> => {
+  const transaction = findTransaction(hash);
+  // Once included the nonce is used, so a replacement could only land if a reorg drops the transaction
+  if (!transaction || transaction.status !== 'submitted') {
+    throw new ValidationError('Only pending transactions can be sped up or cancelled');
+  }
+  const from = await signer.getAddress();
+  // Relayed transactions are sent, and can only be replaced, by the relayer
+  if (from.toLowerCase() !== transaction.from.toLowerCase()) {
+    throw new ValidationError('This transaction was sent from another account and cannot be replaced');
+  }
+  if (!signer.provider) {
+    throw new ValidationError('The signer is not connected to a provider');
+  }
+
+  const { request } = transaction;
+  const feeData = await signer.getFeeData();
+  const fees = request.maxFeePerGas && request.maxPriorityFeePerGas
+    ? {
+        maxFeePerGas: bumpFee(request.maxFeePerGas, feeData.maxFeePerGas),
+        maxPriorityFeePerGas: bumpFee(request.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas)
+      }
+    : { gasPrice: bumpFee(request.gasPrice ?? '0', feeData.gasPrice) };
+  const call = kind === 'cancel'
+    ? { to: from, data: '0x', value: 0, gasLimit: CANCEL_GAS_LIMIT }
+    : { to: request.to, data: request.data, value: request.value, gasLimit: request.gasLimit };
+
+  const tx = await signer.sendTransaction({ ...call, ...fees, nonce: transaction.nonce });
+  return recordTransaction(signer.provider, tx, transaction.method, { kind, replaces: hash });
+};
+
+/**
+ * Get a recorded transaction
+ * @param hash The transaction hash
+ * @returns The transaction, or null if it isn't recorded
+ */
+export const getTransaction = (hash: string): TransactionStatus | null => findTransaction(hash) ?? null;
+
+/**
+ * Get the transaction that took a recorded transaction's place, following replacements
+ * @param hash The transaction hash
+ * @returns The last known replacement, the transaction itself if it wasn't replaced, or null if it isn't recorded
+ */
+export const getLatestReplacement = (hash: string): TransactionStatus | null => {
+  let transaction = findTransaction(hash);
+  // Bounded, since at most this many transactions are stored
+  for (let hops = 0; transaction?.replacedBy && hops < MAX_STORED_TRANSACTIONS; hops++) {
+    const replacement = findTransaction(transaction.replacedBy);
+    if (!replacement) break;
+    transaction = replacement;
+  }
+  return transaction ?? null;
+};
+
+// Get every recorded transaction, newest first
+export const getTransactions = (): TransactionStatus[] => [...transactions];
+
+// Forget finished transactions; submitted and included ones are kept so they are still watched
+export const clearFinishedTransactions = (): void => {
+  transactions = transactions.filter(transaction => !isFinished(transaction));
+  saveTransactions();
+};
+
+/**
+ * Register a listener called whenever a transaction is recorded or changes state
+ * @param listener Function to call on changes
+ * @returns Function to unregister the listener
+ */
+export const onTransactionsChange = (listener: () => void): (() => void) => {
+  transactionListeners.push(listener);
+  return () => {
+    transactionListeners = transactionListeners.filter(l => l !== listener);
+  };
+};
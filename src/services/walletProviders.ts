@@ -0,0 +1,147 @@
+// EIP-1193 provider, as injected by browser wallets
+export interface EIP1193Provider {
+  isMetaMask?: boolean;
+  request: (request: { method: string; params?: unknown[] | object }) => Promise<unknown>;
+  on: (event: string, callback: (...args: unknown[]) => void) => void;
+  removeListener: (event: string, callback: (...args: unknown[]) => void) => void;
+}
+
+// Wallet metadata announced under EIP-6963
+export interface EIP6963ProviderInfo {
+  // Unique per page load
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's icon
+  icon: string;
+  // Reverse-DNS identifier that stays the same across page loads, e.g. 'io.metamask'
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider;
+  }
+  interface WindowEventMap {
+    'eip6963:announceProvider': CustomEvent<EIP6963ProviderDetail>;
+  }
+}
+
+// Wallets report accounts, from eth_accounts, eth_requestAccounts and accountsChanged alike, as an array of addresses
+export const toAccounts = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((account): account is string => typeof account === 'string') : [];
+
+// Wallets report the chain ID, from eth_chainId and chainChanged alike, as a hex string
+export const toChainId = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+// The chosen wallet's rdns is kept so the same wallet is used after a reload
+const SELECTED_WALLET_KEY = 'educred.wallet';
+
+// Stands in for a wallet that only injects window.ethereum and doesn't announce itself
+const LEGACY_WALLET_RDNS = 'injected';
+
+const announcedProviders = new Map<string, EIP6963ProviderDetail>();
+let providerListeners: Array<() => void> = [];
+let isListening = false;
+
+const notifyProvidersChange = () => {
+  providerListeners.forEach(listener => listener());
+};
+
+const handleAnnounceProvider = (event: CustomEvent<EIP6963ProviderDetail>) => {
+  const { info, provider } = event.detail;
+  // Wallets announce again whenever a dapp asks; keep the first announcement of each
+  if (announcedProviders.has(info.rdns)) {
+    return;
+  }
+  announcedProviders.set(info.rdns, Object.freeze({ info, provider }));
+  notifyProvidersChange();
+};
+
+// Ask installed wallets to announce themselves; those loaded later announce on their own
+const startDiscovery = () => {
+  if (isListening || typeof window === 'undefined') {
+    return;
+  }
+  isListening = true;
+  window.addEventListener('eip6963:announceProvider', handleAnnounceProvider);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+};
+
+const getLegacyProvider = (): EIP6963ProviderDetail | null => {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    return null;
+  }
+  return {
+    info: {
+      uuid: LEGACY_WALLET_RDNS,
+      name: window.ethereum.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+      icon: '',
+      rdns: LEGACY_WALLET_RDNS
+    },
+    provider: window.ethereum
+  };
+};
+
+/**
+ * Get the installed wallets. Wallets announced under EIP-6963 are listed by name; the global
+ * window.ethereum is only offered when no wallet announced itself, since it is one of them.
+ * @returns The wallets, in the order they announced themselves
+ */
+export const getWalletProviders = (): EIP6963ProviderDetail[] => {
+  startDiscovery();
+  if (announcedProviders.size > 0) {
+    return [...announcedProviders.values()];
+  }
+  const legacy = getLegacyProvider();
+  return legacy ? [legacy] : [];
+};
+
+/**
+ * Register a listener called whenever a wallet announces itself or the chosen wallet changes
+ * @param listener Function to call on changes
+ * @returns Function to unregister the listener
+ */
+export const onWalletProvidersChange = (listener: () => void): (() => void) => {
+  startDiscovery();
+  providerListeners.push(listener);
+  return () => {
+    providerListeners = providerListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * Get the wallet the user chose, if it is installed and has announced itself
+ * @returns The wallet, or null if none was chosen or it isn't available yet
+ */
+export const getSelectedWalletProvider = (): EIP6963ProviderDetail | null => {
+  let rdns: string | null = null;
+  try {
+    rdns = localStorage.getItem(SELECTED_WALLET_KEY);
+  } catch {
+    // Local storage is unavailable; no wallet is remembered
+  }
+  return rdns ? getWalletProviders().find(detail => detail.info.rdns === rdns) ?? null : null;
+};
+
+// Remember the wallet to route requests through
+export const selectWalletProvider = (detail: EIP6963ProviderDetail): void => {
+  localStorage.setItem(SELECTED_WALLET_KEY, detail.info.rdns);
+  notifyProvidersChange();
+};
+
+// Forget the chosen wallet, e.g. on disconnect
+export const clearSelectedWalletProvider = (): void => {
+  localStorage.removeItem(SELECTED_WALLET_KEY);
+  notifyProvidersChange();
+};
+
+/**
+ * Get the EIP-1193 provider of the chosen wallet; every wallet request goes through it
+ * @returns The provider, or null if no wallet was chosen
+ */
+export const getEthereumProvider = (): EIP1193Provider | null => getSelectedWalletProvider()?.provider ?? null;
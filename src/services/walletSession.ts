@@ -0,0 +1,296 @@
+import { ethers } from 'ethers';
+import { AppError, ContractError, ValidationError, toAppError } from '../utils/errors';
+import { EduCredToken, connectEduCredToken } from '../contracts/EduCredToken';
+import {
+  NetworkConfig,
+  getContractAddress,
+  getNetworkByChainId,
+  getSelectedNetwork,
+  getSupportedNetwork,
+  setSelectedNetwork,
+  toHexChainId
+} from '../utils/networks';
+import { resumePendingTransactions } from './transactionManager';
+import {
+  EIP1193Provider,
+  EIP6963ProviderDetail,
+  getEthereumProvider,
+  selectWalletProvider,
+  clearSelectedWalletProvider,
+  toAccounts
+} from './walletProviders';
+
+export type WalletStatus = 'disconnected' | 'restoring' | 'connecting' | 'connected';
+
+// Everything known about the connected wallet; replaced as a whole on every change
+export interface WalletSession {
+  status: WalletStatus;
+  // The chosen wallet's EIP-1193 provider
+  ethereum: EIP1193Provider | null;
+  provider: ethers.providers.Web3Provider | null;
+  signer: ethers.Signer | null;
+  account: string | null;
+  chainId: number | null;
+  // The registry entry for the wallet's chain, or null if the chain is unsupported
+  network: NetworkConfig | null;
+  // The network reads go to: the wallet's when it is supported, otherwise the one picked in the network switcher
+  readNetwork: NetworkConfig;
+  // Signer client for writes; null until connected to a supported network the contract is deployed on
+  contract: EduCredToken | null;
+  // Why the signer client couldn't be set up, e.g. an unsupported network
+  contractError: AppError | null;
+}
+
+const createDisconnectedSession = (): WalletSession => ({
+  status: 'disconnected',
+  ethereum: null,
+  provider: null,
+  signer: null,
+  account: null,
+  chainId: null,
+  network: null,
+  readNetwork: getSelectedNetwork(),
+  contract: null,
+  contractError: null
+});
+
+let session: WalletSession = createDisconnectedSession();
+let sessionListeners: Array<() => void> = [];
+
+// The provider whose accountsChanged and chainChanged events are handled
+let watchedProvider: EIP1193Provider | null = null;
+
+// Bumped on every change of wallet, account or chain, so slower lookups for an older one are dropped
+let sessionGeneration = 0;
+
+const setSession = (next: WalletSession) => {
+  session = next;
+  sessionListeners.forEach(listener => listener());
+};
+
+const resetSession = () => {
+  sessionGeneration += 1;
+  setSession(createDisconnectedSession());
+};
+
+// Set up the provider, signer and contract for an account on the wallet's current chain
+const buildSession = async (ethereum: EIP1193Provider, account: string): Promise<WalletSession> => {
+  // A new provider per chain: ethers caches the network and fails once the wallet switches
+  const provider = new ethers.providers.Web3Provider(ethereum);
+  const signer = provider.getSigner();
+  const { chainId } = await provider.getNetwork();
+  const network = getNetworkByChainId(chainId);
+
+  let contract: EduCredToken | null = null;
+  let contractError: AppError | null = null;
+  try {
+    contract = connectEduCredToken(getContractAddress(getSupportedNetwork(chainId)), signer);
+    // Pick up transactions that were still pending before a reload or network switch
+    resumePendingTransactions(provider).catch(error => {
+      console.error('Error resuming pending transactions:', error);
+    });
+  } catch (error) {
+    contractError = toAppError(error, 'Failed to initialize contract');
+  }
+
+  return {
+    status: 'connected',
+    ethereum,
+    provider,
+    signer,
+    account: account.toLowerCase(),
+    chainId,
+    network,
+    readNetwork: network ?? getSelectedNetwork(),
+    contract,
+    contractError
+  };
+};
+
+// Rebuild the session in place after the wallet switched account or chain
+const refreshSession = async (ethereum: EIP1193Provider, account: string) => {
+  const generation = ++sessionGeneration;
+  try {
+    const next = await buildSession(ethereum, account);
+    if (generation !== sessionGeneration) return;
+    if (next.network) {
+      // Reads follow the wallet, and so does the network restored after a reload
+      setSelectedNetwork(next.network.key);
+    }
+    setSession(next);
+  } catch (error) {
+    console.error('Error updating wallet session:', error);
+    if (generation === sessionGeneration) {
+      setSession({ ...session, contract: null, contractError: toAppError(error, 'Failed to initialize contract') });
+    }
+  }
+};
+
+const handleAccountsChanged = async (value: unknown) => {
+  if (!watchedProvider) return;
+  const accounts = toAccounts(value);
+  if (accounts.length === 0) {
+    // The wallet locked or disconnected this site; it stays watched so reconnecting from it is picked up
+    resetSession();
+    return;
+  }
+  await refreshSession(watchedProvider, accounts[0]);
+};
+
+const handleChainChanged = async () => {
+  if (watchedProvider && session.account) {
+    await refreshSession(watchedProvider, session.account);
+  }
+};
+
+const watchProvider = (ethereum: EIP1193Provider | null) => {
+  if (watchedProvider === ethereum) return;
+  watchedProvider?.removeListener('accountsChanged', handleAccountsChanged);
+  watchedProvider?.removeListener('chainChanged', handleChainChanged);
+  watchedProvider = ethereum;
+  watchedProvider?.on('accountsChanged', handleAccountsChanged);
+  watchedProvider?.on('chainChanged', handleChainChanged);
+};
+
+/**
+ * Get the current wallet session. The same object is returned until something changes.
+ * @returns The session
+ */
+export const getWalletSession = (): WalletSession => session;
+
+/**
+ * Register a listener called whenever the wallet, account, chain or contract changes
+ * @param listener Function to call on changes
+ * @returns Function to unregister the listener
+ */
+export const onWalletSessionChange = (listener: () => void): (() => void) => {
+  sessionListeners.push(listener);
+  return () => {
+    sessionListeners = sessionListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * Restore the remembered wallet's connection after a reload, without prompting the user
+ * @returns The session, disconnected if the wallet no longer shares an account with this site
+ */
+export const restoreWallet = async (): Promise<WalletSession> => {
+  const ethereum = getEthereumProvider();
+  if (!ethereum || (ethereum === session.ethereum && session.status !== 'disconnected')) {
+    return session;
+  }
+
+  const generation = ++sessionGeneration;
+  setSession({ ...createDisconnectedSession(), status: 'restoring', ethereum });
+  watchProvider(ethereum);
+  try {
+    const accounts = toAccounts(await ethereum.request({ method: 'eth_accounts' }));
+    if (generation !== sessionGeneration) return session;
+    if (accounts.length === 0) {
+      setSession(createDisconnectedSession());
+      return session;
+    }
+    const next = await buildSession(ethereum, accounts[0]);
+    if (generation === sessionGeneration) setSession(next);
+  } catch (error) {
+    console.error('Error restoring wallet connection:', error);
+    if (generation === sessionGeneration) setSession(createDisconnectedSession());
+  }
+  return session;
+};
+
+/**
+ * Connect a wallet, asking the user for account access if needed. A wallet on an unsupported
+ * chain still connects; its session has no contract and says why in contractError.
+ * @param wallet The wallet to connect, remembered once it connects; defaults to the remembered one
+ * @returns The connected session
+ * @throws {ValidationError} If no wallet is selected or it shares no account
+ * @throws {ContractError} If the user rejects the request
+ */
+export const connectWallet = async (wallet?: EIP6963ProviderDetail): Promise<WalletSession> => {
+  // Requests go to the wallet the user picked, not whichever extension claimed window.ethereum
+  const ethereum = wallet?.provider ?? getEthereumProvider();
+  if (!ethereum) {
+    resetSession();
+    throw new ValidationError('No wallet selected. Please connect a wallet to continue.');
+  }
+
+  const generation = ++sessionGeneration;
+  setSession({ ...session, status: 'connecting' });
+  try {
+    const accounts = toAccounts(await ethereum.request({ method: 'eth_requestAccounts' }));
+    if (accounts.length === 0) {
+      throw new ValidationError('No accounts found. Please connect your wallet.');
+    }
+
+    const next = await buildSession(ethereum, accounts[0]);
+    // Remember the wallet only once it has connected, so a rejected request leaves the previous choice
+    if (wallet) {
+      selectWalletProvider(wallet);
+    }
+    watchProvider(ethereum);
+    if (generation === sessionGeneration) setSession(next);
+    return next;
+  } catch (error) {
+    if (generation === sessionGeneration) resetSession();
+    const code = (error as { code?: number }).code;
+    if (code === 4001) {
+      // User rejected the request
+      throw new ContractError('User denied account access', 'connectWallet');
+    } else if (code === -32002) {
+      // Request already pending
+      throw new ContractError('Request already pending. Please check your wallet.', 'connectWallet');
+    } else if (code === -32603) {
+      throw new ContractError('Internal JSON-RPC error', 'connectWallet', error);
+    }
+    throw toAppError(error, 'Failed to connect wallet');
+  }
+};
+
+// Forget the wallet: the next connection asks which wallet to use again
+export const disconnectWallet = (): void => {
+  watchProvider(null);
+  clearSelectedWalletProvider();
+  resetSession();
+};
+
+/**
+ * Switch to a network. Without a wallet only reads move; with one, the wallet is asked to switch
+ * (adding the network if it doesn't know it) and the session follows through chainChanged.
+ * @param network The network to switch to
+ */
+export const switchNetwork = async (network: NetworkConfig): Promise<void> => {
+  setSelectedNetwork(network.key);
+  const { ethereum } = session;
+  if (!ethereum) {
+    setSession({ ...session, readNetwork: network });
+    return;
+  }
+
+  const chainId = toHexChainId(network.chainId);
+  try {
+    await ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+  } catch (switchError) {
+    if ((switchError as { code?: number }).code !== 4902) {
+      console.error(`Error switching to ${network.name}:`, switchError);
+      throw switchError;
+    }
+    try {
+      await ethereum.request({
+        method: 'wallet_addEthereumChain',
+        params: [
+          {
+            chainId,
+            chainName: network.name,
+            nativeCurrency: network.nativeCurrency,
+            rpcUrls: network.rpcUrls,
+            blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+          },
+        ],
+      });
+    } catch (addError) {
+      console.error(`Error adding ${network.name} network:`, addError);
+      throw addError;
+    }
+  }
+};
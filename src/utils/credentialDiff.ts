@@ -0,0 +1,49 @@
+// Fields of a credential that an amendment can change
+export interface AmendableCredentialFields {
+  title: string;
+  description: string;
+  issuer: string;
+  ipfsHash: string;
+  expiresAt: Date | null;
+}
+
+export interface CredentialFieldChange {
+  field: keyof AmendableCredentialFields;
+  label: string;
+  before: string;
+  after: string;
+}
+
+const fieldLabels: Record<keyof AmendableCredentialFields, string> = {
+  title: 'Title',
+  description: 'Description',
+  issuer: 'Issuer',
+  ipfsHash: 'Document',
+  expiresAt: 'Expiry Date',
+};
+
+const formatField = (value: string | Date | null): string => {
+  if (value instanceof Date) {
+    return value.toLocaleDateString();
+  }
+  return value ?? 'Never';
+};
+
+/**
+ * List the fields that changed between two versions of a credential
+ * @param previous The earlier version
+ * @param next The version that superseded it
+ * @returns One entry per changed field, with display values before and after
+ */
+export const diffCredentialVersions = (
+  previous: AmendableCredentialFields,
+  next: AmendableCredentialFields
+): CredentialFieldChange[] =>
+  (Object.keys(fieldLabels) as Array<keyof AmendableCredentialFields>)
+    .filter(field => formatField(previous[field]) !== formatField(next[field]))
+    .map(field => ({
+      field,
+      label: fieldLabels[field],
+      before: formatField(previous[field]),
+      after: formatField(next[field]),
+    }));
@@ -0,0 +1,66 @@
+import manifest from '../contracts/deployments.json';
+import { ValidationError } from './errors';
+import { NETWORKS } from './networks';
+
+// Must match MANIFEST_VERSION in contracts/scripts/deploy.js
+const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+// An EduCredToken deployment, as recorded by contracts/scripts/deploy.js
+export interface Deployment {
+  chainId: number;
+  // Hardhat network name the deployment was made with, e.g. 'amoy'
+  network: string;
+  address: string;
+  forwarderAddress: string;
+  deploymentBlock: number;
+  // Hash of the ABI the contract was compiled with, see contracts/scripts/abi-hash.js
+  abiHash: string;
+  deployer: string;
+  deployedAt: string;
+}
+
+const deployments: Record<string, Deployment> = manifest.deployments;
+
+/**
+ * Get the deployment recorded for a chain
+ * @param chainId The chain ID
+ * @returns The deployment, or null if the deploy script hasn't recorded one for the chain
+ * @throws {ValidationError} If the manifest was written by an incompatible deploy script
+ */
+export const getDeployment = (chainId: number): Deployment | null => {
+  if (manifest.version !== DEPLOYMENT_MANIFEST_VERSION) {
+    throw new ValidationError(
+      `Deployment manifest version ${manifest.version} is not supported; expected version ${DEPLOYMENT_MANIFEST_VERSION}.`
+    );
+  }
+  return deployments[chainId.toString()] ?? null;
+};
+
+/**
+ * Get the block a contract was deployed at, so log scans don't start from genesis
+ * @param chainId The chain the contract is on
+ * @param address The contract's address
+ * @returns The block recorded in the manifest, or VITE_DEPLOYMENT_BLOCK for contracts deployed without the deploy script
+ * @throws {ValidationError} If neither records it outside a local Hardhat node, whose chain starts at block 0
+ */
+export const getDeploymentBlock = (chainId: number, address: string): number => {
+  const deployment = getDeployment(chainId);
+  if (deployment && deployment.address.toLowerCase() === address.toLowerCase()) {
+    return deployment.deploymentBlock;
+  }
+
+  const value = import.meta.env.VITE_DEPLOYMENT_BLOCK?.trim();
+  if (!value) {
+    if (chainId === NETWORKS.hardhat.chainId) {
+      return 0;
+    }
+    throw new ValidationError(
+      'Deployment block is not configured. Deploy the contract with contracts/scripts/deploy.js or set VITE_DEPLOYMENT_BLOCK in your .env file to the block the contract was deployed at.'
+    );
+  }
+  const block = Number(value);
+  if (!Number.isInteger(block) || block < 0) {
+    throw new ValidationError('VITE_DEPLOYMENT_BLOCK must be a block number.');
+  }
+  return block;
+};
@@ -1,3 +1,5 @@
+import type { EduCredTokenRevert } from '../contracts/EduCredToken';
+
 // Extend the Error interface to include captureStackTrace
 declare interface ErrorConstructor {
   captureStackTrace(targetObject: object, constructorOpt?: Function): void;
@@ -63,6 +65,36 @@ export class ServiceUnavailableError extends AppError {
   }
 }
 
+// Custom error class for contract-related errors; revert holds the decoded custom error, if any
+export class ContractError extends AppError {
+  constructor(
+    message: string,
+    public readonly method?: string,
+    details?: unknown,
+    public readonly revert?: EduCredTokenRevert
+  ) {
+    super(
+      `Contract operation failed${method ? ` (${method})` : ''}: ${message}`,
+      'CONTRACT_ERROR',
+      500,
+      details
+    );
+  }
+}
+
+// Contract errors decoded from a custom error revert
+export class CredentialNotFoundError extends ContractError {}
+
+export class CredentialStatusError extends ContractError {}
+
+export class CredentialRevokedError extends CredentialStatusError {}
+
+export class DocumentAlreadyRegisteredError extends ContractError {}
+
+export class NotIssuerError extends ContractError {}
+
+export class NotAdminError extends ContractError {}
+
 // Type guard for AppError
 export function isAppError(error: unknown): error is AppError {
   return error instanceof Error && 'code' in error && 'statusCode' in error;
@@ -0,0 +1,34 @@
+export type ExpiryStatus = 'active' | 'expiring' | 'expired';
+
+// Credentials expiring within this many days are flagged as expiring soon
+export const EXPIRING_SOON_DAYS = 30;
+
+export const expiryStatusLabels: Record<ExpiryStatus, string> = {
+  active: 'Active',
+  expiring: 'Expiring soon',
+  expired: 'Expired',
+};
+
+/**
+ * Classify a credential by its expiry date
+ * @param expiresAt Expiry date, or null/undefined if the credential never expires
+ * @param now Reference time, defaults to the current time
+ * @returns The expiry status of the credential
+ */
+export const getExpiryStatus = (
+  expiresAt?: Date | string | null,
+  now: Date = new Date()
+): ExpiryStatus => {
+  if (!expiresAt) {
+    return 'active';
+  }
+
+  const expiry = new Date(expiresAt).getTime();
+  if (expiry <= now.getTime()) {
+    return 'expired';
+  }
+  if (expiry - now.getTime() <= EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000) {
+    return 'expiring';
+  }
+  return 'active';
+};
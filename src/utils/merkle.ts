@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { ValidationError } from './errors';
+
+// Version of the proof file format handed to credential holders
+export const MERKLE_PROOF_FILE_VERSION = 1;
+
+// A credential issued off-chain under an anchored Merkle root
+export interface MerkleCredentialRecord {
+  holder: string;
+  title: string;
+  description: string;
+  issuer: string;
+  ipfsHash: string;
+  issueDate: number;
+}
+
+// Everything a holder needs to prove their credential against the anchored root
+export interface MerkleProofFile {
+  version: number;
+  root: string;
+  proof: string[];
+  credential: MerkleCredentialRecord;
+}
+
+export interface MerkleTree {
+  root: string;
+  leaves: string[];
+  proofFiles: MerkleProofFile[];
+}
+
+// ABI types of the fields that make up a leaf, in order
+const LEAF_TYPES = ['address', 'string', 'string', 'string', 'string', 'uint256'];
+
+/**
+ * Hash a credential record into a Merkle leaf. Leaves are double-hashed and pairs are
+ * sorted before hashing, matching OpenZeppelin's StandardMerkleTree and MerkleProof.
+ * @param record The credential record
+ * @returns The leaf as a 0x-prefixed bytes32 hex string
+ */
+export const hashCredentialRecord = (record: MerkleCredentialRecord): string =>
+  ethers.utils.keccak256(
+    ethers.utils.keccak256(
+      ethers.utils.defaultAbiCoder.encode(LEAF_TYPES, [
+        record.holder,
+        record.title,
+        record.description,
+        record.issuer,
+        record.ipfsHash,
+        record.issueDate,
+      ])
+    )
+  );
+
+const hashPair = (a: string, b: string): string =>
+  ethers.utils.keccak256(ethers.utils.concat(a < b ? [a, b] : [b, a]));
+
+/**
+ * Build a Merkle tree over a cohort of credential records. An unpaired node at the end
+ * of a level is promoted to the next level unchanged.
+ * @param records Credential records, one per holder
+ * @returns The root, the leaves and one proof file per record, in input order
+ * @throws {ValidationError} If there are no records or two records are identical
+ */
+export const buildMerkleTree = (records: MerkleCredentialRecord[]): MerkleTree => {
+  if (records.length === 0) {
+    throw new ValidationError('At least one credential is required to build a Merkle tree');
+  }
+
+  const leaves = records.map(hashCredentialRecord);
+  if (new Set(leaves).size !== leaves.length) {
+    throw new ValidationError('Two credentials in the batch are identical');
+  }
+
+  const levels: string[][] = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  const root = levels[levels.length - 1][0];
+
+  const proofFiles = records.map((credential, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const level of levels.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling < level.length) {
+        proof.push(level[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return { version: MERKLE_PROOF_FILE_VERSION, root, proof, credential };
+  });
+
+  return { root, leaves, proofFiles };
+};
+
+/**
+ * Compute the root implied by a leaf and its proof
+ * @param leaf The leaf hash
+ * @param proof Sibling hashes from the leaf up to the root
+ * @returns The computed root
+ */
+export const processMerkleProof = (leaf: string, proof: string[]): string =>
+  proof.reduce((node, sibling) => hashPair(node, sibling.toLowerCase()), leaf.toLowerCase());
+
+const isBytes32 = (value: unknown): value is string =>
+  typeof value === 'string' && ethers.utils.isHexString(value, 32);
+
+/**
+ * Parse and validate the contents of a proof file
+ * @param text Raw JSON content of the file
+ * @returns The parsed proof file
+ * @throws {ValidationError} If the file is not a valid proof file
+ */
+export const parseMerkleProofFile = (text: string): MerkleProofFile => {
+  let data: Partial<MerkleProofFile>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ValidationError('Proof file is not valid JSON');
+  }
+
+  if (data?.version !== MERKLE_PROOF_FILE_VERSION) {
+    throw new ValidationError('Unsupported proof file version');
+  }
+  if (!isBytes32(data.root) || !Array.isArray(data.proof) || !data.proof.every(isBytes32)) {
+    throw new ValidationError('Proof file has an invalid root or proof');
+  }
+
+  const credential = data.credential;
+  const isValidRecord = !!credential
+    && typeof credential.holder === 'string' && ethers.utils.isAddress(credential.holder)
+    && (['title', 'description', 'issuer', 'ipfsHash'] as const).every(field => typeof credential[field] === 'string')
+    && Number.isInteger(credential.issueDate) && credential.issueDate >= 0;
+  if (!credential || !isValidRecord) {
+    throw new ValidationError('Proof file has an invalid credential record');
+  }
+
+  return {
+    version: data.version,
+    root: data.root.toLowerCase(),
+    proof: data.proof.map(sibling => sibling.toLowerCase()),
+    credential: {
+      holder: credential.holder,
+      title: credential.title,
+      description: credential.description,
+      issuer: credential.issuer,
+      ipfsHash: credential.ipfsHash,
+      issueDate: credential.issueDate,
+    },
+  };
+};
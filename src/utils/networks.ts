@@ -0,0 +1,174 @@
+import { EDU_CRED_TOKEN_ABI_HASH } from '../contracts/EduCredToken';
+import { getDeployment } from './deployments';
+import { ValidationError } from './errors';
+
+export type NetworkKey = 'amoy' | 'polygon' | 'hardhat';
+
+export interface NetworkConfig {
+  key: NetworkKey;
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  // Block explorer base URL; local chains have none
+  explorerUrl: string | null;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  // EduCredToken deployment on this network, if any
+  contractAddress: string | null;
+  isTestnet: boolean;
+  // Blocks on top of a transaction's block before it is treated as final and safe from reorgs
+  confirmations: number;
+}
+
+const readEnv = (value: string | undefined): string | null => value?.trim() || null;
+
+// The network used before a wallet is connected or another network is picked
+const getDefaultNetworkKey = (): NetworkKey => {
+  const key = readEnv(import.meta.env.VITE_DEFAULT_NETWORK);
+  return key === 'polygon' || key === 'hardhat' ? key : 'amoy';
+};
+
+// VITE_CONTRACT_ADDRESS and VITE_RPC_URL still configure the default network
+const withLegacyEnv = (network: NetworkConfig): NetworkConfig => {
+  if (network.key !== getDefaultNetworkKey()) {
+    return network;
+  }
+  const legacyRpcUrl = readEnv(import.meta.env.VITE_RPC_URL);
+  return {
+    ...network,
+    rpcUrls: legacyRpcUrl ? [legacyRpcUrl, ...network.rpcUrls] : network.rpcUrls,
+    contractAddress: network.contractAddress ?? readEnv(import.meta.env.VITE_CONTRACT_ADDRESS)
+  };
+};
+
+// VITE_{NETWORK}_CONFIRMATIONS overrides a network's default confirmation depth
+const withEnvConfirmations = (envValue: string | undefined, defaultConfirmations: number): number => {
+  const confirmations = Number(readEnv(envValue));
+  return Number.isInteger(confirmations) && confirmations > 0 ? confirmations : defaultConfirmations;
+};
+
+const withEnvRpcUrl = (envValue: string | undefined, publicRpcUrl: string): string[] => {
+  const rpcUrl = readEnv(envValue);
+  return rpcUrl ? [rpcUrl, publicRpcUrl] : [publicRpcUrl];
+};
+
+export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
+  amoy: withLegacyEnv({
+    key: 'amoy',
+    chainId: 80002,
+    name: 'Polygon Amoy',
+    rpcUrls: withEnvRpcUrl(import.meta.env.VITE_AMOY_RPC_URL, 'https://rpc-amoy.polygon.technology'),
+    explorerUrl: 'https://amoy.polygonscan.com',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    contractAddress: readEnv(import.meta.env.VITE_AMOY_CONTRACT_ADDRESS),
+    isTestnet: true,
+    confirmations: withEnvConfirmations(import.meta.env.VITE_AMOY_CONFIRMATIONS, 12)
+  }),
+  polygon: withLegacyEnv({
+    key: 'polygon',
+    chainId: 137,
+    name: 'Polygon',
+    rpcUrls: withEnvRpcUrl(import.meta.env.VITE_POLYGON_RPC_URL, 'https://polygon-rpc.com'),
+    explorerUrl: 'https://polygonscan.com',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    contractAddress: readEnv(import.meta.env.VITE_POLYGON_CONTRACT_ADDRESS),
+    isTestnet: false,
+    confirmations: withEnvConfirmations(import.meta.env.VITE_POLYGON_CONFIRMATIONS, 64)
+  }),
+  hardhat: withLegacyEnv({
+    key: 'hardhat',
+    chainId: 31337,
+    name: 'Hardhat (local)',
+    rpcUrls: withEnvRpcUrl(import.meta.env.VITE_HARDHAT_RPC_URL, 'http://127.0.0.1:8545'),
+    explorerUrl: null,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    contractAddress: readEnv(import.meta.env.VITE_HARDHAT_CONTRACT_ADDRESS),
+    isTestnet: true,
+    confirmations: withEnvConfirmations(import.meta.env.VITE_HARDHAT_CONFIRMATIONS, 1)
+  })
+};
+
+export const SUPPORTED_NETWORKS = Object.values(NETWORKS);
+
+// The network picked in the network switcher is kept across reloads
+const SELECTED_NETWORK_KEY = 'educred.network';
+
+/**
+ * Find a supported network by chain ID
+ * @param chainId Chain ID as a number or a hex string, as wallets report it
+ * @returns The network, or null if it isn't supported
+ */
+export const getNetworkByChainId = (chainId: number | string | null | undefined): NetworkConfig | null => {
+  if (chainId === null || chainId === undefined) {
+    return null;
+  }
+  const id = typeof chainId === 'string' ? parseInt(chainId, chainId.startsWith('0x') ? 16 : 10) : chainId;
+  return SUPPORTED_NETWORKS.find(network => network.chainId === id) ?? null;
+};
+
+// Get the network picked in the network switcher, or the default network
+export const getSelectedNetwork = (): NetworkConfig => {
+  try {
+    const key = localStorage.getItem(SELECTED_NETWORK_KEY);
+    if (key && key in NETWORKS) {
+      return NETWORKS[key as NetworkKey];
+    }
+  } catch {
+    // Local storage is unavailable; use the default network
+  }
+  return NETWORKS[getDefaultNetworkKey()];
+};
+
+export const setSelectedNetwork = (key: NetworkKey): void => {
+  localStorage.setItem(SELECTED_NETWORK_KEY, key);
+};
+
+// EduCredToken's address on a network, from the deployment manifest or else the network registry
+export const getContractAddress = (network: NetworkConfig): string => {
+  const deployment = getDeployment(network.chainId);
+  if (deployment) {
+    // Calls encoded with a stale ABI could revert or be decoded wrongly, so refuse to use the contract at all
+    if (deployment.abiHash !== EDU_CRED_TOKEN_ABI_HASH) {
+      throw new ValidationError(
+        `The EduCredToken deployed on ${network.name} at ${deployment.address} was built from a different ABI than this app. ` +
+        'Regenerate the client with `npm run generate:client` or redeploy the contract.'
+      );
+    }
+    return deployment.address;
+  }
+  if (!network.contractAddress) {
+    throw new ValidationError(
+      `EduCredToken is not deployed on ${network.name}. Deploy it with contracts/scripts/deploy.js or set VITE_${network.key.toUpperCase()}_CONTRACT_ADDRESS in your .env file.`
+    );
+  }
+  return network.contractAddress;
+};
+
+// The registry entry for a chain the wallet is on
+export const getSupportedNetwork = (chainId: number): NetworkConfig => {
+  const network = getNetworkByChainId(chainId);
+  if (!network) {
+    const names = SUPPORTED_NETWORKS.map(supported => supported.name).join(', ');
+    throw new ValidationError(`Unsupported network (chain ID ${chainId}). Please switch to one of: ${names}.`);
+  }
+  return network;
+};
+
+// Chain ID as the hex string wallets expect, e.g. '0x13882'
+export const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+/**
+ * Build a block explorer link
+ * @param network The network the transaction or address is on
+ * @param type Whether the value is a transaction hash or an address
+ * @param value The transaction hash or address
+ * @returns The link, or null on networks without an explorer
+ */
+export const getExplorerUrl = (
+  network: NetworkConfig | null,
+  type: 'tx' | 'address',
+  value: string
+): string | null => (network?.explorerUrl ? `${network.explorerUrl}/${type}/${value}` : null);
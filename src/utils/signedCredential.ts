@@ -0,0 +1,104 @@
+import { ethers } from 'ethers';
+import { ValidationError } from './errors';
+
+// Version of the signed credential file format handed to holders
+export const SIGNED_CREDENTIAL_VERSION = 1;
+
+// EIP-712 domain name and version; chainId and verifyingContract are filled in at signing time
+export const SIGNED_CREDENTIAL_DOMAIN_NAME = 'EduCred Chain';
+export const SIGNED_CREDENTIAL_DOMAIN_VERSION = '1';
+
+// EIP-712 type of the signed payload
+export const SIGNED_CREDENTIAL_TYPES = {
+  Credential: [
+    { name: 'holder', type: 'address' },
+    { name: 'title', type: 'string' },
+    { name: 'issuer', type: 'string' },
+    { name: 'ipfsHash', type: 'string' },
+    { name: 'issueDate', type: 'uint256' },
+  ],
+};
+
+// A credential issued off-chain by an issuer's signature instead of a transaction
+export interface OffChainCredential {
+  holder: string;
+  title: string;
+  issuer: string;
+  ipfsHash: string;
+  issueDate: number;
+}
+
+export interface SignedCredentialDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+// Everything a holder stores to prove an off-chain credential
+export interface SignedCredential {
+  version: number;
+  domain: SignedCredentialDomain;
+  credential: OffChainCredential;
+  signature: string;
+}
+
+/**
+ * Parse and validate the contents of a signed credential file. Only the shape is checked;
+ * use verifySignedCredential to check the signature and the signer.
+ * @param text Raw JSON content of the file
+ * @returns The parsed signed credential
+ * @throws {ValidationError} If the file is not a valid signed credential
+ */
+export const parseSignedCredential = (text: string): SignedCredential => {
+  let data: Partial<SignedCredential>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ValidationError('Credential file is not valid JSON');
+  }
+
+  if (data?.version !== SIGNED_CREDENTIAL_VERSION) {
+    throw new ValidationError('Unsupported credential file version');
+  }
+
+  const { domain, credential, signature } = data;
+  const isValidDomain = !!domain
+    && domain.name === SIGNED_CREDENTIAL_DOMAIN_NAME
+    && domain.version === SIGNED_CREDENTIAL_DOMAIN_VERSION
+    && Number.isInteger(domain.chainId)
+    && typeof domain.verifyingContract === 'string' && ethers.utils.isAddress(domain.verifyingContract);
+  if (!domain || !isValidDomain) {
+    throw new ValidationError('Credential file has an invalid signing domain');
+  }
+
+  const isValidCredential = !!credential
+    && typeof credential.holder === 'string' && ethers.utils.isAddress(credential.holder)
+    && (['title', 'issuer', 'ipfsHash'] as const).every(field => typeof credential[field] === 'string')
+    && Number.isInteger(credential.issueDate) && credential.issueDate >= 0;
+  if (!credential || !isValidCredential) {
+    throw new ValidationError('Credential file has an invalid credential record');
+  }
+
+  if (typeof signature !== 'string' || !ethers.utils.isHexString(signature, 65)) {
+    throw new ValidationError('Credential file has an invalid signature');
+  }
+
+  return {
+    version: data.version,
+    domain: {
+      name: domain.name,
+      version: domain.version,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    credential: {
+      holder: credential.holder,
+      title: credential.title,
+      issuer: credential.issuer,
+      ipfsHash: credential.ipfsHash,
+      issueDate: credential.issueDate,
+    },
+    signature,
+  };
+};
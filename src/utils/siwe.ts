@@ -0,0 +1,154 @@
+import { ethers } from 'ethers';
+import { ValidationError } from './errors';
+
+// EIP-4361 (Sign-In with Ethereum) message version
+export const SIWE_VERSION = '1';
+
+// The fields of a Sign-In with Ethereum message; resources are not used by this app
+export interface SiweMessage {
+  // Host of the site asking for the sign-in, e.g. 'educred.app'
+  domain: string;
+  // EIP-55 checksummed
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  // ISO 8601 timestamps
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// Optional fields after "Issued At", in the order EIP-4361 requires
+const OPTIONAL_FIELDS = [
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+] as const;
+
+/**
+ * Generate a sign-in nonce: at least 8 alphanumeric characters, as EIP-4361 requires
+ * @returns A random 16-character nonce
+ */
+export const generateNonce = (): string => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+};
+
+/**
+ * Render a message in the EIP-4361 text format wallets display and sign
+ * @param message The message fields
+ * @returns The text to sign
+ */
+export const formatSiweMessage = (message: SiweMessage): string => {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    message.address,
+    '',
+    ...(message.statement ? [message.statement] : []),
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+    ...OPTIONAL_FIELDS.flatMap(([field, label]) => (message[field] ? [`${label}: ${message[field]}`] : [])),
+  ];
+  return lines.join('\n');
+};
+
+/**
+ * Parse a message in the EIP-4361 text format. Only the format is checked; signature, domain
+ * and time checks are up to the caller.
+ * @param text The signed text
+ * @returns The message fields
+ * @throws {ValidationError} If the text is not a Sign-In with Ethereum message
+ */
+export const parseSiweMessage = (text: string): SiweMessage => {
+  const lines = text.split('\n');
+  const invalid = (reason: string) => new ValidationError(`Invalid sign-in message: ${reason}`);
+
+  const header = lines[0] ?? '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw invalid('missing header');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const address = lines[1] ?? '';
+  if (!ethers.utils.isAddress(address) || ethers.utils.getAddress(address) !== address) {
+    throw invalid('address is not checksummed');
+  }
+  if (lines[2] !== '') {
+    throw invalid('missing blank line after the address');
+  }
+
+  // An optional statement line, then a blank line, then the fields
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index];
+    index += 1;
+  }
+  if (lines[index] !== '') {
+    throw invalid('missing blank line before the fields');
+  }
+  index += 1;
+
+  const fields = new Map<string, string>();
+  for (const line of lines.slice(index)) {
+    const separator = line.indexOf(': ');
+    if (separator === -1) {
+      throw invalid(`unexpected line "${line}"`);
+    }
+    fields.set(line.slice(0, separator), line.slice(separator + 2));
+  }
+
+  const required = (label: string) => {
+    const value = fields.get(label);
+    if (!value) {
+      throw invalid(`missing ${label}`);
+    }
+    return value;
+  };
+
+  const chainId = Number(required('Chain ID'));
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw invalid('Chain ID is not a number');
+  }
+  const nonce = required('Nonce');
+  if (!/^[A-Za-z0-9]{8,}$/.test(nonce)) {
+    throw invalid('Nonce must be at least 8 alphanumeric characters');
+  }
+
+  const message: SiweMessage = {
+    domain,
+    address,
+    statement,
+    uri: required('URI'),
+    version: required('Version'),
+    chainId,
+    nonce,
+    issuedAt: required('Issued At'),
+  };
+  OPTIONAL_FIELDS.forEach(([field, label]) => {
+    const value = fields.get(label);
+    if (value) {
+      message[field] = value;
+    }
+  });
+
+  if (message.version !== SIWE_VERSION) {
+    throw invalid(`unsupported version ${message.version}`);
+  }
+  const timestamps = [message.issuedAt, message.expirationTime, message.notBefore];
+  if (timestamps.some(timestamp => timestamp !== undefined && Number.isNaN(Date.parse(timestamp)))) {
+    throw invalid('timestamps must be ISO 8601');
+  }
+  return message;
+};